@@ -2,8 +2,9 @@ import {
   Translate,
   type TranslateTextCommandInput,
 } from "@aws-sdk/client-translate";
+import { LocaleMapper } from "./locale.js";
+import { Placeholders } from "./placeholders.js";
 import type { ITranslate } from "./translate.interface.js";
-import { Util } from "./util.js";
 
 const supportedLanguages = [
   "af",
@@ -85,6 +86,7 @@ const supportedLanguages = [
 
 export class AWSTranslate implements ITranslate {
   private client: Translate;
+  private readonly locales = new LocaleMapper("aws", supportedLanguages);
   constructor(
     private accessKeyId: string,
     private secretAccessKey: string,
@@ -99,34 +101,27 @@ export class AWSTranslate implements ITranslate {
     });
   }
   isValidLocale(targetLocale: string): boolean {
-    return supportedLanguages.includes(targetLocale);
+    return this.locales.toEngine(targetLocale) !== undefined;
   }
   async translateText(
     text: string,
     sourceLocale: string,
     targetLocale: string,
   ): Promise<string> {
-    let args: RegExpMatchArray | null;
-    ({ args, text } = Util.replaceContextVariables(text));
-
-    let result = "";
+    // AWS Translate has no synchronous multi-text endpoint: texts are sent
+    // one request each, through the scheduler
+    let tokens: string[];
+    ({ tokens, text } = Placeholders.protect(text));
 
     const params: TranslateTextCommandInput = {
-      SourceLanguageCode: sourceLocale,
-      TargetLanguageCode: targetLocale,
+      SourceLanguageCode: this.locales.toEngine(sourceLocale) ?? sourceLocale,
+      TargetLanguageCode: this.locales.toEngine(targetLocale) ?? targetLocale,
       Text: text,
     };
 
-    try {
-      const translation = await this.client.translateText(params);
-      result = translation.TranslatedText as string;
-    } catch (error) {
-      console.error(error);
-      return "";
-    }
-
-    result = Util.replaceArgumentsWithNumbers(args, result);
+    const translation = await this.client.translateText(params);
+    const result = translation.TranslatedText as string;
 
-    return result;
+    return Placeholders.restore(result, tokens);
   }
 }
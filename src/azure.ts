@@ -1,8 +1,8 @@
 import axios from "axios";
-import { setTimeout as sleep } from "timers/promises";
 import { v4 as uuidv4 } from "uuid";
+import { LocaleMapper } from "./locale.js";
+import { Placeholders } from "./placeholders.js";
 import type { ITranslate } from "./translate.interface.js";
-import { Util } from "./util.js";
 
 const supportedLanguages = [
   "af",
@@ -112,68 +112,61 @@ const supportedLanguages = [
 
 export class AzureTranslate implements ITranslate {
   private endpoint = "https://api.cognitive.microsofttranslator.com";
+  // https://learn.microsoft.com/azure/ai-services/translator/service-limits
+  readonly batchLimits = { maxItems: 1000, maxCharacters: 50000 };
+  private readonly locales = new LocaleMapper("azure", supportedLanguages);
   constructor(
     private subscriptionKey: string,
     private subscriptionRegion: string,
   ) {}
   isValidLocale(targetLocale: string): boolean {
-    return supportedLanguages.includes(targetLocale);
+    return this.locales.toEngine(targetLocale) !== undefined;
   }
   async translateText(
     text: string,
     sourceLocale: string,
     targetLocale: string,
   ): Promise<string> {
-    let args: RegExpMatchArray | null;
-    ({ args, text } = Util.replaceContextVariables(text));
-
-    let result = "";
-
-    const maxRetries = 5;
-    let retryCount = 0;
+    const [result] = await this.translateBatch(
+      [text],
+      sourceLocale,
+      targetLocale,
+    );
+    return result;
+  }
 
-    while (retryCount <= maxRetries) {
-      try {
-        const response = await axios({
-          baseURL: this.endpoint,
-          url: "/translate",
-          method: "post",
-          headers: {
-            "Ocp-Apim-Subscription-Key": this.subscriptionKey,
-            "Ocp-Apim-Subscription-Region": this.subscriptionRegion,
-            "Content-type": "application/json",
-            "X-ClientTraceId": uuidv4().toString(),
-          },
-          params: {
-            "api-version": "3.0",
-            from: sourceLocale,
-            to: [targetLocale],
-          },
-          data: [
-            {
-              text: text,
-            },
-          ],
-          responseType: "json",
-        });
-        result = response.data[0].translations[0].text;
-        break; // Success, exit the retry loop
-      } catch (error: any) {
-        if (error.response?.status === 429 && retryCount < maxRetries) {
-          retryCount++;
-          console.log(
-            `Rate limit exceeded. Retrying in 10 seconds... (Attempt ${retryCount}/${maxRetries})`,
-          );
-          await sleep(10000); // Wait 10 seconds using timers/promises
-        } else {
-          throw error; // Re-throw if it's not a 429 error or we've exceeded max retries
-        }
-      }
-    }
+  async translateBatch(
+    texts: string[],
+    sourceLocale: string,
+    targetLocale: string,
+  ): Promise<string[]> {
+    const replaced = texts.map((text) => Placeholders.protect(text));
 
-    result = Util.replaceArgumentsWithNumbers(args, result);
+    const response = await axios({
+      baseURL: this.endpoint,
+      url: "/translate",
+      method: "post",
+      headers: {
+        "Ocp-Apim-Subscription-Key": this.subscriptionKey,
+        "Ocp-Apim-Subscription-Region": this.subscriptionRegion,
+        "Content-type": "application/json",
+        "X-ClientTraceId": uuidv4().toString(),
+      },
+      params: {
+        "api-version": "3.0",
+        from: this.locales.toEngine(sourceLocale) ?? sourceLocale,
+        to: [this.locales.toEngine(targetLocale) ?? targetLocale],
+      },
+      data: replaced.map(({ text }) => ({ text })),
+      responseType: "json",
+    });
+    const results: string[] = response.data.map(
+      (item: { translations: { text: string }[] }) => item.translations[0].text,
+    );
 
-    return result;
+    return results.map((result, index) =>
+      Placeholders.restore(result, replaced[index].tokens),
+    );
   }
 }
 
@@ -0,0 +1,193 @@
+import type { Logger } from "./config.js";
+import type { BatchLimits, ITranslate } from "./translate.interface.js";
+
+const defaultBatchLimits: BatchLimits = { maxItems: 1 };
+// answers that do not match their texts are asked again once, then split
+const mismatchRetries = 1;
+
+/**
+ * Thrown by engines whose batch answer does not match the texts sent, e.g.
+ * with missing keys or changed placeholders. The chunk is asked again,
+ * then split, each request going through the scheduler.
+ */
+export class BatchMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchMismatchError";
+  }
+}
+
+/**
+ * Called with the index of a text that could not be translated.
+ */
+export type TranslationErrorHandler = (index: number, error: unknown) => void;
+
+/**
+ * Split texts into chunks of indexes that respect the provider batch limits.
+ * A single text longer than `maxCharacters` still gets its own chunk.
+ */
+export function chunkTexts(texts: string[], limits: BatchLimits): number[][] {
+  const maxItems = Math.max(1, limits.maxItems);
+  const maxCharacters = limits.maxCharacters ?? Number.POSITIVE_INFINITY;
+
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  let currentCharacters = 0;
+
+  for (let i = 0; i < texts.length; i++) {
+    const length = texts[i].length;
+    if (
+      current.length > 0 &&
+      (current.length >= maxItems || currentCharacters + length > maxCharacters)
+    ) {
+      chunks.push(current);
+      current = [];
+      currentCharacters = 0;
+    }
+    current.push(i);
+    currentCharacters += length;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Translate texts one by one through `translateText`.
+ * Failed texts are reported to `onError` (logged to `logger` when there is
+ * none) and returned as `undefined`.
+ */
+async function translateIndividually(
+  translateEngine: ITranslate,
+  texts: string[],
+  sourceLocale: string,
+  targetLocale: string,
+  contexts?: Array<string | undefined>,
+  onError?: TranslationErrorHandler,
+  keys?: string[],
+  logger: Logger = console,
+): Promise<Array<string | undefined>> {
+  return Promise.all(
+    texts.map(async (text, index) => {
+      const translation = await translateEngine
+        .translateText(
+          text,
+          sourceLocale,
+          targetLocale,
+          contexts?.[index],
+          keys?.[index],
+        )
+        .catch((err) => {
+          if (onError) {
+            onError(index, err);
+          } else {
+            logger.error(`❌ ${err instanceof Error ? err.message : err}`);
+          }
+          return undefined;
+        });
+      return translation ?? undefined;
+    }),
+  );
+}
+
+/**
+ * Translate a list of texts using the engine's native batch API when it has
+ * one, in chunks sized by the engine's `batchLimits`. A chunk whose batch
+ * request fails is retried text by text so one bad string does not lose
+ * the whole chunk; one whose answer does not match (BatchMismatchError)
+ * is asked again, then split in two.
+ */
+export async function translateInBatches(
+  translateEngine: ITranslate,
+  texts: string[],
+  sourceLocale: string,
+  targetLocale: string,
+  contexts?: Array<string | undefined>,
+  onError?: TranslationErrorHandler,
+  keys?: string[],
+  logger: Logger = console,
+): Promise<Array<string | undefined>> {
+  if (!translateEngine.translateBatch) {
+    return translateIndividually(
+      translateEngine,
+      texts,
+      sourceLocale,
+      targetLocale,
+      contexts,
+      onError,
+      keys,
+      logger,
+    );
+  }
+
+  const results: Array<string | undefined> = new Array(texts.length);
+  const limits = translateEngine.batchLimits ?? defaultBatchLimits;
+  const translateBatch = translateEngine.translateBatch.bind(translateEngine);
+
+  const translateChunk = async (
+    chunk: number[],
+    attempt: number,
+  ): Promise<void> => {
+    const chunkValues = chunk.map((index) => texts[index]);
+    const chunkContexts = contexts
+      ? chunk.map((index) => contexts[index])
+      : undefined;
+    const chunkKeys = keys && chunk.map((index) => keys[index]);
+
+    let translations: Array<string | undefined>;
+    try {
+      translations = await translateBatch(
+        chunkValues,
+        sourceLocale,
+        targetLocale,
+        chunkContexts,
+        chunkKeys,
+      );
+      if (translations.length !== chunkValues.length) {
+        throw new Error(
+          `Batch translation returned ${translations.length} results for ${chunkValues.length} texts`,
+        );
+      }
+    } catch (error) {
+      if (error instanceof BatchMismatchError) {
+        if (attempt < mismatchRetries) {
+          return translateChunk(chunk, attempt + 1);
+        }
+        if (chunk.length > 1) {
+          const middle = Math.ceil(chunk.length / 2);
+          await translateChunk(chunk.slice(0, middle), 0);
+          await translateChunk(chunk.slice(middle), 0);
+          return;
+        }
+      }
+      logger.warn(
+        `⚠️  Batch request failed, translating its ${chunkValues.length} text(s) one by one: ${error instanceof Error ? error.message : error}`,
+      );
+      translations = await translateIndividually(
+        translateEngine,
+        chunkValues,
+        sourceLocale,
+        targetLocale,
+        chunkContexts,
+        onError && ((position, error) => onError(chunk[position], error)),
+        chunkKeys,
+        logger,
+      );
+    }
+
+    for (let position = 0; position < chunk.length; position++) {
+      results[chunk[position]] = translations[position];
+    }
+  };
+
+  // Chunks are dispatched together; a scheduler wrapped around the engine
+  // decides how many of them are actually in flight.
+  await Promise.all(
+    chunkTexts(texts, limits).map((chunk) => translateChunk(chunk, 0)),
+  );
+
+  return results;
+}
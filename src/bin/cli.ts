@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { existsSync } from "node:fs";
+import { existsSync, readFileSync } from "node:fs";
 import path from "node:path";
 import type { InferenceProviderOrPolicy } from "@huggingface/inference";
 import minimist from "minimist";
@@ -10,7 +10,13 @@ import packageJson from "../../package.json" with { type: "json" };
 const { version } = packageJson;
 
 import { config as dotenvConfig } from "dotenv";
-import type { Configuration } from "../config.js";
+import type {
+  Configuration,
+  EngineKeyInfo,
+  ExternalTranslationKey,
+} from "../config.js";
+import type { LocaleConfiguration } from "../locale.js";
+import { TranslateEngineFactory } from "../provider-factory.js";
 
 dotenvConfig();
 
@@ -54,6 +60,20 @@ const formatDetails = {
   },
   csv: { extensions: [".csv"], description: "Comma-separated values files" },
   tsv: { extensions: [".tsv"], description: "Tab-separated values files" },
+  strings: {
+    extensions: [".strings"],
+    description: "Apple Localizable.strings files",
+  },
+  stringsdict: {
+    extensions: [".stringsdict"],
+    description: "Apple plural rules (stringsdict)",
+  },
+  xcstrings: {
+    extensions: [".xcstrings"],
+    description: "Xcode String Catalogs, every locale in one file",
+  },
+  resx: { extensions: [".resx"], description: ".NET resource files" },
+  resw: { extensions: [".resw"], description: "UWP resource files" },
 } as const;
 
 const supportedFormats = Object.keys(formatDetails);
@@ -69,13 +89,31 @@ function displayHelp() {
   console.log(
     "  --json, -j               Output in JSON format (LLM-friendly)",
   );
+  console.log(
+    "  --dry-run                Show which keys would be translated, kept or removed without calling the engine",
+  );
   console.log(
     "  --mode, -m <mode>        Specify the translation mode:file or folder",
   );
   console.log(
-    "  --engine, -e <engine>    Specify the translation engine:aws,azure,google,deepLPro,deepLFree,openai,huggingface,huggingface-local",
+    `  --engine, -e <engine>    Specify the translation engine:${TranslateEngineFactory.getSupportedEngines().join(",")}`,
+  );
+  console.log(
+    "  --engineModules <list>   Modules registering more engines, e.g. ./my-engine.js,@acme/atj-engine",
+  );
+  console.log(
+    "  --fallbackEngines <list> Engines tried in order when the engine fails or does not support a locale, e.g. azure,huggingface-local",
+  );
+  console.log(
+    "  --route <locales>=<engines>  Route target locales to an engine and its fallbacks, e.g. de,fr=deepLPro or x-*=huggingface-local (repeatable)",
+  );
+  console.log(
+    "  --routes <file>          JSON routing table: locale pattern -> engine name(s) or engine configuration(s)",
   );
   console.log("  --sourceLocale, -s <locale>  Specify the source locale");
+  console.log(
+    "  --targetLocales <list>   Only translate these locales, creating missing files, e.g. ja,ko,pt-BR",
+  );
   console.log(
     "  --format, -f <format>    Manually specify the file format (overrides auto-detection)",
   );
@@ -88,10 +126,68 @@ function displayHelp() {
   console.log(
     "  --keepExtraTranslations, --no-keepExtraTranslations  Keep or remove extra translations",
   );
+  console.log(
+    "  --retranslateChanged     Retranslate only keys whose source text changed (tracked in atj.lock)",
+  );
+  console.log(
+    "  --markForReview          Flag machine translations for review (#, fuzzy in PO, needs-review-translation in XLIFF)",
+  );
+  console.log(
+    "  --retranslateFuzzy       Retranslate entries flagged for review instead of keeping them",
+  );
+  console.log(
+    "  --maxConcurrency <n>     Maximum number of engine requests in flight",
+  );
+  console.log(
+    "  --localeConcurrency <n>  Number of target locales translated in parallel",
+  );
+  console.log("  --requestsPerSecond <n>  Limit engine requests per second");
+  console.log(
+    "  --charactersPerMinute <n>  Limit characters sent to the engine per minute",
+  );
+  console.log(
+    "  --maxRetries <n>         Retries for rate limited (HTTP 429) requests",
+  );
+  console.log(
+    "  --translationMemory      Reuse translations stored in the local translation memory",
+  );
+  console.log(
+    "  --translationMemoryDir <dir>  Translation memory location (default .atj/tm)",
+  );
+  console.log(
+    "  --translationMemoryAnyEngine  Also reuse translations produced by other engines",
+  );
+  console.log(
+    "  --glossary <file>        JSON glossary of terms to keep or translate consistently",
+  );
+  console.log(
+    '  --locales <file>         JSON locale code aliases: { "aliases": { "cn": "zh-Hans" }, "engines": { "deepLPro": { "pt": "PT-PT" } } }',
+  );
+  console.log(
+    "  --placeholders <list>    Placeholder recognizers, comma separated (printf, messageformat, icu, i18next, template, html, android)",
+  );
+  console.log(
+    "  --placeholderPolicy <p>  When placeholders come back broken: retry, source, keep or flag (default)",
+  );
+  console.log("");
+  console.log("Translation memory commands:");
+  console.log(
+    "  atj tm stats                        Show record counts per engine and locale pair",
+  );
+  console.log("  atj tm list [filters]               List stored translations");
+  console.log(
+    "  atj tm prune [filters] | --all      Remove stored translations",
+  );
+  console.log(
+    "  atj tm export <file> [filters]      Export to JSON or TMX (.tmx)",
+  );
+  console.log(
+    "  Filters: --engine, --sourceLocale, --targetLocale, --olderThanDays <n>",
+  );
   console.log("");
   console.log("Supported formats:");
   const formatGroups = {
-    "JSON-based": ["json", "arb"],
+    "JSON-based": ["json", "arb", "xcstrings"],
     "XML-based": [
       "xml",
       "android-xml",
@@ -100,8 +196,11 @@ function displayHelp() {
       "xliff",
       "xmb",
       "xtb",
+      "stringsdict",
+      "resx",
+      "resw",
     ],
-    "Text-based": ["po", "pot", "yaml", "properties"],
+    "Text-based": ["po", "pot", "yaml", "properties", "strings"],
     Tabular: ["csv", "tsv"],
   };
 
@@ -165,10 +264,17 @@ function displayHelp() {
     "  atj --engine google --sourceLocale en --keepTranslations app.json",
   );
   console.log("  atj --engine azure --no-keepExtraTranslations strings.xml");
+  console.log(
+    "  atj --engine deepLPro --maxConcurrency 4 --localeConcurrency 3 --mode folder locales/",
+  );
+  console.log(
+    "  atj --engine azure --requestsPerSecond 10 --charactersPerMinute 30000 app.json",
+  );
   console.log("");
   console.log("  # JSON output for LLM/automation");
   console.log("  atj --engine huggingface-local --json demo.json");
   console.log("  atj --engine google --json --format po messages.po");
+  console.log("  atj --engine deepLPro --dry-run --json app.json");
   console.log("  atj --format xliff messages.xlf         # Force XLIFF format");
   console.log(
     "  atj --mode folder locales/               # Process entire folder",
@@ -198,32 +304,14 @@ function displayHelp() {
     "  --keepExtraTranslations, --no-keepExtraTranslations  --no-keepExtraTranslations",
   );
   console.log("  --json, -j                                           false");
+  console.log("  --maxConcurrency <n>                                 1");
+  console.log("  --localeConcurrency <n>                              1");
+  console.log("  --maxRetries <n>                                     5");
   console.log("");
   console.log("Engine details:");
-  console.log(
-    "  aws              - AWS Translate (requires ATJ_AWS_* env vars)",
-  );
-  console.log(
-    "  azure            - Azure Translator (requires ATJ_AZURE_* env vars)",
-  );
-  console.log(
-    "  google           - Google Translate (requires ATJ_GOOGLE_API_KEY)",
-  );
-  console.log(
-    "  deepLPro         - DeepL Pro API (requires ATJ_DEEPL_PRO_SECRET_KEY)",
-  );
-  console.log(
-    "  deepLFree        - DeepL Free API (requires ATJ_DEEPL_FREE_SECRET_KEY)",
-  );
-  console.log(
-    "  openai           - OpenAI API or local Ollama (requires ATJ_OPEN_AI_SECRET_KEY)",
-  );
-  console.log(
-    "  huggingface      - Hugging Face Cloud API (requires ATJ_HUGGING_FACE_API_KEY)",
-  );
-  console.log(
-    "  huggingface-local - Hugging Face Local ONNX (requires ATJ_HUGGING_FACE_LOCAL_MODEL)",
-  );
+  for (const [kind, definition] of TranslateEngineFactory.getAllEngines()) {
+    console.log(`  ${kind.padEnd(16)} - ${definition.description ?? kind}`);
+  }
   console.log("");
   console.log(
     "Performance note: Engines use lazy loading - only the selected engine is loaded.",
@@ -275,6 +363,106 @@ function listFormats() {
   console.log("  • Set environment variables in .env file for API keys");
 }
 
+// Define a function to inspect, prune or export the translation memory
+async function runTranslationMemoryCommand(args: string[]) {
+  const tmFlags = minimist(args, {
+    string: [
+      "engine",
+      "sourceLocale",
+      "targetLocale",
+      "olderThanDays",
+      "translationMemoryDir",
+    ],
+    boolean: ["all", "json"],
+    alias: { engine: ["e"], sourceLocale: ["s"], json: ["j"] },
+  });
+  const [, subcommand = "stats", outputFile] = tmFlags._.map(String);
+
+  const { TranslationMemory } = await import("../translation-memory.js");
+  const memory = new TranslationMemory(tmFlags.translationMemoryDir);
+  const filter = {
+    engine: tmFlags.engine,
+    sourceLocale: tmFlags.sourceLocale,
+    targetLocale: tmFlags.targetLocale,
+    olderThanDays:
+      tmFlags.olderThanDays !== undefined
+        ? Number(tmFlags.olderThanDays)
+        : undefined,
+  };
+
+  switch (subcommand) {
+    case "stats": {
+      const counts = new Map<string, number>();
+      for (const record of memory.records(filter)) {
+        const key = `${record.engine} ${record.sourceLocale} → ${record.targetLocale}`;
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      if (tmFlags.json) {
+        console.log(JSON.stringify(Object.fromEntries(counts), null, 2));
+        break;
+      }
+      console.log(`Translation memory: ${memory.directory}`);
+      if (counts.size === 0) {
+        console.log("  (empty)");
+      }
+      for (const [key, count] of counts) {
+        console.log(`  ${key.padEnd(40)} ${count}`);
+      }
+      break;
+    }
+    case "list": {
+      const records = memory.records(filter);
+      if (tmFlags.json) {
+        console.log(JSON.stringify(records, null, 2));
+        break;
+      }
+      for (const record of records) {
+        console.log(
+          `[${record.engine} ${record.sourceLocale}→${record.targetLocale}] ${record.source} → ${record.translation}`,
+        );
+      }
+      break;
+    }
+    case "prune": {
+      const hasFilter = Object.values(filter).some((v) => v !== undefined);
+      if (!hasFilter && !tmFlags.all) {
+        console.error(
+          c.red("❌ Refusing to prune the whole translation memory"),
+        );
+        console.error(
+          c.yellow(
+            "💡 Pass --engine, --sourceLocale, --targetLocale, --olderThanDays or --all",
+          ),
+        );
+        process.exit(1);
+      }
+      const removed = memory.prune(filter);
+      console.log(
+        c.green(`🧹 Removed ${removed} translation memory record(s)`),
+      );
+      break;
+    }
+    case "export": {
+      if (!outputFile) {
+        console.error(c.red("❌ Output file is required"));
+        console.error(c.yellow("💡 Usage: atj tm export <file.json|file.tmx>"));
+        process.exit(1);
+      }
+      const exported = memory.export(outputFile, filter);
+      console.log(
+        c.green(`📦 Exported ${exported} record(s) to ${outputFile}`),
+      );
+      break;
+    }
+    default:
+      console.error(
+        c.red(`❌ Unknown translation memory command: ${subcommand}`),
+      );
+      console.error(c.yellow("💡 Use one of: stats, list, prune, export"));
+      process.exit(1);
+  }
+}
+
 const arguments_ = process.argv.slice(2);
 
 if (arguments_.length === 0) {
@@ -293,13 +481,39 @@ const flags = minimist(arguments_, {
     help: ["h"],
     json: ["j"],
   },
-  string: ["mode", "engine", "sourceLocale", "format"],
+  string: [
+    "mode",
+    "engine",
+    "sourceLocale",
+    "format",
+    "maxConcurrency",
+    "localeConcurrency",
+    "requestsPerSecond",
+    "charactersPerMinute",
+    "maxRetries",
+    "translationMemoryDir",
+    "glossary",
+    "placeholders",
+    "placeholderPolicy",
+    "fallbackEngines",
+    "route",
+    "routes",
+    "locales",
+    "targetLocales",
+    "engineModules",
+  ],
   boolean: [
     "keepTranslations",
     "keepExtraTranslations",
     "help",
     "list-formats",
     "json",
+    "translationMemory",
+    "translationMemoryAnyEngine",
+    "retranslateChanged",
+    "markForReview",
+    "retranslateFuzzy",
+    "dry-run",
   ],
   default: {
     engine: "aws",
@@ -312,6 +526,27 @@ const flags = minimist(arguments_, {
 });
 console.log(c.green(`🔨 Auto translate json cli v${version}`));
 
+// engine modules register their engines before the help lists them
+const engineModules: string[] = (flags.engineModules ?? "")
+  .split(",")
+  .map((name: string) => name.trim())
+  .filter((name: string) => name);
+try {
+  await TranslateEngineFactory.loadModules(engineModules);
+} catch (error) {
+  console.error(
+    c.red(
+      `❌ Engine module unreadable: ${error instanceof Error ? error.message : error}`,
+    ),
+  );
+  console.error(
+    c.yellow(
+      "💡 Engine modules are package names or paths relative to the current directory",
+    ),
+  );
+  process.exit(1);
+}
+
 if (flags.help) {
   displayHelp();
   process.exit(0);
@@ -322,6 +557,11 @@ if (flags["list-formats"]) {
   process.exit(0);
 }
 
+if (flags._[0] === "tm") {
+  await runTranslationMemoryCommand(arguments_);
+  process.exit(0);
+}
+
 const inputPath = flags._[0];
 const {
   mode,
@@ -331,8 +571,17 @@ const {
   keepExtraTranslations,
   format,
   json,
+  "dry-run": dryRun,
 } = flags;
 
+const schedulerFlags = [
+  "maxConcurrency",
+  "localeConcurrency",
+  "requestsPerSecond",
+  "charactersPerMinute",
+  "maxRetries",
+] as const;
+
 // Validate input path
 if (!inputPath) {
   console.error(c.red("❌ Input path is required"));
@@ -347,6 +596,24 @@ if (format && !supportedFormats.includes(format)) {
   process.exit(1);
 }
 
+// Validate scheduler limits (zero retries turns retrying off)
+for (const flag of schedulerFlags) {
+  const value = flags[flag];
+  const minimum = flag === "maxRetries" ? 0 : 1;
+  if (
+    value !== undefined &&
+    !(Number.isInteger(Number(value)) && Number(value) >= minimum)
+  ) {
+    console.error(c.red(`❌ Invalid ${flag}: ${value}`));
+    console.error(
+      c.yellow(
+        `💡 ${flag} must be a ${minimum === 0 ? "non-negative" : "positive"} integer`,
+      ),
+    );
+    process.exit(1);
+  }
+}
+
 // Validate mode
 if (mode && !["file", "folder"].includes(mode)) {
   console.error(c.red(`❌ Invalid mode: ${mode}`));
@@ -355,221 +622,404 @@ if (mode && !["file", "folder"].includes(mode)) {
 }
 
 // Validate engine
-const validEngines = [
-  "aws",
-  "azure",
-  "google",
-  "deepLPro",
-  "deepLFree",
-  "openai",
-  "huggingface",
-  "huggingface-local",
-];
+const validEngines = TranslateEngineFactory.getSupportedEngines();
 if (engine && !validEngines.includes(engine)) {
   console.error(c.red(`❌ Invalid engine: ${engine}`));
   console.error(c.yellow(`💡 Supported engines: ${validEngines.join(", ")}`));
   process.exit(1);
 }
 
-// Check if input path exists
-if (!existsSync(inputPath)) {
-  console.error(c.red(`❌ Input path does not exist: ${inputPath}`));
-  process.exit(1);
+const fallbackEngines: string[] = (flags.fallbackEngines ?? "")
+  .split(",")
+  .map((name: string) => name.trim())
+  .filter((name: string) => name);
+for (const fallbackEngine of fallbackEngines) {
+  if (!validEngines.includes(fallbackEngine)) {
+    console.error(c.red(`❌ Invalid fallback engine: ${fallbackEngine}`));
+    console.error(c.yellow(`💡 Supported engines: ${validEngines.join(", ")}`));
+    process.exit(1);
+  }
 }
 
-const config: Configuration = {} as Configuration;
-
-// set translate engine config
-switch (engine) {
-  case "google": {
-    const googleApiKey = process.env.ATJ_GOOGLE_API_KEY;
-    if (!googleApiKey) {
-      console.error(
-        c.red(
-          "❌ Google API key not found in environment variable ATJ_GOOGLE_API_KEY",
-        ),
-      );
-      console.error(
-        c.yellow(
-          "💡 Get API key: https://cloud.google.com/translate/docs/setup",
-        ),
-      );
-      console.error(
-        c.yellow("💡 Set ATJ_GOOGLE_API_KEY in .env file or environment"),
-      );
-      process.exit(1);
-    }
-    config.translationKeyInfo = {
-      kind: "google",
-      apiKey: googleApiKey,
-    };
-    break;
+// Routing table: the --routes file first, then every --route flag
+type RouteEngine = string | EngineKeyInfo;
+const routeEngines: Record<string, RouteEngine[]> = {};
+if (flags.routes) {
+  if (!existsSync(flags.routes)) {
+    console.error(c.red(`❌ Routes file does not exist: ${flags.routes}`));
+    process.exit(1);
   }
-  case "aws": {
-    const awsAccessKeyId = process.env.ATJ_AWS_ACCESS_KEY_ID;
-    const awsSecretAccessKey = process.env.ATJ_AWS_SECRET_ACCESS_KEY;
-    const awsRegion = process.env.ATJ_AWS_REGION;
-    if (!awsAccessKeyId || !awsSecretAccessKey || !awsRegion) {
-      console.error(
-        c.red(
-          "❌ AWS credentials not found in environment variables ATJ_AWS_ACCESS_KEY_ID, ATJ_AWS_SECRET_ACCESS_KEY, ATJ_AWS_REGION",
-        ),
-      );
-      process.exit(1);
+  try {
+    const routes = JSON.parse(readFileSync(flags.routes, "utf8"));
+    for (const [pattern, engines] of Object.entries(routes)) {
+      routeEngines[pattern] = [engines as RouteEngine | RouteEngine[]].flat();
     }
-    config.translationKeyInfo = {
-      kind: "aws",
-      accessKeyId: awsAccessKeyId,
-      secretAccessKey: awsSecretAccessKey,
-      region: awsRegion,
-    };
-    break;
+  } catch (error) {
+    console.error(
+      c.red(
+        `❌ Routes file unreadable: ${error instanceof Error ? error.message : error}`,
+      ),
+    );
+    process.exit(1);
   }
-  case "azure": {
-    const azureSecretKey = process.env.ATJ_AZURE_SECRET_KEY;
-    const azureRegion = process.env.ATJ_AZURE_REGION;
-    if (!azureSecretKey || !azureRegion) {
-      console.error(
-        c.red(
-          "❌ Azure credentials not found in environment variables ATJ_AZURE_SECRET_KEY, ATJ_AZURE_REGION",
-        ),
-      );
-      process.exit(1);
+}
+for (const route of [flags.route ?? []].flat()) {
+  const [patterns, engines] = String(route).split("=");
+  if (!patterns || !engines) {
+    console.error(c.red(`❌ Invalid route: ${route}`));
+    console.error(
+      c.yellow(
+        '💡 Use --route <locales>=<engine>[,<fallback engine>...], e.g. --route "hi,ta=azure"',
+      ),
+    );
+    process.exit(1);
+  }
+  for (const pattern of patterns.split(",")) {
+    if (pattern.trim()) {
+      routeEngines[pattern.trim()] = engines
+        .split(",")
+        .map((name) => name.trim())
+        .filter((name) => name);
     }
-    config.translationKeyInfo = {
-      kind: "azure",
-      secretKey: azureSecretKey,
-      region: azureRegion,
-    };
-    break;
   }
-  case "openai": {
-    const openaiApiKey = process.env.ATJ_OPEN_AI_SECRET_KEY;
-    if (!openaiApiKey) {
-      console.error(
-        c.red(
-          "❌ OpenAI API key not found in environment variable ATJ_OPEN_AI_SECRET_KEY",
-        ),
-      );
-      console.error(
-        c.yellow(
-          "💡 For OpenAI: Set ATJ_OPEN_AI_SECRET_KEY to your OpenAI API key",
-        ),
-      );
+}
+for (const [pattern, engines] of Object.entries(routeEngines)) {
+  for (const routeEngine of engines) {
+    if (
+      typeof routeEngine === "string" &&
+      !validEngines.includes(routeEngine)
+    ) {
       console.error(
-        c.yellow(
-          "💡 For local Ollama: Set ATJ_OPEN_AI_SECRET_KEY to 'ollama' and ATJ_OPEN_AI_BASE_URL to 'http://localhost:11434'",
-        ),
+        c.red(`❌ Invalid engine for locales '${pattern}': ${routeEngine}`),
       );
       console.error(
-        c.yellow(
-          "💡 Example for Ollama: ATJ_OPEN_AI_SECRET_KEY=ollama ATJ_OPEN_AI_BASE_URL=http://localhost:11434",
-        ),
+        c.yellow(`💡 Supported engines: ${validEngines.join(", ")}`),
       );
       process.exit(1);
     }
-    config.translationKeyInfo = {
-      kind: "openai",
-      apiKey: openaiApiKey,
-      baseUrl: process.env.ATJ_OPEN_AI_BASE_URL ?? "https://api.openai.com/v1",
-      model: process.env.ATJ_OPEN_AI_MODEL ?? "gpt-3.5-turbo",
-      maxTokens: Number(process.env.ATJ_OPEN_AI_MAX_TOKENS ?? "256"),
-      temperature: Number(process.env.ATJ_OPEN_AI_TEMPERATURE ?? "0.7"),
-      topP: Number(process.env.ATJ_OPEN_AI_TOP_P ?? "0.9"),
-      n: Number(process.env.ATJ_OPEN_AI_N ?? "1"),
-      frequencyPenalty: Number(
-        process.env.ATJ_OPEN_AI_FREQUENCY_PENALTY ?? "0",
+  }
+}
+
+// Check if input path exists
+if (!existsSync(inputPath)) {
+  console.error(c.red(`❌ Input path does not exist: ${inputPath}`));
+  process.exit(1);
+}
+
+// Validate placeholder policy
+const placeholderPolicies = ["retry", "source", "keep", "flag"];
+if (
+  flags.placeholderPolicy &&
+  !placeholderPolicies.includes(flags.placeholderPolicy)
+) {
+  console.error(
+    c.red(`❌ Invalid placeholder policy: ${flags.placeholderPolicy}`),
+  );
+  console.error(
+    c.yellow(
+      `💡 Placeholder policy must be one of: ${placeholderPolicies.join(", ")}`,
+    ),
+  );
+  process.exit(1);
+}
+
+if (flags.glossary && !existsSync(flags.glossary)) {
+  console.error(c.red(`❌ Glossary file does not exist: ${flags.glossary}`));
+  process.exit(1);
+}
+
+let locales: LocaleConfiguration | undefined;
+if (flags.locales) {
+  if (!existsSync(flags.locales)) {
+    console.error(c.red(`❌ Locales file does not exist: ${flags.locales}`));
+    process.exit(1);
+  }
+  try {
+    locales = JSON.parse(readFileSync(flags.locales, "utf8"));
+  } catch (error) {
+    console.error(
+      c.red(
+        `❌ Locales file unreadable: ${error instanceof Error ? error.message : error}`,
       ),
-      presencePenalty: Number(process.env.ATJ_OPEN_AI_PRESENCE_PENALTY ?? "0"),
-    };
-    break;
+    );
+    process.exit(1);
   }
-  case "deepLPro": {
-    const deepLProSecretKey = process.env.ATJ_DEEPL_PRO_SECRET_KEY;
-    if (!deepLProSecretKey) {
-      console.log(
-        c.red(
-          "❌ DeepL pro api key not found in environment variable ATJ_DEEPL_PRO_SECRET_KEY",
-        ),
-      );
-      process.exit(1);
+}
+
+const config: Configuration = {} as Configuration;
+
+/**
+ * Read the credentials of an engine from the environment, or exit with a
+ * hint when they are missing.
+ */
+function readTranslationKeyInfo(engine: string): EngineKeyInfo {
+  switch (engine) {
+    case "google": {
+      const googleApiKey = process.env.ATJ_GOOGLE_API_KEY;
+      if (!googleApiKey) {
+        console.error(
+          c.red(
+            "❌ Google API key not found in environment variable ATJ_GOOGLE_API_KEY",
+          ),
+        );
+        console.error(
+          c.yellow(
+            "💡 Get API key: https://cloud.google.com/translate/docs/setup",
+          ),
+        );
+        console.error(
+          c.yellow("💡 Set ATJ_GOOGLE_API_KEY in .env file or environment"),
+        );
+        process.exit(1);
+      }
+      return {
+        kind: "google",
+        apiKey: googleApiKey,
+      };
     }
-    config.translationKeyInfo = {
-      kind: "deepLPro",
-      secretKey: deepLProSecretKey,
-    };
-    break;
-  }
-  case "deepLFree": {
-    const deepLFreeSecretKey = process.env.ATJ_DEEPL_FREE_SECRET_KEY;
-    if (!deepLFreeSecretKey) {
-      console.error(
-        c.red(
-          "❌ DeepL free api key not found in environment variable ATJ_DEEPL_FREE_SECRET_KEY",
+    case "aws": {
+      const awsAccessKeyId = process.env.ATJ_AWS_ACCESS_KEY_ID;
+      const awsSecretAccessKey = process.env.ATJ_AWS_SECRET_ACCESS_KEY;
+      const awsRegion = process.env.ATJ_AWS_REGION;
+      if (!awsAccessKeyId || !awsSecretAccessKey || !awsRegion) {
+        console.error(
+          c.red(
+            "❌ AWS credentials not found in environment variables ATJ_AWS_ACCESS_KEY_ID, ATJ_AWS_SECRET_ACCESS_KEY, ATJ_AWS_REGION",
+          ),
+        );
+        process.exit(1);
+      }
+      return {
+        kind: "aws",
+        accessKeyId: awsAccessKeyId,
+        secretAccessKey: awsSecretAccessKey,
+        region: awsRegion,
+      };
+    }
+    case "azure": {
+      const azureSecretKey = process.env.ATJ_AZURE_SECRET_KEY;
+      const azureRegion = process.env.ATJ_AZURE_REGION;
+      if (!azureSecretKey || !azureRegion) {
+        console.error(
+          c.red(
+            "❌ Azure credentials not found in environment variables ATJ_AZURE_SECRET_KEY, ATJ_AZURE_REGION",
+          ),
+        );
+        process.exit(1);
+      }
+      return {
+        kind: "azure",
+        secretKey: azureSecretKey,
+        region: azureRegion,
+      };
+    }
+    case "openai": {
+      const openaiApiKey = process.env.ATJ_OPEN_AI_SECRET_KEY;
+      if (!openaiApiKey) {
+        console.error(
+          c.red(
+            "❌ OpenAI API key not found in environment variable ATJ_OPEN_AI_SECRET_KEY",
+          ),
+        );
+        console.error(
+          c.yellow(
+            "💡 For OpenAI: Set ATJ_OPEN_AI_SECRET_KEY to your OpenAI API key",
+          ),
+        );
+        console.error(
+          c.yellow(
+            "💡 For local Ollama: Set ATJ_OPEN_AI_SECRET_KEY to 'ollama' and ATJ_OPEN_AI_BASE_URL to 'http://localhost:11434'",
+          ),
+        );
+        console.error(
+          c.yellow(
+            "💡 Example for Ollama: ATJ_OPEN_AI_SECRET_KEY=ollama ATJ_OPEN_AI_BASE_URL=http://localhost:11434",
+          ),
+        );
+        process.exit(1);
+      }
+      return {
+        kind: "openai",
+        apiKey: openaiApiKey,
+        baseUrl:
+          process.env.ATJ_OPEN_AI_BASE_URL ?? "https://api.openai.com/v1",
+        model: process.env.ATJ_OPEN_AI_MODEL ?? "gpt-3.5-turbo",
+        maxTokens: Number(process.env.ATJ_OPEN_AI_MAX_TOKENS ?? "256"),
+        temperature: Number(process.env.ATJ_OPEN_AI_TEMPERATURE ?? "0.7"),
+        topP: Number(process.env.ATJ_OPEN_AI_TOP_P ?? "0.9"),
+        n: Number(process.env.ATJ_OPEN_AI_N ?? "1"),
+        frequencyPenalty: Number(
+          process.env.ATJ_OPEN_AI_FREQUENCY_PENALTY ?? "0",
         ),
-      );
-      process.exit(1);
+        presencePenalty: Number(
+          process.env.ATJ_OPEN_AI_PRESENCE_PENALTY ?? "0",
+        ),
+        systemPrompt: process.env.ATJ_OPEN_AI_SYSTEM_PROMPT,
+        userPrompt: process.env.ATJ_OPEN_AI_USER_PROMPT,
+        structured: process.env.ATJ_OPEN_AI_STRUCTURED === "true",
+        tokenBudget: process.env.ATJ_OPEN_AI_TOKEN_BUDGET
+          ? Number(process.env.ATJ_OPEN_AI_TOKEN_BUDGET)
+          : undefined,
+      };
     }
-    config.translationKeyInfo = {
-      kind: "deepLFree",
-      secretKey: deepLFreeSecretKey,
-    };
-    break;
+    case "deepLPro": {
+      const deepLProSecretKey = process.env.ATJ_DEEPL_PRO_SECRET_KEY;
+      if (!deepLProSecretKey) {
+        console.log(
+          c.red(
+            "❌ DeepL pro api key not found in environment variable ATJ_DEEPL_PRO_SECRET_KEY",
+          ),
+        );
+        process.exit(1);
+      }
+      return {
+        kind: "deepLPro",
+        secretKey: deepLProSecretKey,
+      };
+    }
+    case "deepLFree": {
+      const deepLFreeSecretKey = process.env.ATJ_DEEPL_FREE_SECRET_KEY;
+      if (!deepLFreeSecretKey) {
+        console.error(
+          c.red(
+            "❌ DeepL free api key not found in environment variable ATJ_DEEPL_FREE_SECRET_KEY",
+          ),
+        );
+        process.exit(1);
+      }
+      return {
+        kind: "deepLFree",
+        secretKey: deepLFreeSecretKey,
+      };
+    }
+    case "huggingface": {
+      const huggingFaceApiKey = process.env.ATJ_HUGGING_FACE_API_KEY;
+      if (!huggingFaceApiKey) {
+        console.error(
+          c.red(
+            "❌ Hugging Face API key not found in environment variable ATJ_HUGGING_FACE_API_KEY",
+          ),
+        );
+        process.exit(1);
+      }
+      return {
+        kind: "huggingface",
+        apiKey: huggingFaceApiKey,
+        model:
+          process.env.ATJ_HUGGING_FACE_MODEL ?? "Helsinki-NLP/opus-mt-en-fr",
+        provider: process.env.ATJ_HUGGING_FACE_PROVIDER as
+          | InferenceProviderOrPolicy
+          | undefined,
+      };
+    }
+    case "huggingface-local": {
+      const huggingFaceLocalModel = process.env.ATJ_HUGGING_FACE_LOCAL_MODEL;
+      if (!huggingFaceLocalModel) {
+        console.error(
+          c.red(
+            "❌ Hugging Face local model not found in environment variable ATJ_HUGGING_FACE_LOCAL_MODEL",
+          ),
+        );
+        console.error(
+          c.yellow(
+            "💡 Set ATJ_HUGGING_FACE_LOCAL_MODEL in .env file or environment",
+          ),
+        );
+        console.error(
+          c.yellow(
+            "💡 Example: ATJ_HUGGING_FACE_LOCAL_MODEL=Xenova/opus-mt-en-fr",
+          ),
+        );
+        console.error(
+          c.yellow(
+            "💡 Available models: https://huggingface.co/models?pipeline_tag=translation",
+          ),
+        );
+        process.exit(1);
+      }
+      return {
+        kind: "huggingface-local",
+        model: huggingFaceLocalModel,
+      };
+    }
+    case "pseudo":
+      return {
+        kind: "pseudo",
+        mode: process.env.ATJ_PSEUDO_MODE as
+          | "accents"
+          | "rtl"
+          | "german"
+          | undefined,
+        expansion: process.env.ATJ_PSEUDO_EXPANSION
+          ? Number(process.env.ATJ_PSEUDO_EXPANSION)
+          : undefined,
+        brackets: process.env.ATJ_PSEUDO_BRACKETS !== "false",
+      };
+    default:
+      return readRegisteredEngine(engine);
   }
-  case "huggingface": {
-    const huggingFaceApiKey = process.env.ATJ_HUGGING_FACE_API_KEY;
-    if (!huggingFaceApiKey) {
-      console.error(
-        c.red(
-          "❌ Hugging Face API key not found in environment variable ATJ_HUGGING_FACE_API_KEY",
-        ),
-      );
-      process.exit(1);
+}
+
+/**
+ * Read the options of an engine registered by an engine module from the
+ * environment variables named in its schema.
+ */
+function readRegisteredEngine(engine: string): ExternalTranslationKey {
+  const definition = TranslateEngineFactory.getEngine(engine);
+  if (!definition) {
+    console.error(c.red(`❌ Engine ${engine} not supported`));
+    process.exit(1);
+  }
+  const translationKeyInfo: ExternalTranslationKey = { kind: engine };
+  for (const [name, option] of Object.entries(definition.schema)) {
+    const value = option.env && process.env[option.env];
+    if (!value) {
+      continue;
+    }
+    if (option.type === "number") {
+      translationKeyInfo[name] = Number(value);
+    } else if (option.type === "boolean") {
+      translationKeyInfo[name] = value === "true";
+    } else if (option.type === "object") {
+      translationKeyInfo[name] = JSON.parse(value);
+    } else {
+      translationKeyInfo[name] = value;
     }
-    config.translationKeyInfo = {
-      kind: "huggingface",
-      apiKey: huggingFaceApiKey,
-      model: process.env.ATJ_HUGGING_FACE_MODEL ?? "Helsinki-NLP/opus-mt-en-fr",
-      provider: process.env.ATJ_HUGGING_FACE_PROVIDER as
-        | InferenceProviderOrPolicy
-        | undefined,
-    };
-    break;
   }
-  case "huggingface-local": {
-    const huggingFaceLocalModel = process.env.ATJ_HUGGING_FACE_LOCAL_MODEL;
-    if (!huggingFaceLocalModel) {
-      console.error(
-        c.red(
-          "❌ Hugging Face local model not found in environment variable ATJ_HUGGING_FACE_LOCAL_MODEL",
-        ),
-      );
-      console.error(
-        c.yellow(
-          "💡 Set ATJ_HUGGING_FACE_LOCAL_MODEL in .env file or environment",
-        ),
-      );
-      console.error(
-        c.yellow(
-          "💡 Example: ATJ_HUGGING_FACE_LOCAL_MODEL=Xenova/opus-mt-en-fr",
-        ),
-      );
+  const errors = TranslateEngineFactory.validate(translationKeyInfo);
+  if (errors.length > 0) {
+    console.error(
+      c.red(`❌ Invalid ${engine} configuration: ${errors.join(", ")}`),
+    );
+    const variables = Object.values(definition.schema)
+      .map((option) => option.env)
+      .filter((variable) => variable);
+    if (variables.length > 0) {
       console.error(
-        c.yellow(
-          "💡 Available models: https://huggingface.co/models?pipeline_tag=translation",
-        ),
+        c.yellow(`💡 Set ${variables.join(", ")} in .env file or environment`),
       );
-      process.exit(1);
     }
-    config.translationKeyInfo = {
-      kind: "huggingface-local",
-      model: huggingFaceLocalModel,
-    };
-    break;
-  }
-  default:
-    console.error(c.red(`❌ Engine ${engine} not supported`));
     process.exit(1);
+  }
+  return translationKeyInfo;
+}
+
+config.translationKeyInfo = readTranslationKeyInfo(engine);
+if (fallbackEngines.length > 0) {
+  config.fallbackEngines = fallbackEngines.map(readTranslationKeyInfo);
+}
+if (Object.keys(routeEngines).length > 0) {
+  // engines given by name read their credentials from the environment
+  config.engineRoutes = Object.fromEntries(
+    Object.entries(routeEngines).map(([pattern, engines]) => [
+      pattern,
+      engines.map((routeEngine) =>
+        typeof routeEngine === "string"
+          ? readTranslationKeyInfo(routeEngine)
+          : routeEngine,
+      ),
+    ]),
+  );
 }
 
 if (process.env.ATJ_START_DELIMITER) {
@@ -581,12 +1031,67 @@ if (process.env.ATJ_END_DELIMITER) {
 }
 
 config.sourceLocale = sourceLocale;
-config.keepTranslations = keepTranslations ? "keep" : "retranslate";
+const targetLocales: string[] | undefined = flags.targetLocales
+  ?.split(",")
+  .map((locale: string) => locale.trim())
+  .filter((locale: string) => locale);
+if (targetLocales) {
+  config.targetLocales = targetLocales;
+}
+config.keepTranslations = flags.retranslateChanged
+  ? "retranslate-changed"
+  : keepTranslations
+    ? "keep"
+    : "retranslate";
 config.keepExtraTranslations = keepExtraTranslations ? "keep" : "remove";
+if (flags.markForReview) {
+  config.markForReview = true;
+}
+if (flags.retranslateFuzzy) {
+  config.fuzzyTranslations = "retranslate";
+}
 config.mode = mode;
 if (format) {
   config.format = format;
 }
+for (const flag of schedulerFlags) {
+  if (flags[flag] !== undefined) {
+    config.scheduler = { ...config.scheduler, [flag]: Number(flags[flag]) };
+  }
+}
+if (dryRun) {
+  config.dryRun = true;
+}
+if (flags.glossary) {
+  config.glossary = path.resolve(flags.glossary);
+}
+if (locales) {
+  config.locales = locales;
+}
+if (engineModules.length > 0) {
+  config.engineModules = engineModules;
+}
+if (flags.placeholders) {
+  config.placeholders = {
+    recognizers: flags.placeholders
+      .split(",")
+      .map((name: string) => name.trim())
+      .filter((name: string) => name),
+  };
+}
+if (flags.placeholderPolicy) {
+  config.placeholders = {
+    ...config.placeholders,
+    policy: flags.placeholderPolicy,
+  };
+}
+if (flags.translationMemory || flags.translationMemoryDir) {
+  config.translationMemory = {
+    enabled: true,
+    directory: flags.translationMemoryDir,
+    anyEngine: flags.translationMemoryAnyEngine,
+  };
+}
 
 async function main() {
   // Load the translation runtime only when an actual translation command is executed.
@@ -596,118 +1101,108 @@ async function main() {
   const sourcePath = path.join(process.cwd(), inputPath);
 
   if (json) {
-    // JSON output mode - capture console output
-    const originalConsoleLog = console.log;
-    const originalConsoleError = console.error;
-    const originalConsoleWarn = console.warn;
-
+    // JSON output mode - progress messages are collected instead of printed
     const logs: Array<{ type: string; message: string; timestamp: number }> =
       [];
-
-    console.log = (...args) => {
-      logs.push({
-        type: "log",
-        message: args
-          .map((arg) =>
-            typeof arg === "object" ? JSON.stringify(arg) : String(arg),
-          )
-          .join(" "),
-        timestamp: Date.now(),
-      });
-    };
-
-    console.error = (...args) => {
-      logs.push({
-        type: "error",
-        message: args
-          .map((arg) =>
-            typeof arg === "object" ? JSON.stringify(arg) : String(arg),
-          )
-          .join(" "),
-        timestamp: Date.now(),
-      });
+    const collect =
+      (type: string) =>
+      (...args: unknown[]) => {
+        logs.push({
+          type,
+          message: args
+            .map((arg) =>
+              typeof arg === "object" ? JSON.stringify(arg) : String(arg),
+            )
+            .join(" "),
+          timestamp: Date.now(),
+        });
+      };
+    config.logger = {
+      log: collect("log"),
+      warn: collect("warn"),
+      error: collect("error"),
     };
 
-    console.warn = (...args) => {
-      logs.push({
-        type: "warn",
-        message: args
-          .map((arg) =>
-            typeof arg === "object" ? JSON.stringify(arg) : String(arg),
-          )
-          .join(" "),
-        timestamp: Date.now(),
-      });
+    const input = {
+      path: sourcePath,
+      mode,
+      engine,
+      fallbackEngines,
+      routes: Object.fromEntries(
+        Object.entries(routeEngines).map(([pattern, engines]) => [
+          pattern,
+          engines.map((routeEngine) =>
+            typeof routeEngine === "string" ? routeEngine : routeEngine.kind,
+          ),
+        ]),
+      ),
+      sourceLocale,
+      targetLocales,
+      format: format || "auto",
+      keepTranslations,
+      keepExtraTranslations,
     };
-
     const startTime = Date.now();
 
     try {
-      await translate(sourcePath, config);
-      const endTime = Date.now();
-
-      const result = {
-        command: "translate",
-        version,
-        timestamp: new Date().toISOString(),
-        input: {
-          path: sourcePath,
-          mode,
-          engine,
-          sourceLocale,
-          format: format || "auto",
-          keepTranslations,
-          keepExtraTranslations,
-        },
-        performance: {
-          startTime,
-          endTime,
-          totalMs: endTime - startTime,
-        },
-        logs,
-        status: "success",
-        message: "Translation completed successfully",
-      };
+      const result = await translate(sourcePath, config);
+      const { plan, ...run } = result;
 
-      // Restore console
-      console.log = originalConsoleLog;
-      console.error = originalConsoleError;
-      console.warn = originalConsoleWarn;
-
-      console.log(JSON.stringify(result, null, 2));
+      console.log(
+        JSON.stringify(
+          {
+            command: dryRun ? "plan" : "translate",
+            version,
+            timestamp: new Date().toISOString(),
+            input,
+            performance: {
+              startTime: result.startTime,
+              endTime: result.endTime,
+              totalMs: result.durationMs,
+            },
+            logs,
+            result: run,
+            ...(plan ? { plan } : {}),
+            status: result.status === "failed" ? "error" : result.status,
+            message:
+              result.error ??
+              (dryRun
+                ? "Translation plan created successfully"
+                : result.status === "success"
+                  ? "Translation completed successfully"
+                  : "Translation completed with errors"),
+          },
+          null,
+          2,
+        ),
+      );
+      if (result.status === "failed") {
+        process.exit(1);
+      }
     } catch (error) {
       const errorTime = Date.now();
 
-      const result = {
-        command: "translate",
-        version,
-        timestamp: new Date().toISOString(),
-        input: {
-          path: sourcePath,
-          mode,
-          engine,
-          sourceLocale,
-          format: format || "auto",
-          keepTranslations,
-          keepExtraTranslations,
-        },
-        performance: {
-          startTime,
-          errorTime,
-          totalMs: errorTime - startTime,
-        },
-        logs,
-        status: "error",
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-      };
-
-      // Restore console
-      console.log = originalConsoleLog;
-      console.error = originalConsoleError;
-      console.warn = originalConsoleWarn;
-
-      console.log(JSON.stringify(result, null, 2));
+      console.log(
+        JSON.stringify(
+          {
+            command: dryRun ? "plan" : "translate",
+            version,
+            timestamp: new Date().toISOString(),
+            input,
+            performance: {
+              startTime,
+              errorTime,
+              totalMs: errorTime - startTime,
+            },
+            logs,
+            status: "error",
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+          },
+          null,
+          2,
+        ),
+      );
       process.exit(1);
     }
   } else {
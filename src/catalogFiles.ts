@@ -0,0 +1,123 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  decodeFile,
+  type IFiles,
+  selectTargetLocales,
+  writeTextFile,
+} from "./files.js";
+import {
+  type EnhancedTranslationFile,
+  type IMultiLocaleFormatHandler,
+  isMultiLocaleHandler,
+  type KeyContext,
+} from "./format.interface.js";
+import { FormatDetector } from "./format-detector.js";
+import { FormatHandlerFactory } from "./format-handler-factory.js";
+import { Locales } from "./locale.js";
+import type { TranslationFile } from "./translate.interface.js";
+import { lockFileName } from "./translation-lock.js";
+
+/**
+ * Files of formats keeping every locale in the source file, like Xcode
+ * string catalogs: the target locales are read from and written back to
+ * that same file, whatever the mode.
+ */
+export class CatalogFiles implements IFiles {
+  sourceLocale: string;
+  targetLocales: Array<string>;
+  newLocales: Array<string>;
+  private format: string;
+  private handler: IMultiLocaleFormatHandler;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly formatOverride?: string,
+    targetLocales?: string[],
+  ) {
+    this.format = formatOverride ?? FormatDetector.detectFormat(filePath);
+    const handler = FormatHandlerFactory.getHandler(this.format);
+    if (!isMultiLocaleHandler(handler)) {
+      throw new Error(`${this.format} files do not hold several locales`);
+    }
+    this.handler = handler;
+
+    const content = this.read();
+    this.sourceLocale = handler.getSourceLocale(content);
+    ({ targetLocales: this.targetLocales, newLocales: this.newLocales } =
+      selectTargetLocales(
+        handler
+          .getLocales(content)
+          .filter((locale) => locale !== this.sourceLocale),
+        targetLocales,
+        this.sourceLocale,
+      ));
+  }
+
+  /**
+   * Whether a file holds every locale, for formats that do.
+   */
+  static isCatalog(filePath: string, formatOverride?: string): boolean {
+    return isMultiLocaleHandler(
+      FormatHandlerFactory.getHandler(
+        formatOverride ?? FormatDetector.detectFormat(filePath),
+      ),
+    );
+  }
+
+  getDetectedFormat(): string | undefined {
+    return this.format;
+  }
+
+  getFormatOverride(): string | undefined {
+    return this.formatOverride;
+  }
+
+  getLockFile(): { path: string; key: string } {
+    return {
+      path: path.join(path.dirname(this.filePath), lockFileName),
+      key: path.basename(this.filePath),
+    };
+  }
+
+  async loadJsonFromLocale(locale: string): Promise<TranslationFile> {
+    const { _metadata, ...translations } = this.parseLocale(locale);
+    return translations;
+  }
+
+  getNeedsReview(locale: string): string[] {
+    return this.parseLocale(locale)._metadata?.needsReview ?? [];
+  }
+
+  getKeyContexts(locale: string): Record<string, KeyContext> {
+    return this.parseLocale(locale)._metadata?.keyContexts ?? {};
+  }
+
+  saveJsonToLocale(
+    locale: string,
+    file: TranslationFile,
+    needsReview?: string[],
+  ): void {
+    // read again: the other locales may have been saved in the meantime
+    const data = this.handler.updateLocale(this.read(), locale, file, {
+      locale: Locales.normalize(locale),
+      sourceLocale: Locales.normalize(this.sourceLocale),
+      needsReview,
+    });
+    writeTextFile(this.filePath, data);
+  }
+
+  private parseLocale(locale: string): EnhancedTranslationFile {
+    try {
+      return this.handler.parseLocale(this.read(), locale);
+    } catch (error) {
+      throw new Error(
+        `Failed to load translations for locale ${locale} from ${this.filePath}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  private read(): string {
+    return decodeFile(fs.readFileSync(this.filePath));
+  }
+}
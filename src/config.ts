@@ -1,23 +1,109 @@
 import type { InferenceProviderOrPolicy } from "@huggingface/inference";
+import type { EngineRoutes } from "./engine-routing.js";
+import type { GlossaryData } from "./glossary.js";
+import type { LocaleConfiguration } from "./locale.js";
+import type { PlaceholderConfiguration } from "./placeholders.js";
+import type { TranslationHooks } from "./translation-hooks.js";
 
 export type Configuration = {
-  translationKeyInfo:
-    | GoogleTranslationKey
-    | AwsTranslationKey
-    | AzureTranslationKey
-    | DeepLProTranslationKey
-    | DeepLFreeTranslationKey
-    | OpenAITranslationKey
-    | HuggingFaceTranslationKey
-    | HuggingFaceLocalTranslationKey;
+  translationKeyInfo: EngineKeyInfo;
+  // engines tried in order when the previous one does not support a locale
+  // or fails to translate a string
+  fallbackEngines?: EngineKeyInfo[];
+  // engines per target locale pattern; other locales use translationKeyInfo
+  engineRoutes?: EngineRoutes;
+  // modules registering more engines, package names or paths relative to
+  // the current directory, see TranslateEngineFactory
+  engineModules?: string[];
   startDelimiter: string;
   endDelimiter: string;
   mode: "file" | "folder";
   sourceLocale: string;
-  keepTranslations: "keep" | "retranslate";
+  // only translate these locales; listed locales without a file get one
+  targetLocales?: string[];
+  // locale code aliases, per file name and per engine
+  locales?: LocaleConfiguration;
+  // retranslate-changed keeps existing translations unless their source
+  // value changed since the last run (tracked in an atj.lock file)
+  keepTranslations: "keep" | "retranslate" | "retranslate-changed";
   keepExtraTranslations: "keep" | "remove";
+  // flag machine translations for review: `#, fuzzy` in PO files,
+  // needs-review targets in XLIFF files (default false)
+  markForReview?: boolean;
+  // entries flagged for review count as existing translations ("keep",
+  // the default) or are translated again
+  fuzzyTranslations?: "keep" | "retranslate";
   ignorePrefix: string;
   format?: string;
+  scheduler?: SchedulerConfiguration;
+  translationMemory?: TranslationMemoryConfiguration;
+  // placeholder recognizers, defaults depend on the file format
+  placeholders?: PlaceholderConfiguration;
+  // glossary file (JSON) or its terms
+  glossary?: string | GlossaryData;
+  // plan the run without calling the engine or writing files
+  dryRun?: boolean;
+  // receives progress messages (defaults to the console)
+  logger?: Logger;
+  // callbacks for progress reporting and per-key rewrites
+  hooks?: TranslationHooks;
+};
+
+export type TranslationKeyInfo =
+  | GoogleTranslationKey
+  | AwsTranslationKey
+  | AzureTranslationKey
+  | DeepLProTranslationKey
+  | DeepLFreeTranslationKey
+  | OpenAITranslationKey
+  | HuggingFaceTranslationKey
+  | HuggingFaceLocalTranslationKey
+  | PseudoTranslationKey;
+
+// configuration of a built-in engine, or of one registered by an engine
+// module; the built-in union stays closed so that `kind` narrows it
+export type EngineKeyInfo = TranslationKeyInfo | ExternalTranslationKey;
+
+// offline pseudo-localization, see PseudoOptions
+type PseudoTranslationKey = {
+  kind: "pseudo";
+  mode?: "accents" | "rtl" | "german";
+  expansion?: number;
+  brackets?: boolean;
+};
+
+// engine registered by an engine module, with the options of its schema
+export type ExternalTranslationKey = {
+  kind: string;
+  [option: string]: unknown;
+};
+
+export type Logger = Pick<Console, "log" | "warn" | "error">;
+
+export type TranslationMemoryConfiguration = {
+  enabled: boolean;
+  // defaults to .atj/tm in the current working directory
+  directory?: string;
+  // reuse translations produced by other engines (default false)
+  anyEngine?: boolean;
+};
+
+export type RateLimits = {
+  requestsPerSecond?: number;
+  charactersPerMinute?: number;
+};
+
+export type SchedulerConfiguration = RateLimits & {
+  // maximum number of provider requests in flight (default 1)
+  maxConcurrency?: number;
+  // number of target locales processed in parallel (default 1)
+  localeConcurrency?: number;
+  // retries for rate limited (HTTP 429) requests (default 5)
+  maxRetries?: number;
+  // initial backoff delay, doubled on every retry (default 1000)
+  retryDelayMs?: number;
+  // rate limits per engine kind, overriding the global ones
+  providers?: Record<string, RateLimits>;
 };
 
 type GoogleTranslationKey = { kind: "google"; apiKey: string };
@@ -53,6 +139,12 @@ type OpenAITranslationKey = {
   n: number;
   frequencyPenalty: number;
   presencePenalty: number;
+  // prompt templates, see OpenAIPrompts
+  systemPrompt?: string;
+  userPrompt?: string;
+  // send whole chunks as JSON objects, see OpenAIStructuredMode
+  structured?: boolean;
+  tokenBudget?: number;
 };
 
 type HuggingFaceTranslationKey = {
@@ -1,7 +1,8 @@
+import { createHash } from "node:crypto";
 import * as deepl from "deepl-node";
-import type { ITranslate } from "./translate.interface.js";
-
-import { Util } from "./util.js";
+import { LocaleMapper, Locales } from "./locale.js";
+import { Placeholders } from "./placeholders.js";
+import type { GlossaryEntries, ITranslate } from "./translate.interface.js";
 
 const supportedLanguages = [
   "AR",
@@ -43,6 +44,11 @@ const supportedLanguages = [
 
 export class DeepLTranslate implements ITranslate {
   private endpoint = "https://api.deepl.com";
+  // https://developers.deepl.com/docs/api-reference/translate
+  readonly batchLimits = { maxItems: 50, maxCharacters: 100000 };
+  // native glossaries by language pair
+  private glossaries = new Map<string, deepl.GlossaryInfo>();
+  private readonly locales: LocaleMapper;
   constructor(
     private subscriptionKey: string,
     private type: "free" | "pro",
@@ -50,36 +56,117 @@ export class DeepLTranslate implements ITranslate {
     if (this.type === "free") {
       this.endpoint = "https://api-free.deepl.com";
     }
+    this.locales = new LocaleMapper(
+      this.type === "free" ? "deepLFree" : "deepLPro",
+      supportedLanguages,
+    );
   }
   isValidLocale(targetLocale: string): boolean {
-    return supportedLanguages.includes(targetLocale.toUpperCase());
+    return this.locales.toEngine(targetLocale) !== undefined;
   }
   async translateText(
     text: string,
     sourceLocale: string,
     targetLocale: string,
+    context?: string,
   ): Promise<string> {
-    let args: RegExpMatchArray | null;
-    ({ args, text } = Util.replaceContextVariables(text));
+    const [result] = await this.translateBatch(
+      [text],
+      sourceLocale,
+      targetLocale,
+      [context],
+    );
+    return result;
+  }
 
-    let result = "";
+  async translateBatch(
+    texts: string[],
+    sourceLocale: string,
+    targetLocale: string,
+    contexts?: Array<string | undefined>,
+  ): Promise<string[]> {
+    const replaced = texts.map((text) => Placeholders.protect(text));
+    const results: string[] = new Array(texts.length);
 
-    const translator = new deepl.Translator(this.subscriptionKey, {
-      serverUrl: this.endpoint,
-      minTimeout: 10000,
-      maxRetries: 5,
+    // the context applies to a whole request: one request per context
+    const groups = new Map<string | undefined, number[]>();
+    texts.forEach((_text, index) => {
+      const context = contexts?.[index] || undefined;
+      groups.set(context, [...(groups.get(context) ?? []), index]);
     });
-    const translation = await translator.translateText(
-      text,
-      sourceLocale as deepl.SourceLanguageCode,
-      targetLocale as deepl.TargetLanguageCode,
-    );
 
-    result = translation.text;
+    const glossary = this.glossaries.get(`${sourceLocale}:${targetLocale}`);
+    const translator = this.createTranslator();
+    for (const [context, indexes] of groups) {
+      const options: deepl.TranslateTextOptions = {};
+      if (glossary) {
+        options.glossary = glossary;
+      }
+      if (context) {
+        options.context = context;
+      }
+      const translations = await translator.translateText(
+        indexes.map((index) => replaced[index].text),
+        // source languages are never regional
+        (Locales.parse(sourceLocale)?.language ??
+          sourceLocale) as deepl.SourceLanguageCode,
+        (this.locales.toEngine(targetLocale) ??
+          targetLocale) as deepl.TargetLanguageCode,
+        Object.keys(options).length > 0 ? options : undefined,
+      );
+      translations.forEach((translation, position) => {
+        const index = indexes[position];
+        results[index] = Placeholders.restore(
+          translation.text,
+          replaced[index].tokens,
+        );
+      });
+    }
+    return results;
+  }
 
-    result = Util.replaceArgumentsWithNumbers(args, result);
+  /**
+   * Create (or reuse) a DeepL glossary holding the entries. Glossaries are
+   * named after their content, so unchanged entries never create a second
+   * glossary on the account.
+   */
+  async useGlossary(
+    entries: GlossaryEntries,
+    sourceLocale: string,
+    targetLocale: string,
+  ): Promise<boolean> {
+    // glossaries are defined between languages, not regional variants
+    const sourceLang = sourceLocale.split(/[-_]/)[0].toLowerCase();
+    const targetLang = targetLocale.split(/[-_]/)[0].toLowerCase();
+    const hash = createHash("sha256")
+      .update(JSON.stringify(entries))
+      .digest("hex")
+      .substring(0, 12);
+    const name = `atj-${sourceLang}-${targetLang}-${hash}`;
 
-    return result;
+    const translator = this.createTranslator();
+    const existing = (await translator.listGlossaries()).find(
+      (glossary) => glossary.name === name,
+    );
+    const glossary =
+      existing ??
+      (await translator.createGlossary(
+        name,
+        sourceLang as deepl.LanguageCode,
+        targetLang as deepl.LanguageCode,
+        new deepl.GlossaryEntries({ entries }),
+      ));
+    this.glossaries.set(`${sourceLocale}:${targetLocale}`, glossary);
+    return true;
+  }
+
+  private createTranslator(): deepl.Translator {
+    return new deepl.Translator(this.subscriptionKey, {
+      serverUrl: this.endpoint,
+      minTimeout: 10000,
+      // rate limited requests are retried by the scheduler
+      maxRetries: 0,
+    });
   }
 }
 
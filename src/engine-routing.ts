@@ -0,0 +1,62 @@
+import type { EngineKeyInfo } from "./config.js";
+
+/**
+ * Target locale pattern -> engine, or engine followed by its fallback
+ * engines. Patterns are exact codes ("pt-BR"), languages ("pt", which
+ * matches "pt-BR" too) or wildcards ("x-*", "*-IN", "*").
+ */
+export type EngineRoutes = Record<string, EngineKeyInfo | EngineKeyInfo[]>;
+
+export interface EngineRoute {
+  pattern: string;
+  engines: EngineKeyInfo[];
+}
+
+const normalizeLocale = (locale: string) =>
+  locale.toLowerCase().replace(/_/g, "-");
+
+/**
+ * How well a pattern matches a locale: 0 when it does not, higher for more
+ * specific patterns. Exact codes win over languages, which win over
+ * wildcards; among wildcards the one with more literal characters wins.
+ */
+function matchPattern(pattern: string, locale: string): number {
+  const normalized = normalizeLocale(pattern);
+  if (!normalized.includes("*")) {
+    if (normalized === locale) {
+      return 3000;
+    }
+    return locale.startsWith(`${normalized}-`) ? 2000 + normalized.length : 0;
+  }
+  const expression = new RegExp(
+    `^${normalized
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+  );
+  return expression.test(locale) ? 1 + normalized.replace(/\*/g, "").length : 0;
+}
+
+/**
+ * Find the most specific route for a target locale.
+ */
+export function resolveEngineRoute(
+  routes: EngineRoutes | undefined,
+  locale: string,
+): EngineRoute | undefined {
+  const target = normalizeLocale(locale);
+  let best: { route: EngineRoute; score: number } | undefined;
+  for (const [pattern, engines] of Object.entries(routes ?? {})) {
+    const score = matchPattern(pattern, target);
+    if (score > 0 && (!best || score > best.score)) {
+      best = {
+        route: {
+          pattern,
+          engines: Array.isArray(engines) ? engines : [engines],
+        },
+        score,
+      };
+    }
+  }
+  return best?.route;
+}
@@ -0,0 +1,144 @@
+import { type TranslationErrorHandler, translateInBatches } from "./batch.js";
+import type { Logger } from "./config.js";
+import type { BatchLimits, ITranslate } from "./translate.interface.js";
+
+export interface ChainedEngine {
+  // engine id recorded in the run result, see getEngineId
+  id: string;
+  engine: ITranslate;
+}
+
+export interface EngineTranslation {
+  translation: string;
+  // id of the engine that produced the translation
+  engine: string;
+}
+
+/**
+ * Tries a list of engines in order. A locale an engine does not support,
+ * or a string it fails to translate, falls through to the next engine.
+ */
+export class FallbackTranslate implements ITranslate {
+  // every engine of the chain splits the texts with its own limits
+  readonly batchLimits: BatchLimits = { maxItems: Number.POSITIVE_INFINITY };
+
+  constructor(
+    readonly engines: ChainedEngine[],
+    private readonly logger: Logger = console,
+  ) {}
+
+  isValidLocale(targetLocale: string): boolean {
+    return this.engines.some(({ engine }) =>
+      engine.isValidLocale(targetLocale),
+    );
+  }
+
+  async translateText(
+    text: string,
+    sourceLocale: string,
+    targetLocale: string,
+    context?: string,
+    key?: string,
+  ): Promise<string> {
+    let lastError: unknown = this.unsupported(targetLocale);
+    for (const { engine } of this.supporting(targetLocale)) {
+      try {
+        return await engine.translateText(
+          text,
+          sourceLocale,
+          targetLocale,
+          context,
+          key,
+        );
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  async translateBatch(
+    texts: string[],
+    sourceLocale: string,
+    targetLocale: string,
+    contexts?: Array<string | undefined>,
+    keys?: string[],
+  ): Promise<string[]> {
+    let lastError: unknown;
+    const results = await this.translateWithEngines(
+      texts,
+      sourceLocale,
+      targetLocale,
+      contexts,
+      (_index, error) => {
+        lastError = error;
+      },
+      keys,
+    );
+    if (lastError !== undefined) {
+      throw lastError;
+    }
+    return results.map((result) => result?.translation ?? "");
+  }
+
+  /**
+   * Translate texts with the first engine that supports the target locale,
+   * then send the texts it failed on to the next one, and so on. Texts no
+   * engine could translate are reported to `onError` with the last error
+   * and returned as `undefined`.
+   */
+  async translateWithEngines(
+    texts: string[],
+    sourceLocale: string,
+    targetLocale: string,
+    contexts?: Array<string | undefined>,
+    onError?: TranslationErrorHandler,
+    keys?: string[],
+  ): Promise<Array<EngineTranslation | undefined>> {
+    const results: Array<EngineTranslation | undefined> = texts.map(
+      () => undefined,
+    );
+    const errors = new Map<number, unknown>();
+    let remaining = texts.map((_text, index) => index);
+
+    for (const { id, engine } of this.supporting(targetLocale)) {
+      if (remaining.length === 0) {
+        break;
+      }
+      const indexes = remaining;
+      const translations = await translateInBatches(
+        engine,
+        indexes.map((index) => texts[index]),
+        sourceLocale,
+        targetLocale,
+        contexts && indexes.map((index) => contexts[index]),
+        (position, error) => errors.set(indexes[position], error),
+        keys && indexes.map((index) => keys[index]),
+        this.logger,
+      );
+      remaining = indexes.filter((index, position) => {
+        const translation = translations[position];
+        if (translation === undefined) {
+          return true;
+        }
+        results[index] = { translation, engine: id };
+        return false;
+      });
+    }
+
+    for (const index of remaining) {
+      onError?.(index, errors.get(index) ?? this.unsupported(targetLocale));
+    }
+    return results;
+  }
+
+  private supporting(targetLocale: string): ChainedEngine[] {
+    return this.engines.filter(({ engine }) =>
+      engine.isValidLocale(targetLocale),
+    );
+  }
+
+  private unsupported(targetLocale: string): Error {
+    return new Error(`No engine supports the locale '${targetLocale}'`);
+  }
+}
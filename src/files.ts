@@ -1,10 +1,16 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { XMLBuilder, XMLParser } from "fast-xml-parser";
-import type { EnhancedTranslationFile } from "./format.interface.js";
+import type {
+  EnhancedTranslationFile,
+  FormatOptions,
+  KeyContext,
+} from "./format.interface.js";
 import { FormatDetector } from "./format-detector.js";
 import { FormatHandlerFactory } from "./format-handler-factory.js";
+import { Locales } from "./locale.js";
 import type { TranslationFile } from "./translate.interface.js";
+import { lockFileName } from "./translation-lock.js";
 // Import format handlers to ensure they are registered
 import "./format/index.js";
 
@@ -103,11 +109,141 @@ export interface IFiles {
   sourceLocale: string;
   targetLocales: Array<string>;
   loadJsonFromLocale(locale: string): Promise<TranslationFile>;
-  saveJsonToLocale(locale: string, file: TranslationFile): void;
+  /**
+   * `needsReview` lists the keys to flag for review, in formats that
+   * support it; without it, the file is written as before.
+   */
+  saveJsonToLocale(
+    locale: string,
+    file: TranslationFile,
+    needsReview?: string[],
+  ): void;
+  /**
+   * Keys flagged for review in the file of a locale.
+   */
+  getNeedsReview?(locale: string): string[];
+  /**
+   * Translation hints by key found in the file of a locale.
+   */
+  getKeyContexts?(locale: string): Record<string, KeyContext>;
   getDetectedFormat?(): string | undefined;
   getFormatOverride?(): string | undefined;
+  /**
+   * Lock file used to track source hashes, and the key of this file set
+   * inside it.
+   */
+  getLockFile?(): { path: string; key: string };
+  /**
+   * Target locales listed in the configuration that have no file yet.
+   */
+  newLocales?: string[];
+  /**
+   * Create the file of a new target locale, holding only the headers of
+   * its format (language, plural forms).
+   */
+  createLocale?(locale: string): void;
 }
 
+/**
+ * Keep the discovered target locales that are listed, and add the listed
+ * locales that have no file yet, spelled like the existing ones.
+ */
+export function selectTargetLocales(
+  discovered: string[],
+  listed: string[] | undefined,
+  sourceLocale: string,
+): { targetLocales: string[]; newLocales: string[] } {
+  if (!listed) {
+    return { targetLocales: discovered, newLocales: [] };
+  }
+  const codes = new Map(
+    discovered.map((locale) => [Locales.normalize(locale), locale]),
+  );
+  const example = discovered[0] ?? sourceLocale;
+  const targetLocales: string[] = [];
+  const newLocales: string[] = [];
+  for (const locale of listed) {
+    const code = Locales.normalize(locale);
+    if (code === Locales.normalize(sourceLocale)) {
+      continue;
+    }
+    const existing = codes.get(code);
+    const target = existing ?? Locales.toFileLocale(code, example);
+    if (!targetLocales.includes(target)) {
+      targetLocales.push(target);
+      if (!existing) {
+        newLocales.push(target);
+      }
+    }
+  }
+  return { targetLocales, newLocales };
+}
+
+// UTF-16 encoding of a file, from its byte order mark
+const readUtf16Encoding = (
+  filename: string,
+): "utf16le" | "utf16be" | undefined => {
+  if (!fs.existsSync(filename)) {
+    return undefined;
+  }
+  const mark = Buffer.alloc(2);
+  const fd = fs.openSync(filename, "r");
+  try {
+    fs.readSync(fd, mark, 0, 2, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (mark[0] === 0xff && mark[1] === 0xfe) {
+    return "utf16le";
+  }
+  return mark[0] === 0xfe && mark[1] === 0xff ? "utf16be" : undefined;
+};
+
+/**
+ * Text of a file: UTF-8, or UTF-16 with a byte order mark, which Xcode
+ * writes for `.strings` files.
+ */
+export const decodeFile = (data: Buffer): string => {
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return data.toString("utf16le", 2);
+  }
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return Buffer.from(data.subarray(2)).swap16().toString("utf16le");
+  }
+  return data.toString();
+};
+
+const readTextFile = (filename: string): string =>
+  decodeFile(fs.readFileSync(filename));
+
+/**
+ * Write a file in the encoding of the file it replaces, or of `example`
+ * when it is new or empty: UTF-16 for UTF-16 files, UTF-8 otherwise.
+ */
+export const writeTextFile = (
+  filename: string,
+  data: string,
+  example?: string,
+) => {
+  const existing =
+    fs.existsSync(filename) && fs.statSync(filename).size > 0
+      ? filename
+      : example;
+  const encoding = existing && readUtf16Encoding(existing);
+  if (!encoding) {
+    fs.writeFileSync(filename, data, "utf8");
+    return;
+  }
+  const encoded = Buffer.from(
+    `\uFEFF${data.replace(/^\uFEFF/, "")}`,
+    "utf16le",
+  );
+  fs.writeFileSync(
+    filename,
+    encoding === "utf16be" ? encoded.swap16() : encoded,
+  );
+};
+
 export const readFileAsync: (filename: string) => Promise<string> = (
   filename: string,
 ) =>
@@ -115,7 +251,7 @@ export const readFileAsync: (filename: string) => Promise<string> = (
     const exist = fs.existsSync(filename);
     if (!exist) fs.writeFileSync(filename, "");
     fs.readFile(filename, (error, data) => {
-      error ? reject(error) : resolve(data.toString());
+      error ? reject(error) : resolve(decodeFile(data));
     });
   });
 
@@ -227,7 +363,82 @@ export const loadJsonFromLocale: (
   }
 };
 
-export const saveJsonToLocale = (filename: string, file: TranslationFile) => {
+// metadata of a file, which loading strips for most formats
+const readMetadata = (
+  filename: string,
+  formatOverride?: string,
+): EnhancedTranslationFile["_metadata"] => {
+  if (!fs.existsSync(filename)) {
+    return undefined;
+  }
+  const data = readTextFile(filename);
+  if (!data) {
+    return undefined;
+  }
+  const format = formatOverride || FormatDetector.detectFormat(filename, data);
+  const handler = FormatHandlerFactory.getHandler(format);
+  const parsed = handler?.parse(data) as EnhancedTranslationFile | undefined;
+  return parsed?._metadata;
+};
+
+// formats written onto the structure of the existing file, which holds
+// what the translations do not: other resources, comments and order
+const inPlaceFormats = ["resx", "resw", "strings"];
+
+/**
+ * `file` with the metadata of the existing `filename`, which loading
+ * stripped, for formats written onto their own structure.
+ */
+const withFileMetadata = (
+  filename: string,
+  format: string,
+  file: TranslationFile,
+): EnhancedTranslationFile => {
+  if (!inPlaceFormats.includes(format) || file._metadata) {
+    return file as EnhancedTranslationFile;
+  }
+  const _metadata = readMetadata(filename, format);
+  return _metadata ? { ...file, _metadata } : file;
+};
+
+// formats whose target entries take more than the translation from the
+// source file, see FormatOptions.sourceMetadata
+const sourceStructureFormats = ["po"];
+
+const readSourceMetadata = (
+  sourceFile: string | undefined,
+  format: string,
+): EnhancedTranslationFile["_metadata"] =>
+  sourceFile && sourceStructureFormats.includes(format)
+    ? readMetadata(sourceFile, format)
+    : undefined;
+
+/**
+ * Keys flagged for review in a file, for formats that record it.
+ */
+export const readNeedsReview = (
+  filename: string,
+  formatOverride?: string,
+): string[] => readMetadata(filename, formatOverride)?.needsReview ?? [];
+
+/**
+ * Translation hints by key in a file, for formats that record them.
+ */
+export const readKeyContexts = (
+  filename: string,
+  formatOverride?: string,
+): Record<string, KeyContext> =>
+  readMetadata(filename, formatOverride)?.keyContexts ?? {};
+
+/**
+ * @param sourceFile file whose encoding a new file takes
+ */
+export const saveJsonToLocale = (
+  filename: string,
+  file: TranslationFile,
+  options: FormatOptions = {},
+  sourceFile?: string,
+) => {
   try {
     // Try to use new format system first
     const format = FormatDetector.detectFormat(filename);
@@ -256,12 +467,17 @@ export const saveJsonToLocale = (filename: string, file: TranslationFile) => {
           );
         }
 
-        const data = handler.serialize(file as EnhancedTranslationFile, {
-          preserveFormatting: true,
-          indentation: 2,
-          xmlDeclaration: true,
-        });
-        fs.writeFileSync(filename, data, "utf8");
+        const data = handler.serialize(
+          withFileMetadata(filename, format, file),
+          {
+            preserveFormatting: true,
+            indentation: 2,
+            xmlDeclaration: true,
+            sourceMetadata: readSourceMetadata(sourceFile, format),
+            ...options,
+          },
+        );
+        writeTextFile(filename, data, sourceFile);
         return;
       } catch (error) {
         if (
@@ -317,28 +533,89 @@ export const saveJsonToLocale = (filename: string, file: TranslationFile) => {
   }
 };
 
+// formats whose files are named Name.<locale>.ext, next to the neutral
+// resources in Name.ext (.NET)
+const suffixedFormats = ["resx", "resw"];
+
 export class Files implements IFiles {
   folderPath: string;
   sourceLocale: string;
   targetLocales: Array<string>;
+  newLocales: Array<string>;
   private fileExt: string;
   private formatOverride?: string;
   private detectedFormat?: string;
-
-  constructor(filePath: string, formatOverride?: string) {
+  // Name.<locale>.ext naming: the name shared by the files, and the locale
+  // of the neutral file when it is the source
+  private baseName?: string;
+  private neutralLocale?: string;
+
+  /**
+   * @param neutralLocale locale of a source file without a locale in its
+   * name, like `Strings.resx`
+   */
+  constructor(
+    filePath: string,
+    formatOverride?: string,
+    targetLocales?: string[],
+    neutralLocale?: string,
+  ) {
     this.folderPath = path.dirname(filePath);
     const fileName = path.basename(filePath);
     this.fileExt = path.extname(fileName);
     this.formatOverride = formatOverride;
-    this.sourceLocale = this.getLocaleFromFilename(fileName);
-    this.targetLocales = this.getTargetLocales();
 
     // Detect format for the source file
     this.detectedFormat = this.detectFileFormat(filePath);
+    if (suffixedFormats.includes(this.detectedFormat)) {
+      const name = path.parse(fileName).name;
+      const locale = this.getLocaleSuffix(name);
+      this.baseName = locale ? name.slice(0, -locale.length - 1) : name;
+      this.neutralLocale = locale ? undefined : neutralLocale;
+    }
+
+    this.sourceLocale = this.getLocaleFromFilename(fileName);
+    ({ targetLocales: this.targetLocales, newLocales: this.newLocales } =
+      selectTargetLocales(
+        this.getTargetLocales(),
+        targetLocales,
+        this.sourceLocale,
+      ));
   }
 
   private getLocaleFromFilename(fileName: string): string {
-    return path.parse(fileName).name;
+    const name = path.parse(fileName).name;
+    if (this.baseName === undefined) {
+      return name;
+    }
+    return name === this.baseName
+      ? (this.neutralLocale ?? name)
+      : name.slice(this.baseName.length + 1);
+  }
+
+  // locale ending a name like Strings.fr or Strings.zh-Hans
+  private getLocaleSuffix(name: string): string | undefined {
+    const suffix = path.extname(name).slice(1);
+    const parsed = Locales.parse(suffix);
+    return parsed && parsed.language.length <= 3 ? suffix : undefined;
+  }
+
+  private isLocaleFile(fileName: string): boolean {
+    const name = path.parse(fileName).name;
+    return (
+      name.startsWith(`${this.baseName}.`) &&
+      this.getLocaleSuffix(name) === name.slice(`${this.baseName}.`.length)
+    );
+  }
+
+  private getFilePath(locale: string): string {
+    const name =
+      this.baseName === undefined
+        ? locale
+        : locale === this.neutralLocale
+          ? this.baseName
+          : `${this.baseName}.${locale}`;
+    return `${this.folderPath}/${name}${this.fileExt}`;
   }
 
   private detectFileFormat(filePath: string): string {
@@ -349,7 +626,7 @@ export class Files implements IFiles {
     // Try to read a small portion of the file for content-based detection
     try {
       if (fs.existsSync(filePath)) {
-        const content = fs.readFileSync(filePath, "utf8").substring(0, 1000); // Read first 1KB
+        const content = readTextFile(filePath).substring(0, 1000); // Read first 1KB
         return FormatDetector.detectFormat(filePath, content);
       }
     } catch (error) {
@@ -367,6 +644,8 @@ export class Files implements IFiles {
 
     for (const file of files) {
       if (path.extname(file) !== this.fileExt) continue; // only same extension
+      // only Name.<locale>.ext, not the neutral file nor other resources
+      if (this.baseName !== undefined && !this.isLocaleFile(file)) continue;
       const locale = this.getLocaleFromFilename(file);
       if (locale !== this.sourceLocale) {
         locales.push(locale);
@@ -384,8 +663,22 @@ export class Files implements IFiles {
     return this.formatOverride;
   }
 
+  getLockFile(): { path: string; key: string } {
+    return {
+      path: path.join(this.folderPath, lockFileName),
+      key:
+        this.baseName === undefined
+          ? `*${this.fileExt}`
+          : `${this.baseName}.*${this.fileExt}`,
+    };
+  }
+
+  createLocale(locale: string): void {
+    this.saveJsonToLocale(locale, {});
+  }
+
   async loadJsonFromLocale(locale: string): Promise<TranslationFile> {
-    const filename = `${this.folderPath}/${locale}${this.fileExt}`;
+    const filename = this.getFilePath(locale);
 
     try {
       let data = await readFileAsync(filename);
@@ -438,8 +731,20 @@ export class Files implements IFiles {
     }
   }
 
-  saveJsonToLocale(locale: string, file: TranslationFile): void {
-    const filename = `${this.folderPath}/${locale}${this.fileExt}`;
+  getNeedsReview(locale: string): string[] {
+    return readNeedsReview(this.getFilePath(locale), this.formatOverride);
+  }
+
+  getKeyContexts(locale: string): Record<string, KeyContext> {
+    return readKeyContexts(this.getFilePath(locale), this.formatOverride);
+  }
+
+  saveJsonToLocale(
+    locale: string,
+    file: TranslationFile,
+    needsReview?: string[],
+  ): void {
+    const filename = this.getFilePath(locale);
 
     try {
       // Use format detection for this specific file
@@ -449,12 +754,22 @@ export class Files implements IFiles {
 
       if (handler) {
         try {
-          const data = handler.serialize(file as EnhancedTranslationFile, {
-            preserveFormatting: true,
-            indentation: 2,
-            xmlDeclaration: true,
-          });
-          fs.writeFileSync(filename, data, "utf8");
+          const data = handler.serialize(
+            withFileMetadata(filename, format, file),
+            {
+              preserveFormatting: true,
+              indentation: 2,
+              xmlDeclaration: true,
+              locale: Locales.normalize(locale),
+              sourceLocale: Locales.normalize(this.sourceLocale),
+              needsReview,
+              sourceMetadata: readSourceMetadata(
+                this.getFilePath(this.sourceLocale),
+                format,
+              ),
+            },
+          );
+          writeTextFile(filename, data, this.getFilePath(this.sourceLocale));
           return;
         } catch (error) {
           throw new Error(
@@ -1,30 +1,44 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { type IFiles, loadJsonFromLocale, saveJsonToLocale } from "./files.js";
+import {
+  decodeFile,
+  type IFiles,
+  loadJsonFromLocale,
+  readKeyContexts,
+  readNeedsReview,
+  saveJsonToLocale,
+  selectTargetLocales,
+} from "./files.js";
+import type { KeyContext } from "./format.interface.js";
 import { FormatDetector } from "./format-detector.js";
+import { Locales } from "./locale.js";
 import type { TranslationFile } from "./translate.interface.js";
+import { lockFileName } from "./translation-lock.js";
 
 export class FolderFiles implements IFiles {
   folderPath: string;
   sourceLocale: string;
   targetLocales: Array<string>;
+  newLocales: Array<string>;
   fileName: string;
   private formatOverride?: string;
 
-  constructor(filePath: string, formatOverride?: string) {
+  constructor(
+    filePath: string,
+    formatOverride?: string,
+    targetLocales?: string[],
+  ) {
     const localeDir = path.dirname(filePath);
     this.folderPath = path.dirname(localeDir);
     this.fileName = path.basename(filePath);
     this.sourceLocale = path.basename(localeDir);
     this.formatOverride = formatOverride;
-    this.targetLocales = this.getTargetLocales();
-
-    console.log(
-      this.folderPath,
-      this.fileName,
-      this.sourceLocale,
-      this.targetLocales,
-    );
+    ({ targetLocales: this.targetLocales, newLocales: this.newLocales } =
+      selectTargetLocales(
+        this.getTargetLocales(),
+        targetLocales,
+        this.sourceLocale,
+      ));
   }
 
   getDetectedFormat(): string | undefined {
@@ -32,9 +46,10 @@ export class FolderFiles implements IFiles {
     const sourceFilePath = this.createFileName(this.sourceLocale);
     try {
       if (fs.existsSync(sourceFilePath)) {
-        const content = fs
-          .readFileSync(sourceFilePath, "utf8")
-          .substring(0, 1000);
+        const content = decodeFile(fs.readFileSync(sourceFilePath)).substring(
+          0,
+          1000,
+        );
         return FormatDetector.detectFormat(sourceFilePath, content);
       }
     } catch (error) {
@@ -47,10 +62,25 @@ export class FolderFiles implements IFiles {
     return this.formatOverride;
   }
 
+  getLockFile(): { path: string; key: string } {
+    return {
+      path: path.join(this.folderPath, lockFileName),
+      key: this.fileName,
+    };
+  }
+
   private getTargetLocales(): string[] {
+    // Apple bundles: en.lproj, de.lproj, next to Base.lproj and others
+    const lproj = /\.lproj$/i.test(this.sourceLocale);
     const files = fs
-      .readdirSync(this.folderPath)
-      .map((folder, _index, _array) => path.basename(folder))
+      .readdirSync(this.folderPath, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory()) // locales are folders
+      .filter(
+        (entry) =>
+          !lproj ||
+          (/\.lproj$/i.test(entry.name) && !/^base\.lproj$/i.test(entry.name)),
+      )
+      .map((folder, _index, _array) => folder.name)
       .map((locale, _index, _array) =>
         locale !== this.sourceLocale ? locale : "",
       )
@@ -67,7 +97,33 @@ export class FolderFiles implements IFiles {
     return loadJsonFromLocale(this.createFileName(locale));
   }
 
-  saveJsonToLocale(locale: string, file: TranslationFile) {
-    saveJsonToLocale(this.createFileName(locale), file);
+  getNeedsReview(locale: string): string[] {
+    return readNeedsReview(this.createFileName(locale), this.formatOverride);
+  }
+
+  getKeyContexts(locale: string): Record<string, KeyContext> {
+    return readKeyContexts(this.createFileName(locale), this.formatOverride);
+  }
+
+  saveJsonToLocale(
+    locale: string,
+    file: TranslationFile,
+    needsReview?: string[],
+  ) {
+    saveJsonToLocale(
+      this.createFileName(locale),
+      file,
+      {
+        locale: Locales.normalize(locale),
+        sourceLocale: Locales.normalize(this.sourceLocale),
+        needsReview,
+      },
+      this.createFileName(this.sourceLocale),
+    );
+  }
+
+  createLocale(locale: string): void {
+    fs.mkdirSync(path.join(this.folderPath, locale), { recursive: true });
+    this.saveJsonToLocale(locale, {});
   }
 }
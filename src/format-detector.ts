@@ -17,12 +17,28 @@ export class FormatDetector {
     [".arb", "arb"],
     [".xmb", "xmb"],
     [".xtb", "xtb"],
+    [".strings", "strings"],
+    [".stringsdict", "stringsdict"],
+    [".xcstrings", "xcstrings"],
+    [".resx", "resx"],
+    [".resw", "resw"],
+  ]);
+
+  // formats whose content could pass for another format's
+  private static extensionFirst: Set<string> = new Set([
+    "yaml",
+    "strings",
+    "stringsdict",
+    "xcstrings",
+    "resx",
+    "resw",
   ]);
 
   private static contentSignatures: Map<RegExp, string> = new Map([
-    [/^\s*<\?xml[\s\S]*<resources>/, "android-xml"],
+    [/^\s*<\?xml[\s\S]*<resources[\s>/]/, "android-xml"],
     [/^\s*<\?xml[\s\S]*<plist/, "ios-xml"],
-    [/^\s*<\?xml[\s\S]*<xliff/, "xliff"],
+    // the root element, not the xliff:g tags of Android strings
+    [/^\s*<\?xml[^>]*>\s*(?:<!--[\s\S]*?-->\s*)*<xliff[\s>]/, "xliff"],
     [/^\s*<\?xml[\s\S]*<messagebundle/, "xmb"],
     [/^\s*<\?xml[\s\S]*<translationbundle/, "xtb"],
     [/^\s*{[\s\S]*"@@locale"/, "arb"],
@@ -37,8 +53,9 @@ export class FormatDetector {
     // First try extension-based detection
     const formatFromExtension = this.extensionMap.get(extension);
 
-    // For YAML files, prioritize extension-based detection to avoid confusion with properties
-    if (formatFromExtension === "yaml") {
+    // Prioritize extension-based detection for YAML files, to avoid confusion with properties,
+    // and for the formats whose content looks like properties, iOS XML or JSON
+    if (formatFromExtension && this.extensionFirst.has(formatFromExtension)) {
       return formatFromExtension;
     }
 
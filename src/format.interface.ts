@@ -6,6 +6,16 @@ export interface FormatOptions {
   indentation?: string | number;
   xmlDeclaration?: boolean;
   namespace?: string;
+  // BCP-47 codes of the file, for formats that record its languages
+  locale?: string;
+  sourceLocale?: string;
+  // keys of machine translations, flagged for review by formats that
+  // support it (PO, XLIFF, string catalogs); other entries keep their
+  // review state
+  needsReview?: string[];
+  // metadata of the source file, for formats whose target entries take
+  // more than the translation from it (PO plural ids and comments)
+  sourceMetadata?: EnhancedTranslationFile["_metadata"];
   customSettings?: Record<string, any>;
 }
 
@@ -47,6 +57,45 @@ export interface IFormatHandler {
   ): ValidationResult;
 }
 
+/**
+ * Formats keeping every locale in a single file, like Xcode string
+ * catalogs. `parse` reads the source language; the other locales are read
+ * and replaced one at a time inside the content of the file.
+ */
+export interface IMultiLocaleFormatHandler extends IFormatHandler {
+  getSourceLocale(content: string): string;
+  // locales with translations in the file, the source locale included
+  getLocales(content: string): string[];
+  parseLocale(content: string, locale: string): EnhancedTranslationFile;
+  updateLocale(
+    content: string,
+    locale: string,
+    data: TranslationFile,
+    options?: FormatOptions,
+  ): string;
+}
+
+export const isMultiLocaleHandler = (
+  handler: IFormatHandler | undefined,
+): handler is IMultiLocaleFormatHandler =>
+  typeof (handler as IMultiLocaleFormatHandler | undefined)?.updateLocale ===
+  "function";
+
+/**
+ * What a format tells about a key, for engines that translate with context.
+ */
+export interface KeyContext {
+  // what the text is and where it appears: ARB descriptions, PO extracted
+  // comments, XLIFF notes
+  description?: string;
+  // disambiguation between identical texts (PO msgctxt, ARB context)
+  context?: string;
+  // source code locations using the text (PO references)
+  references?: string[];
+  // longest translation that fits, in characters
+  maxLength?: number;
+}
+
 export interface EnhancedTranslationFile extends TranslationFile {
   _metadata?: {
     format: string;
@@ -64,6 +113,11 @@ export interface EnhancedTranslationFile extends TranslationFile {
     // XLIFF-specific metadata
     xliffVersion?: string;
     xliffMetadata?: any;
+    // keys flagged for review in the file (fuzzy PO entries, XLIFF
+    // targets that need review)
+    needsReview?: string[];
+    // translation hints by key, for any format that has them
+    keyContexts?: Record<string, KeyContext>;
     // Additional format-specific metadata can be added here
     [key: string]: any;
   };
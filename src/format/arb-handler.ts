@@ -3,6 +3,7 @@ import type {
   EnhancedTranslationFile,
   FormatOptions,
   IFormatHandler,
+  KeyContext,
   ValidationResult,
 } from "../format.interface.js";
 import type { TranslationFile } from "../translate.interface.js";
@@ -85,6 +86,7 @@ export class ArbHandler implements IFormatHandler {
           arbMetadata: metadata,
           resourceMetadata: resourceMetadata,
           icuAnalysis: icuAnalysis,
+          keyContexts: this.getKeyContexts(resourceMetadata),
         },
       };
 
@@ -123,6 +125,9 @@ export class ArbHandler implements IFormatHandler {
         if (options?.customSettings?.updateTimestamp !== false) {
           result["@@last_modified"] = new Date().toISOString();
         }
+      } else if (options?.locale) {
+        // Flutter spells locales pt_BR
+        result["@@locale"] = options.locale.replace(/-/g, "_");
       }
 
       // 2. Add translated resources in sorted order
@@ -720,6 +725,25 @@ export class ArbHandler implements IFormatHandler {
     return localePattern.test(locale);
   }
 
+  private getKeyContexts(
+    resourceMetadata: Record<string, ArbResourceMetadata>,
+  ): Record<string, KeyContext> {
+    const contexts: Record<string, KeyContext> = {};
+    for (const [metadataKey, metadata] of Object.entries(resourceMetadata)) {
+      const keyContext: KeyContext = {};
+      if (metadata.description) {
+        keyContext.description = metadata.description;
+      }
+      if (metadata.context) {
+        keyContext.context = metadata.context;
+      }
+      if (Object.keys(keyContext).length > 0) {
+        contexts[metadataKey.slice(1)] = keyContext;
+      }
+    }
+    return contexts;
+  }
+
   private analyzeIcuMessages(
     resources: Record<string, string>,
   ): Record<string, IcuMessageInfo> {
@@ -10,7 +10,11 @@ export { POHandler } from "./po-handler.js";
 export * from "./po-utils.js";
 export { POTHandler } from "./pot-handler.js";
 export { PropertiesHandler } from "./properties-handler.js";
+export { ResxHandler } from "./resx-handler.js";
+export { StringsHandler } from "./strings-handler.js";
+export { StringsdictHandler } from "./stringsdict-handler.js";
 export { TsvHandler } from "./tsv-handler.js";
+export { XcstringsHandler } from "./xcstrings-handler.js";
 export { XliffHandler } from "./xliff-handler.js";
 export { XmbHandler } from "./xmb-handler.js";
 export { XmbXtbUtils } from "./xmb-xtb-utils.js";
@@ -26,7 +30,11 @@ import { JsonHandler } from "./json-handler.js";
 import { POHandler } from "./po-handler.js";
 import { POTHandler } from "./pot-handler.js";
 import { PropertiesHandler } from "./properties-handler.js";
+import { ResxHandler } from "./resx-handler.js";
+import { StringsHandler } from "./strings-handler.js";
+import { StringsdictHandler } from "./stringsdict-handler.js";
 import { TsvHandler } from "./tsv-handler.js";
+import { XcstringsHandler } from "./xcstrings-handler.js";
 import { XliffHandler } from "./xliff-handler.js";
 import { XmbHandler } from "./xmb-handler.js";
 import { XmlHandler } from "./xml-handler.js";
@@ -49,3 +57,8 @@ FormatHandlerFactory.registerHandler("yaml", new YamlHandler());
 FormatHandlerFactory.registerHandler("properties", new PropertiesHandler());
 FormatHandlerFactory.registerHandler("csv", new CsvHandler());
 FormatHandlerFactory.registerHandler("tsv", new TsvHandler());
+FormatHandlerFactory.registerHandler("strings", new StringsHandler());
+FormatHandlerFactory.registerHandler("stringsdict", new StringsdictHandler());
+FormatHandlerFactory.registerHandler("xcstrings", new XcstringsHandler());
+FormatHandlerFactory.registerHandler("resx", new ResxHandler());
+FormatHandlerFactory.registerHandler("resw", new ResxHandler());
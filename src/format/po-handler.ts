@@ -4,6 +4,7 @@ import type {
   EnhancedTranslationFile,
   FormatOptions,
   IFormatHandler,
+  KeyContext,
   ValidationResult,
 } from "../format.interface.js";
 import type { TranslationFile } from "../translate.interface.js";
@@ -78,6 +79,8 @@ export class POHandler implements IFormatHandler {
             parsed.headers,
             "target",
           ),
+          needsReview: this.findFuzzyKeys(parsed),
+          keyContexts: this.findKeyContexts(parsed),
         },
       };
 
@@ -101,7 +104,16 @@ export class POHandler implements IFormatHandler {
         this.updateTranslations(poData, translations);
       } else {
         // Create new PO structure from translations
-        poData = this.createPOStructure(translations, _metadata);
+        poData = this.createPOStructure(
+          translations,
+          _metadata,
+          options?.locale,
+          options?.sourceMetadata?.originalStructure,
+        );
+      }
+
+      if (options?.needsReview) {
+        this.markFuzzy(poData, new Set(options.needsReview));
       }
 
       // Apply encoding from options or metadata
@@ -233,11 +245,117 @@ export class POHandler implements IFormatHandler {
     }
   }
 
+  private getFlags(entry: POEntry): string[] {
+    return (entry.comments?.flag ?? "")
+      .split(",")
+      .map((flag) => flag.trim())
+      .filter((flag) => flag);
+  }
+
+  // keys of an entry: its key, then the keys of its plural forms
+  private getEntryKeys(context: string, entry: POEntry): string[] {
+    const key = createContextKey(context, entry.msgid);
+    const keys = [key];
+    if (entry.msgid_plural) {
+      for (let i = 1; i < entry.msgstr.length; i++) {
+        keys.push(createPluralKey(key, i));
+      }
+    }
+    return keys;
+  }
+
+  private findFuzzyKeys(poData: POData): string[] {
+    const keys: string[] = [];
+    for (const [context, translations] of Object.entries(poData.translations)) {
+      for (const [msgid, entry] of Object.entries(translations)) {
+        if (msgid && this.getFlags(entry).includes("fuzzy")) {
+          keys.push(...this.getEntryKeys(context, entry));
+        }
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Translation hints of the entries: extracted comments (`#.`), `msgctxt`,
+   * references (`#:`) and the `max-length:N` flag used by Weblate.
+   */
+  private findKeyContexts(poData: POData): Record<string, KeyContext> {
+    const contexts: Record<string, KeyContext> = {};
+    for (const [context, translations] of Object.entries(poData.translations)) {
+      for (const [msgid, entry] of Object.entries(translations)) {
+        if (!msgid) continue;
+        const keyContext: KeyContext = {};
+        const description = entry.comments?.extracted
+          ?.split("\n")
+          .map((line) => line.trim())
+          .filter((line) => line)
+          .join(" ");
+        if (description) {
+          keyContext.description = description;
+        }
+        if (context) {
+          keyContext.context = context;
+        }
+        const references = entry.comments?.reference
+          ?.split(/\s+/)
+          .filter((reference) => reference);
+        if (references?.length) {
+          keyContext.references = references;
+        }
+        const maxLength = this.getFlags(entry)
+          .map((flag) => /^max-length:(\d+)$/.exec(flag)?.[1])
+          .find((value) => value);
+        if (maxLength) {
+          keyContext.maxLength = Number(maxLength);
+        }
+        if (Object.keys(keyContext).length > 0) {
+          for (const key of this.getEntryKeys(context, entry)) {
+            contexts[key] = keyContext;
+          }
+        }
+      }
+    }
+    return contexts;
+  }
+
+  /**
+   * Flag the entries of machine translations `#, fuzzy`, keeping their
+   * other flags. Other entries are left as they are.
+   */
+  private markFuzzy(poData: POData, keys: Set<string>): void {
+    for (const [context, translations] of Object.entries(poData.translations)) {
+      for (const [msgid, entry] of Object.entries(translations)) {
+        if (
+          !msgid ||
+          !this.getEntryKeys(context, entry).some((key) => keys.has(key))
+        ) {
+          continue;
+        }
+        const flags = this.getFlags(entry);
+        if (!flags.includes("fuzzy")) {
+          entry.comments = {
+            ...entry.comments,
+            flag: ["fuzzy", ...flags].join(", "),
+          };
+        }
+      }
+    }
+  }
+
+  /**
+   * Build a PO file from the translations. Entries take their plural id and
+   * their extracted comments, references and flags from the entry of the
+   * `source` file, and plural entries get the `nplurals` forms of the
+   * target language: missing forms are copied from the last one.
+   */
   private createPOStructure(
     translations: Record<string, string>,
     metadata?: any,
+    locale?: string,
+    source?: POData,
   ): POData {
-    const targetLanguage = metadata?.targetLanguage;
+    const targetLanguage = metadata?.targetLanguage ?? locale;
     const encoding = metadata?.encoding || "utf-8";
     const headers =
       metadata?.poHeaders || this.getDefaultHeaders(targetLanguage);
@@ -279,10 +397,10 @@ export class POHandler implements IFormatHandler {
 
       // Ensure entry exists
       if (!poData.translations[context][msgid]) {
-        poData.translations[context][msgid] = {
+        poData.translations[context][msgid] = this.createEntry(
           msgid,
-          msgstr: [""],
-        };
+          source?.translations[context]?.[msgid],
+        );
       }
 
       const entry = poData.translations[context][msgid];
@@ -309,9 +427,54 @@ export class POHandler implements IFormatHandler {
       }
     }
 
+    const nplurals = Number(
+      /nplurals\s*=\s*(\d+)/.exec(headers["Plural-Forms"] ?? "")?.[1] ?? 2,
+    );
+    for (const contextTranslations of Object.values(poData.translations)) {
+      for (const entry of Object.values(contextTranslations)) {
+        if (entry.msgid_plural) {
+          entry.msgstr = this.fitPluralForms(entry.msgstr, nplurals);
+        }
+      }
+    }
+
     return poData;
   }
 
+  // a new entry, with the plural id and comments of the source entry
+  private createEntry(msgid: string, source?: POEntry): POEntry {
+    const entry: POEntry = { msgid, msgstr: [""] };
+    if (source?.msgid_plural) {
+      entry.msgid_plural = source.msgid_plural;
+    }
+    const flags = source ? this.getFlags(source) : [];
+    const comments = {
+      extracted: source?.comments?.extracted,
+      reference: source?.comments?.reference,
+      // the review state of the source does not carry over
+      flag: flags.filter((flag) => flag !== "fuzzy").join(", ") || undefined,
+    };
+    if (Object.values(comments).some((comment) => comment)) {
+      entry.comments = Object.fromEntries(
+        Object.entries(comments).filter(([, comment]) => comment),
+      );
+    }
+    return entry;
+  }
+
+  // exactly `nplurals` forms: missing ones are copied from the last form,
+  // extra ones dropped before it
+  private fitPluralForms(forms: string[], nplurals: number): string[] {
+    if (forms.length > nplurals) {
+      return [...forms.slice(0, nplurals - 1), forms[forms.length - 1]];
+    }
+    const last = forms[forms.length - 1] ?? "";
+    return [
+      ...forms,
+      ...Array.from({ length: nplurals - forms.length }, () => last),
+    ];
+  }
+
   private parseTranslationKey(key: string): {
     context: string;
     msgid: string;
@@ -371,7 +534,8 @@ export class POHandler implements IFormatHandler {
       "Language-Team": language
         ? `${language.toUpperCase()} <${language}@li.org>`
         : "LANGUAGE <LL@li.org>",
-      Language: language || "",
+      // gettext spells locales pt_BR
+      Language: language?.replace(/-/g, "_") || "",
       "MIME-Version": "1.0",
       "Content-Type": "text/plain; charset=UTF-8",
       "Content-Transfer-Encoding": "8bit",
@@ -0,0 +1,336 @@
+import * as path from "node:path";
+import { XMLParser } from "fast-xml-parser";
+import type {
+  EnhancedTranslationFile,
+  FormatOptions,
+  IFormatHandler,
+  KeyContext,
+  ValidationResult,
+} from "../format.interface.js";
+import type { TranslationFile } from "../translate.interface.js";
+
+// header Visual Studio writes in new resource files
+const resxTemplate = `<?xml version="1.0" encoding="utf-8"?>
+<root>
+  <xsd:schema id="root" xmlns="" xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:msdata="urn:schemas-microsoft-com:xml-msdata">
+    <xsd:import namespace="http://www.w3.org/XML/1998/namespace" />
+    <xsd:element name="root" msdata:IsDataSet="true">
+      <xsd:complexType>
+        <xsd:choice maxOccurs="unbounded">
+          <xsd:element name="metadata">
+            <xsd:complexType>
+              <xsd:sequence>
+                <xsd:element name="value" type="xsd:string" minOccurs="0" />
+              </xsd:sequence>
+              <xsd:attribute name="name" use="required" type="xsd:string" />
+              <xsd:attribute name="type" type="xsd:string" />
+              <xsd:attribute name="mimetype" type="xsd:string" />
+              <xsd:attribute ref="xml:space" />
+            </xsd:complexType>
+          </xsd:element>
+          <xsd:element name="assembly">
+            <xsd:complexType>
+              <xsd:attribute name="alias" type="xsd:string" />
+              <xsd:attribute name="name" type="xsd:string" />
+            </xsd:complexType>
+          </xsd:element>
+          <xsd:element name="data">
+            <xsd:complexType>
+              <xsd:sequence>
+                <xsd:element name="value" type="xsd:string" minOccurs="0" msdata:Ordinal="1" />
+                <xsd:element name="comment" type="xsd:string" minOccurs="0" msdata:Ordinal="2" />
+              </xsd:sequence>
+              <xsd:attribute name="name" type="xsd:string" use="required" msdata:Ordinal="1" />
+              <xsd:attribute name="type" type="xsd:string" msdata:Ordinal="3" />
+              <xsd:attribute name="mimetype" type="xsd:string" msdata:Ordinal="4" />
+              <xsd:attribute ref="xml:space" />
+            </xsd:complexType>
+          </xsd:element>
+          <xsd:element name="resheader">
+            <xsd:complexType>
+              <xsd:sequence>
+                <xsd:element name="value" type="xsd:string" minOccurs="0" msdata:Ordinal="1" />
+              </xsd:sequence>
+              <xsd:attribute name="name" type="xsd:string" use="required" />
+            </xsd:complexType>
+          </xsd:element>
+        </xsd:choice>
+      </xsd:complexType>
+    </xsd:element>
+  </xsd:schema>
+  <resheader name="resmimetype">
+    <value>text/microsoft-resx</value>
+  </resheader>
+  <resheader name="version">
+    <value>2.0</value>
+  </resheader>
+  <resheader name="reader">
+    <value>System.Resources.ResXResourceReader, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089</value>
+  </resheader>
+  <resheader name="writer">
+    <value>System.Resources.ResXResourceWriter, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089</value>
+  </resheader>
+</root>
+`;
+
+// node of fast-xml-parser's preserveOrder output
+type XmlNode = Record<string, any>;
+
+const getElementName = (node: XmlNode) =>
+  Object.keys(node).find((name) => name !== ":@");
+
+const getText = (nodes: XmlNode[]): string =>
+  nodes
+    .map((node) =>
+      node["#text"] !== undefined
+        ? String(node["#text"])
+        : node["#cdata"]
+          ? getText(node["#cdata"])
+          : "",
+    )
+    .join("");
+
+/**
+ * .NET resource files (`Strings.resx`, UWP `Resources.resw`). Strings are
+ * the `<data>` entries without a `type` or `mimetype`; their `<comment>` is
+ * passed to the engines as context. Everything else is written back as
+ * found: the schema and headers, other resources, XML comments and the
+ * order of the entries.
+ */
+export class ResxHandler implements IFormatHandler {
+  canHandle(filePath: string, content?: string): boolean {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension !== ".resx" && extension !== ".resw") {
+      return false;
+    }
+
+    if (content) {
+      return content.includes("<root");
+    }
+
+    return true;
+  }
+
+  parse(content: string): EnhancedTranslationFile {
+    try {
+      const document = this.read(content);
+      const translations: TranslationFile = {};
+      const keyContexts: Record<string, KeyContext> = {};
+      for (const node of this.getRoot(document)) {
+        if (!this.isString(node)) continue;
+
+        const name = node[":@"]["@_name"];
+        translations[name] = this.getChildText(node, "value") ?? "";
+        const comment = this.getChildText(node, "comment")?.trim();
+        if (comment) {
+          keyContexts[name] = { description: comment };
+        }
+      }
+
+      return {
+        ...translations,
+        _metadata: {
+          format: "resx",
+          originalStructure: document,
+          preserveComments: true,
+          preserveAttributes: true,
+          keyContexts,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to parse resx: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Strings of the original entries are replaced and new ones appended;
+   * without an original, the file gets Visual Studio's header.
+   */
+  serialize(data: EnhancedTranslationFile, _options?: FormatOptions): string {
+    try {
+      const { _metadata, ...translations } = data;
+      const document: XmlNode[] = _metadata?.originalStructure
+        ? structuredClone(_metadata.originalStructure)
+        : this.read(resxTemplate);
+      const root = this.getRoot(document);
+
+      // indentation of the entries, and of their elements
+      const indent =
+        root.find(
+          (node, index) =>
+            node["#text"] !== undefined &&
+            root[index + 1] &&
+            getElementName(root[index + 1]) !== "#text",
+        )?.["#text"] ?? "\n  ";
+      const inner = indent + indent.replace(/^\r?\n/, "");
+
+      const written = new Set<string>();
+      for (let index = root.length - 1; index >= 0; index--) {
+        const node = root[index];
+        if (!this.isString(node)) continue;
+
+        const name = node[":@"]["@_name"];
+        const value = translations[name];
+        if (value === undefined) {
+          // removed, with the whitespace before it
+          const start = root[index - 1]?.["#text"] !== undefined ? 1 : 0;
+          root.splice(index - start, start + 1);
+          index -= start;
+          continue;
+        }
+        written.add(name);
+        this.setChildText(node, "value", String(value), inner);
+      }
+
+      const end = root[root.length - 1]?.["#text"] !== undefined ? 1 : 0;
+      const added: XmlNode[] = Object.entries(translations)
+        .filter(([name]) => !written.has(name))
+        .flatMap(([name, value]) => [
+          { "#text": indent },
+          {
+            data: [
+              { "#text": inner },
+              { value: [{ "#text": String(value) }] },
+              { "#text": indent },
+            ],
+            ":@": { "@_name": name, "@_xml:space": "preserve" },
+          },
+        ]);
+      root.splice(root.length - end, 0, ...added);
+
+      return `${document.map((node) => this.write([node])).join("\n")}\n`;
+    } catch (error) {
+      throw new Error(
+        `Failed to serialize resx: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  getFileExtension(): string {
+    return ".resx";
+  }
+
+  validateStructure(data: TranslationFile): ValidationResult {
+    const errors: any[] = [];
+    const warnings: any[] = [];
+
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      errors.push({
+        code: "INVALID_STRUCTURE",
+        message: "Resx data must be an object",
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+      if (key === "_metadata") continue;
+
+      if (typeof value !== "string") {
+        errors.push({
+          code: "INVALID_TRANSLATION_VALUE",
+          message: `Translation value for "${key}" must be a string, got ${typeof value}`,
+        });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
+  private read(content: string): XmlNode[] {
+    return new XMLParser({
+      preserveOrder: true,
+      ignoreAttributes: false,
+      attributeNamePrefix: "@_",
+      parseTagValue: false,
+      parseAttributeValue: false,
+      trimValues: false,
+      commentPropName: "#comment",
+      cdataPropName: "#cdata",
+    }).parse(content.replace(/^\uFEFF/, ""));
+  }
+
+  private getRoot(document: XmlNode[]): XmlNode[] {
+    const root = document.find((node) => node.root !== undefined);
+    if (!root) {
+      throw new Error("Missing root element");
+    }
+    return root.root;
+  }
+
+  // string resources: no type nor mimetype; `>>` entries are designer data
+  private isString(node: XmlNode): boolean {
+    const attributes = node[":@"] ?? {};
+    return (
+      node.data !== undefined &&
+      typeof attributes["@_name"] === "string" &&
+      !attributes["@_name"].startsWith(">>") &&
+      attributes["@_type"] === undefined &&
+      attributes["@_mimetype"] === undefined
+    );
+  }
+
+  private getChildText(node: XmlNode, name: string): string | undefined {
+    const child = (node.data as XmlNode[]).find(
+      (element) => element[name] !== undefined,
+    );
+    return child && getText(child[name]);
+  }
+
+  private setChildText(
+    node: XmlNode,
+    name: string,
+    text: string,
+    indent: string,
+  ): void {
+    const children = node.data as XmlNode[];
+    const child = children.find((element) => element[name] !== undefined);
+    if (child) {
+      child[name] = [{ "#text": text }];
+    } else {
+      children.unshift({ "#text": indent }, { [name]: [{ "#text": text }] });
+    }
+  }
+
+  private write(nodes: XmlNode[]): string {
+    return nodes
+      .map((node) => {
+        if (node["#text"] !== undefined) {
+          return this.escape(String(node["#text"]));
+        }
+        if (node["#comment"]) {
+          return `<!--${getText(node["#comment"])}-->`;
+        }
+        if (node["#cdata"]) {
+          return `<![CDATA[${getText(node["#cdata"])}]]>`;
+        }
+        const name = getElementName(node) as string;
+        const attributes = Object.entries(node[":@"] ?? {})
+          .map(
+            ([attribute, value]) =>
+              ` ${attribute.slice(2)}="${this.escape(String(value)).replace(/"/g, "&quot;")}"`,
+          )
+          .join("");
+        if (name.startsWith("?")) {
+          return `<${name}${attributes}?>`;
+        }
+        const children: XmlNode[] = node[name];
+        return children.length > 0
+          ? `<${name}${attributes}>${this.write(children)}</${name}>`
+          : `<${name}${attributes} />`;
+      })
+      .join("");
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+  }
+}
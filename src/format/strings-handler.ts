@@ -0,0 +1,323 @@
+import * as path from "node:path";
+import type {
+  EnhancedTranslationFile,
+  FormatOptions,
+  IFormatHandler,
+  KeyContext,
+  ValidationResult,
+} from "../format.interface.js";
+import type { TranslationFile } from "../translate.interface.js";
+
+interface StringsEntry {
+  key: string;
+  value: string;
+  // comments written before the entry, delimiters included
+  comment?: string;
+  // text of the comment right above the entry
+  description?: string;
+}
+
+interface StringsStructure {
+  entries: StringsEntry[];
+  // comments after the last entry
+  trailingComment?: string;
+}
+
+// comment Xcode writes for strings without a developer comment
+const noComment = "No comment provided by engineer.";
+
+const escapes: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  "0": "\0",
+  '"': '"',
+  "'": "'",
+  "\\": "\\",
+};
+
+// text of C comments, without their delimiters
+const getCommentText = (comment: string) =>
+  comment
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^\s*(?:\/\*+|\/\/)/, "")
+        .replace(/\*+\/\s*$/, "")
+        .replace(/^\s*\*(?!\/)/, "")
+        .trim(),
+    )
+    .filter((line) => line)
+    .join(" ");
+
+/**
+ * Reader for the old-style property list syntax of `.strings` files:
+ * `"key" = "value";` pairs with C comments.
+ */
+class StringsParser {
+  private index = 0;
+
+  constructor(private readonly content: string) {}
+
+  parse(): StringsStructure {
+    const entries: StringsEntry[] = [];
+    for (;;) {
+      const { comment, attached } = this.skipComments();
+      if (this.index >= this.content.length) {
+        return { entries, trailingComment: comment };
+      }
+      const key = this.readString();
+      this.expect("=");
+      const value = this.readString();
+      this.expect(";");
+      entries.push({
+        key,
+        value,
+        comment,
+        description: attached && getCommentText(attached),
+      });
+    }
+  }
+
+  /**
+   * Skip whitespace and comments. Returns the comments as written, and the
+   * ones right above the next token: a blank line detaches the comments
+   * before it, like the header of a file.
+   */
+  private skipComments(): { comment?: string; attached?: string } {
+    const start = this.index;
+    let commentStart: number | undefined;
+    let attachedStart: number | undefined;
+    for (;;) {
+      const whitespace = /^\s*/.exec(this.content.slice(this.index))?.[0];
+      if (whitespace && /\n\s*\n/.test(whitespace)) {
+        attachedStart = undefined;
+      }
+      this.index += whitespace?.length ?? 0;
+      let end: number;
+      if (this.content.startsWith("/*", this.index)) {
+        end = this.content.indexOf("*/", this.index + 2);
+        if (end === -1) {
+          throw this.error("Unterminated comment");
+        }
+        end += 2;
+      } else if (this.content.startsWith("//", this.index)) {
+        end = this.content.indexOf("\n", this.index);
+        end = end === -1 ? this.content.length : end;
+      } else {
+        break;
+      }
+      commentStart ??= this.index;
+      attachedStart ??= this.index;
+      this.index = end;
+    }
+    const stop = this.content.slice(start, this.index).trimEnd().length + start;
+    return {
+      comment:
+        commentStart === undefined
+          ? undefined
+          : this.content.slice(commentStart, stop),
+      attached:
+        attachedStart === undefined
+          ? undefined
+          : this.content.slice(attachedStart, stop),
+    };
+  }
+
+  private readString(): string {
+    this.skipComments();
+    if (this.content[this.index] !== '"') {
+      // unquoted strings: letters, digits and a few punctuation marks
+      const word = /^[\w.$:/-]+/.exec(this.content.slice(this.index))?.[0];
+      if (!word) {
+        throw this.error("Expected a string");
+      }
+      this.index += word.length;
+      return word;
+    }
+
+    let value = "";
+    this.index++;
+    while (this.index < this.content.length) {
+      const char = this.content[this.index];
+      if (char === '"') {
+        this.index++;
+        return value;
+      }
+      if (char !== "\\") {
+        value += char;
+        this.index++;
+        continue;
+      }
+      const next = this.content[this.index + 1];
+      const unicode = /^[Uu]([0-9a-fA-F]{4})/.exec(
+        this.content.slice(this.index + 1, this.index + 6),
+      );
+      if (unicode) {
+        value += String.fromCharCode(Number.parseInt(unicode[1], 16));
+        this.index += 6;
+      } else {
+        value += escapes[next] ?? next;
+        this.index += 2;
+      }
+    }
+    throw this.error("Unterminated string");
+  }
+
+  private expect(char: string): void {
+    this.skipComments();
+    if (this.content[this.index] !== char) {
+      throw this.error(`Expected '${char}'`);
+    }
+    this.index++;
+  }
+
+  private error(message: string): Error {
+    const line = this.content.slice(0, this.index).split("\n").length;
+    return new Error(`${message} at line ${line}`);
+  }
+}
+
+/**
+ * Apple `Localizable.strings` files. Comments are kept with their entries
+ * and passed to the engines as context.
+ */
+export class StringsHandler implements IFormatHandler {
+  canHandle(filePath: string, content?: string): boolean {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension !== ".strings") {
+      return false;
+    }
+
+    if (content) {
+      try {
+        new StringsParser(content.replace(/^\uFEFF/, "")).parse();
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  parse(content: string): EnhancedTranslationFile {
+    try {
+      const structure = new StringsParser(
+        content.replace(/^\uFEFF/, ""),
+      ).parse();
+      const translations: TranslationFile = {};
+      const keyContexts: Record<string, KeyContext> = {};
+      for (const entry of structure.entries) {
+        translations[entry.key] = entry.value;
+        if (entry.description && entry.description !== noComment) {
+          keyContexts[entry.key] = { description: entry.description };
+        }
+      }
+
+      return {
+        ...translations,
+        _metadata: {
+          format: "strings",
+          originalStructure: structure,
+          preserveComments: true,
+          preserveAttributes: false,
+          keyContexts,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to parse strings: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  serialize(data: EnhancedTranslationFile, options?: FormatOptions): string {
+    try {
+      const { _metadata, ...translations } = data;
+      const structure = _metadata?.originalStructure as
+        | StringsStructure
+        | undefined;
+
+      // original entries keep their comments and order, new ones follow
+      const entries: StringsEntry[] = [];
+      const written = new Set<string>();
+      for (const entry of structure?.entries ?? []) {
+        if (translations[entry.key] !== undefined) {
+          entries.push({ ...entry, value: String(translations[entry.key]) });
+          written.add(entry.key);
+        }
+      }
+      for (const [key, value] of Object.entries(translations)) {
+        if (!written.has(key)) {
+          entries.push({ key, value: String(value) });
+        }
+      }
+
+      const blocks = entries.map((entry) => {
+        const line = `"${this.escape(entry.key)}" = "${this.escape(entry.value)}";`;
+        return options?.preserveFormatting !== false && entry.comment
+          ? `${entry.comment}\n${line}`
+          : line;
+      });
+      if (options?.preserveFormatting !== false && structure?.trailingComment) {
+        blocks.push(structure.trailingComment);
+      }
+      return blocks.length > 0 ? `${blocks.join("\n\n")}\n` : "";
+    } catch (error) {
+      throw new Error(
+        `Failed to serialize strings: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  getFileExtension(): string {
+    return ".strings";
+  }
+
+  validateStructure(data: TranslationFile): ValidationResult {
+    const errors: any[] = [];
+    const warnings: any[] = [];
+
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      errors.push({
+        code: "INVALID_STRUCTURE",
+        message: "Strings data must be an object",
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+      if (key === "_metadata") continue;
+
+      if (typeof value !== "string") {
+        errors.push({
+          code: "INVALID_TRANSLATION_VALUE",
+          message: `Translation value for "${key}" must be a string, got ${typeof value}`,
+        });
+      }
+    }
+
+    if (Object.keys(data).filter((key) => key !== "_metadata").length === 0) {
+      warnings.push({
+        code: "EMPTY_STRINGS",
+        message: "Strings file appears to have no entries",
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/\\/g, "\\\\")
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, "\\n")
+      .replace(/\r/g, "\\r")
+      .replace(/\t/g, "\\t");
+  }
+}
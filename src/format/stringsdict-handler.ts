@@ -0,0 +1,317 @@
+import * as path from "node:path";
+import { XMLParser } from "fast-xml-parser";
+import type {
+  EnhancedTranslationFile,
+  FormatOptions,
+  IFormatHandler,
+  ValidationResult,
+} from "../format.interface.js";
+import { adaptPluralForms, pluralCategories } from "../icu.js";
+import type { TranslationFile } from "../translate.interface.js";
+
+// plist element: dictionaries keep their keys in order, scalars their text
+interface PlistNode {
+  element: string;
+  text?: string;
+  entries?: Array<[string, PlistNode]>;
+}
+
+const formatKey = "NSStringLocalizedFormatKey";
+const specTypeKey = "NSStringFormatSpecTypeKey";
+const valueTypeKey = "NSStringFormatValueTypeKey";
+const pluralRuleType = "NSStringPluralRuleType";
+
+// keys describing a variable, not texts to translate
+const typeKeys = [specTypeKey, valueTypeKey];
+
+const header = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">`;
+
+// printf conversion of a plural form, with its length modifier: "d", "ld"
+const conversionPattern =
+  /%(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?((?:hh|h|ll|l|q|z|t|j)?[diouxXeEfgGaAcsSp@])/;
+
+const isPluralForms = (value: Record<string, unknown>) =>
+  value.other !== undefined &&
+  Object.keys(value).every((key) => pluralCategories.includes(key));
+
+/**
+ * Apple `.stringsdict` plural rules: a plist dictionary of format strings
+ * whose `%#@variable@` references are dictionaries of plural forms. The
+ * forms are adapted to the plural categories of the target locale.
+ */
+export class StringsdictHandler implements IFormatHandler {
+  canHandle(filePath: string, content?: string): boolean {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension !== ".stringsdict") {
+      return false;
+    }
+
+    if (content) {
+      return content.includes("<plist");
+    }
+
+    return true;
+  }
+
+  parse(content: string): EnhancedTranslationFile {
+    try {
+      const parser = new XMLParser({
+        preserveOrder: true,
+        ignoreAttributes: false,
+        attributeNamePrefix: "@_",
+        parseTagValue: false,
+        trimValues: false,
+      });
+      const document = parser.parse(content.replace(/^\uFEFF/, ""));
+      const plist = document.find((node: any) => node.plist !== undefined);
+      const root = plist && this.readChildren(plist.plist)[0];
+      if (!root || root.element !== "dict") {
+        throw new Error("Missing plist root dictionary");
+      }
+
+      return {
+        ...this.toTranslations(root),
+        _metadata: {
+          format: "stringsdict",
+          originalStructure: root,
+          preserveComments: false,
+          preserveAttributes: false,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to parse stringsdict: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  serialize(data: EnhancedTranslationFile, options?: FormatOptions): string {
+    try {
+      const { _metadata, ...translations } = data;
+      const root = this.toNode(
+        translations,
+        _metadata?.originalStructure as PlistNode | undefined,
+        options?.locale,
+      );
+      const indentation =
+        typeof options?.indentation === "number"
+          ? " ".repeat(options.indentation)
+          : (options?.indentation ?? "\t");
+      return `${header}\n${this.write(root, "", indentation)}\n</plist>\n`;
+    } catch (error) {
+      throw new Error(
+        `Failed to serialize stringsdict: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  getFileExtension(): string {
+    return ".stringsdict";
+  }
+
+  validateStructure(data: TranslationFile): ValidationResult {
+    const errors: any[] = [];
+    const warnings: any[] = [];
+
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      errors.push({
+        code: "INVALID_STRUCTURE",
+        message: "Stringsdict data must be an object",
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    const check = (value: unknown, key: string) => {
+      if (typeof value === "string") {
+        return;
+      }
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        for (const [child, childValue] of Object.entries(value)) {
+          check(childValue, `${key}.${child}`);
+        }
+        return;
+      }
+      errors.push({
+        code: "INVALID_TRANSLATION_VALUE",
+        message: `Translation value for "${key}" must be a string or a dictionary, got ${typeof value}`,
+      });
+    };
+
+    for (const [key, value] of Object.entries(data)) {
+      if (key === "_metadata") continue;
+
+      check(value, key);
+      if (
+        value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        (value as Record<string, unknown>)[formatKey] === undefined
+      ) {
+        warnings.push({
+          code: "MISSING_FORMAT_KEY",
+          message: `Entry "${key}" has no ${formatKey}`,
+        });
+      }
+    }
+
+    if (Object.keys(data).filter((key) => key !== "_metadata").length === 0) {
+      warnings.push({
+        code: "EMPTY_STRINGSDICT",
+        message: "Stringsdict file appears to have no entries",
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
+  // plist elements of a preserveOrder node list, without whitespace text
+  private readChildren(nodes: any[]): PlistNode[] {
+    const children: PlistNode[] = [];
+    for (const node of nodes) {
+      const element = Object.keys(node).find((name) => name !== ":@");
+      if (!element || element === "#text") {
+        continue;
+      }
+      const content: any[] = node[element];
+      if (element === "dict") {
+        const entries: Array<[string, PlistNode]> = [];
+        let key: string | undefined;
+        for (const child of this.readChildren(content)) {
+          if (child.element === "key") {
+            key = child.text ?? "";
+          } else if (key !== undefined) {
+            entries.push([key, child]);
+            key = undefined;
+          }
+        }
+        children.push({ element, entries });
+      } else if (element === "array") {
+        throw new Error("Arrays are not supported");
+      } else {
+        children.push({
+          element,
+          text: content.map((child) => child["#text"] ?? "").join(""),
+        });
+      }
+    }
+    return children;
+  }
+
+  // strings and dictionaries of a dictionary, without the variable types
+  private toTranslations(node: PlistNode): TranslationFile {
+    const translations: TranslationFile = {};
+    for (const [key, child] of node.entries ?? []) {
+      if (child.element === "string" && !typeKeys.includes(key)) {
+        translations[key] = child.text ?? "";
+      } else if (child.element === "dict") {
+        translations[key] = this.toTranslations(child);
+      }
+    }
+    return translations;
+  }
+
+  /**
+   * Dictionary of `translations`, in the order of the original one if any.
+   * Variable types and other values the translations do not carry are
+   * copied from the original.
+   */
+  private toNode(
+    translations: Record<string, any>,
+    original: PlistNode | undefined,
+    locale?: string,
+  ): PlistNode {
+    const entries: Array<[string, PlistNode]> = [];
+    const written = new Set<string>();
+    const add = (key: string, value: any, originalNode?: PlistNode) => {
+      written.add(key);
+      if (typeof value === "string") {
+        entries.push([key, { element: "string", text: value }]);
+      } else if (value && typeof value === "object") {
+        entries.push([key, this.toNode(value, originalNode, locale)]);
+      }
+    };
+
+    for (const [key, child] of original?.entries ?? []) {
+      if (translations[key] !== undefined) {
+        add(key, translations[key], child);
+      } else if (
+        (child.element !== "string" && child.element !== "dict") ||
+        typeKeys.includes(key)
+      ) {
+        entries.push([key, child]);
+      }
+    }
+    for (const [key, value] of Object.entries(translations)) {
+      if (!written.has(key)) {
+        add(key, value);
+      }
+    }
+
+    const specType = entries.find(([key]) => key === specTypeKey)?.[1].text;
+    if (specType === undefined && isPluralForms(translations)) {
+      entries.unshift(
+        [specTypeKey, { element: "string", text: pluralRuleType }],
+        [
+          valueTypeKey,
+          {
+            element: "string",
+            text: conversionPattern.exec(translations.other)?.[1] ?? "d",
+          },
+        ],
+      );
+    } else if (specType !== pluralRuleType) {
+      return { element: "dict", entries };
+    }
+
+    // plural forms last, in CLDR order, for the categories of the locale
+    const forms = Object.fromEntries(
+      entries
+        .filter(([key]) => pluralCategories.includes(key))
+        .map(([key, node]) => [key, node.text ?? ""]),
+    );
+    return {
+      element: "dict",
+      entries: [
+        ...entries.filter(([key]) => !pluralCategories.includes(key)),
+        ...Object.entries(adaptPluralForms(forms, locale, ["zero"])).map(
+          ([key, text]): [string, PlistNode] => [
+            key,
+            { element: "string", text },
+          ],
+        ),
+      ],
+    };
+  }
+
+  private write(node: PlistNode, indent: string, indentation: string): string {
+    if (node.entries) {
+      const inner = indent + indentation;
+      const lines = node.entries.flatMap(([key, child]) => [
+        `${inner}<key>${this.escape(key)}</key>`,
+        this.write(child, inner, indentation),
+      ]);
+      return lines.length > 0
+        ? `${indent}<dict>\n${lines.join("\n")}\n${indent}</dict>`
+        : `${indent}<dict/>`;
+    }
+    if (node.text === undefined || node.text === "") {
+      return node.element === "string"
+        ? `${indent}<string></string>`
+        : `${indent}<${node.element}/>`;
+    }
+    return `${indent}<${node.element}>${this.escape(node.text)}</${node.element}>`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+  }
+}
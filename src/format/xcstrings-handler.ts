@@ -0,0 +1,496 @@
+import * as path from "node:path";
+import type {
+  EnhancedTranslationFile,
+  FormatOptions,
+  IMultiLocaleFormatHandler,
+  KeyContext,
+  ValidationResult,
+} from "../format.interface.js";
+import { adaptPluralForms } from "../icu.js";
+import type { TranslationFile } from "../translate.interface.js";
+
+interface StringUnit {
+  state?: string;
+  value: string;
+}
+
+// variation type (plural, device) -> case (one, iphone) -> localization
+type Variations = Record<string, Record<string, Localization>>;
+
+interface Localization {
+  stringUnit?: StringUnit;
+  substitutions?: Record<string, Substitution>;
+  variations?: Variations;
+}
+
+// `%#@name@` argument of a format string, with its own variations
+interface Substitution {
+  argNum?: number;
+  formatSpecifier?: string;
+  variations?: Variations;
+  [key: string]: unknown;
+}
+
+interface CatalogEntry {
+  comment?: string;
+  extractionState?: string;
+  shouldTranslate?: boolean;
+  localizations?: Record<string, Localization>;
+  [key: string]: unknown;
+}
+
+interface StringCatalog {
+  sourceLanguage: string;
+  strings: Record<string, CatalogEntry>;
+  version?: string;
+  [key: string]: unknown;
+}
+
+// state of the string units written for a locale, see toUnit
+interface WriteContext {
+  state: string;
+  locale: string;
+  needsReview: Set<string>;
+}
+
+/**
+ * Xcode String Catalogs (`Localizable.xcstrings`): one JSON file holding
+ * the strings of every locale. A localization is a string unit, or a tree
+ * of variations whose leaves are string units. In the translations, the
+ * tree becomes nested objects: `{ plural: { one, other } }`, with the
+ * format string under `format` and its arguments under `substitutions`
+ * when the string has substitutions.
+ */
+export class XcstringsHandler implements IMultiLocaleFormatHandler {
+  canHandle(filePath: string, content?: string): boolean {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension !== ".xcstrings") {
+      return false;
+    }
+
+    if (content) {
+      try {
+        this.readCatalog(content);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Strings of the source language. Strings marked as not translatable
+   * and stale strings, no longer found in the code, are left out.
+   */
+  parse(content: string): EnhancedTranslationFile {
+    const catalog = this.readCatalog(content);
+    const translations: TranslationFile = {};
+    const keyContexts: Record<string, KeyContext> = {};
+    for (const [key, entry] of Object.entries(catalog.strings)) {
+      if (
+        entry.shouldTranslate === false ||
+        entry.extractionState === "stale"
+      ) {
+        continue;
+      }
+      // without a localization, the key is the source text
+      const localization = entry.localizations?.[catalog.sourceLanguage] ?? {
+        stringUnit: { value: key },
+      };
+      translations[key] = this.toTranslation(localization, [key], []);
+      if (entry.comment) {
+        for (const leaf of this.getLeafPaths(translations[key], [key])) {
+          keyContexts[leaf] = { description: entry.comment };
+        }
+      }
+    }
+
+    return {
+      ...translations,
+      _metadata: {
+        format: "xcstrings",
+        sourceLanguage: catalog.sourceLanguage,
+        version: catalog.version,
+        originalStructure: catalog,
+        keyContexts,
+      },
+    };
+  }
+
+  /**
+   * A new catalog in the source language, or the original catalog with
+   * the strings of `options.locale` replaced.
+   */
+  serialize(data: EnhancedTranslationFile, options?: FormatOptions): string {
+    const { _metadata, ...translations } = data;
+    const catalog: StringCatalog = _metadata?.originalStructure ?? {
+      sourceLanguage: options?.sourceLocale ?? options?.locale ?? "en",
+      strings: {},
+      version: "1.0",
+    };
+    return this.updateLocale(
+      this.writeCatalog(catalog),
+      options?.locale ?? catalog.sourceLanguage,
+      translations,
+      options,
+    );
+  }
+
+  getFileExtension(): string {
+    return ".xcstrings";
+  }
+
+  validateStructure(data: TranslationFile): ValidationResult {
+    const errors: any[] = [];
+    const warnings: any[] = [];
+
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      errors.push({
+        code: "INVALID_STRUCTURE",
+        message: "String catalog data must be an object",
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    const check = (value: unknown, key: string) => {
+      if (typeof value === "string") {
+        return;
+      }
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        for (const [child, childValue] of Object.entries(value)) {
+          check(childValue, `${key}.${child}`);
+        }
+        return;
+      }
+      errors.push({
+        code: "INVALID_TRANSLATION_VALUE",
+        message: `Translation value for "${key}" must be a string or variations, got ${typeof value}`,
+      });
+    };
+    for (const [key, value] of Object.entries(data)) {
+      if (key === "_metadata") continue;
+      check(value, key);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
+  getSourceLocale(content: string): string {
+    return this.readCatalog(content).sourceLanguage;
+  }
+
+  getLocales(content: string): string[] {
+    const catalog = this.readCatalog(content);
+    const locales = new Set([catalog.sourceLanguage]);
+    for (const entry of Object.values(catalog.strings)) {
+      for (const locale of Object.keys(entry.localizations ?? {})) {
+        locales.add(locale);
+      }
+    }
+    return [...locales];
+  }
+
+  /**
+   * Strings of a locale, with the keys of the units that need review.
+   */
+  parseLocale(content: string, locale: string): EnhancedTranslationFile {
+    const catalog = this.readCatalog(content);
+    if (locale === catalog.sourceLanguage) {
+      return this.parse(content);
+    }
+    const translations: TranslationFile = {};
+    const needsReview: string[] = [];
+    for (const [key, entry] of Object.entries(catalog.strings)) {
+      const localization = entry.localizations?.[locale];
+      if (localization) {
+        translations[key] = this.toTranslation(
+          localization,
+          [key],
+          needsReview,
+        );
+      }
+    }
+
+    return {
+      ...translations,
+      _metadata: {
+        format: "xcstrings",
+        sourceLanguage: catalog.sourceLanguage,
+        targetLanguage: locale,
+        version: catalog.version,
+        originalStructure: catalog,
+        needsReview,
+      },
+    };
+  }
+
+  /**
+   * Replace the strings of `locale`, keeping everything else: comments,
+   * extraction states and the other locales. Units whose value changed
+   * are marked `needs_review` (`translated` in the source language), as
+   * are the keys listed in `options.needsReview`; the others keep their
+   * state.
+   */
+  updateLocale(
+    content: string,
+    locale: string,
+    data: TranslationFile,
+    options?: FormatOptions,
+  ): string {
+    try {
+      const catalog = this.readCatalog(content);
+      const context: WriteContext = {
+        state:
+          locale === catalog.sourceLanguage ? "translated" : "needs_review",
+        locale: options?.locale ?? locale,
+        needsReview: new Set(options?.needsReview ?? []),
+      };
+      for (const [key, value] of Object.entries(data)) {
+        if (key === "_metadata") continue;
+
+        catalog.strings[key] ??= { extractionState: "manual" };
+        const entry = catalog.strings[key];
+        const localizations = {
+          ...entry.localizations,
+          [locale]: this.toLocalization(
+            value,
+            entry.localizations?.[locale],
+            entry.localizations?.[catalog.sourceLanguage],
+            [key],
+            context,
+          ),
+        };
+        // Xcode lists the locales in alphabetical order
+        entry.localizations = Object.fromEntries(
+          Object.keys(localizations)
+            .sort()
+            .map((code) => [code, localizations[code]]),
+        );
+      }
+      return this.writeCatalog(catalog, content);
+    } catch (error) {
+      throw new Error(
+        `Failed to serialize xcstrings: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private readCatalog(content: string): StringCatalog {
+    let catalog: StringCatalog;
+    try {
+      catalog = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Failed to parse xcstrings: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (
+      typeof catalog?.sourceLanguage !== "string" ||
+      !catalog.strings ||
+      typeof catalog.strings !== "object"
+    ) {
+      throw new Error(
+        "Failed to parse xcstrings: expected a sourceLanguage and strings",
+      );
+    }
+    return catalog;
+  }
+
+  // JSON as Xcode writes it: `"key" : value`, ending like `original`
+  private writeCatalog(catalog: StringCatalog, original = ""): string {
+    const json = JSON.stringify(catalog, null, 2).replace(
+      /^(\s*"(?:[^"\\]|\\.)*"): /gm,
+      "$1 : ",
+    );
+    return original.endsWith("\n") ? `${json}\n` : json;
+  }
+
+  private toTranslation(
+    localization: Localization,
+    keyPath: string[],
+    needsReview: string[],
+  ): string | TranslationFile {
+    const { stringUnit, substitutions, variations } = localization;
+    if (stringUnit && !substitutions) {
+      if (stringUnit.state === "needs_review") {
+        needsReview.push(keyPath.join("."));
+      }
+      return stringUnit.value;
+    }
+
+    const translation: TranslationFile = variations
+      ? this.variationsToTranslation(variations, keyPath, needsReview)
+      : {};
+    if (stringUnit) {
+      translation.format = this.toTranslation(
+        { stringUnit },
+        [...keyPath, "format"],
+        needsReview,
+      );
+    }
+    if (substitutions) {
+      translation.substitutions = Object.fromEntries(
+        Object.entries(substitutions).map(([name, substitution]) => [
+          name,
+          this.variationsToTranslation(
+            substitution.variations ?? {},
+            [...keyPath, "substitutions", name],
+            needsReview,
+          ),
+        ]),
+      );
+    }
+    return translation;
+  }
+
+  private variationsToTranslation(
+    variations: Variations,
+    keyPath: string[],
+    needsReview: string[],
+  ): TranslationFile {
+    return Object.fromEntries(
+      Object.entries(variations).map(([type, cases]) => [
+        type,
+        Object.fromEntries(
+          Object.entries(cases).map(([name, localization]) => [
+            name,
+            this.toTranslation(
+              localization,
+              [...keyPath, type, name],
+              needsReview,
+            ),
+          ]),
+        ),
+      ]),
+    );
+  }
+
+  private toLocalization(
+    value: unknown,
+    existing: Localization | undefined,
+    source: Localization | undefined,
+    keyPath: string[],
+    context: WriteContext,
+  ): Localization {
+    if (typeof value === "string") {
+      return {
+        stringUnit: this.toUnit(value, existing?.stringUnit, keyPath, context),
+      };
+    }
+
+    const { format, substitutions, ...variations } = value as Record<
+      string,
+      any
+    >;
+    const localization: Localization = {};
+    if (typeof format === "string") {
+      localization.stringUnit = this.toUnit(
+        format,
+        existing?.stringUnit,
+        [...keyPath, "format"],
+        context,
+      );
+    }
+    if (substitutions) {
+      localization.substitutions = Object.fromEntries(
+        Object.entries(substitutions as Record<string, any>).map(
+          ([name, substitution]) => {
+            // argument number and format specifier as in the source
+            const { variations: _variations, ...argument } =
+              source?.substitutions?.[name] ??
+              existing?.substitutions?.[name] ??
+              {};
+            return [
+              name,
+              {
+                ...argument,
+                variations: this.toVariations(
+                  substitution,
+                  existing?.substitutions?.[name]?.variations,
+                  [...keyPath, "substitutions", name],
+                  context,
+                ),
+              },
+            ];
+          },
+        ),
+      );
+    }
+    if (Object.keys(variations).length > 0) {
+      localization.variations = this.toVariations(
+        variations,
+        existing?.variations,
+        keyPath,
+        context,
+      );
+    }
+    return localization;
+  }
+
+  private toVariations(
+    variations: Record<string, Record<string, unknown>>,
+    existing: Variations | undefined,
+    keyPath: string[],
+    context: WriteContext,
+  ): Variations {
+    return Object.fromEntries(
+      Object.entries(variations).map(([type, cases]) => {
+        // plural forms for the categories of the locale
+        const adapted =
+          type === "plural" &&
+          Object.values(cases).every((value) => typeof value === "string")
+            ? adaptPluralForms(
+                cases as Record<string, string>,
+                context.locale,
+                ["zero"],
+              )
+            : cases;
+        return [
+          type,
+          Object.fromEntries(
+            Object.entries(adapted).map(([name, value]) => [
+              name,
+              this.toLocalization(
+                value,
+                existing?.[type]?.[name],
+                undefined,
+                [...keyPath, type, name],
+                context,
+              ),
+            ]),
+          ),
+        ];
+      }),
+    );
+  }
+
+  private toUnit(
+    value: string,
+    existing: StringUnit | undefined,
+    keyPath: string[],
+    context: WriteContext,
+  ): StringUnit {
+    const unchanged =
+      existing?.value === value && !context.needsReview.has(keyPath.join("."));
+    return {
+      state: unchanged ? (existing?.state ?? context.state) : context.state,
+      value,
+    };
+  }
+
+  // key paths of the strings of a translation
+  private getLeafPaths(value: unknown, keyPath: string[]): string[] {
+    if (!value || typeof value !== "object") {
+      return [keyPath.join(".")];
+    }
+    return Object.entries(value).flatMap(([key, child]) =>
+      this.getLeafPaths(child, [...keyPath, key]),
+    );
+  }
+}
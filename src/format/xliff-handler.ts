@@ -4,6 +4,7 @@ import type {
   EnhancedTranslationFile,
   FormatOptions,
   IFormatHandler,
+  KeyContext,
   ValidationResult,
 } from "../format.interface.js";
 import type { TranslationFile } from "../translate.interface.js";
@@ -13,7 +14,7 @@ interface XliffTransUnit {
   "@_approved"?: string;
   "@_translate"?: string;
   source: string | { "#text": string };
-  target?: string | { "#text": string };
+  target?: string | { "#text": string; "@_state"?: string };
   note?: string | string[] | { "#text": string } | { "#text": string }[];
   [key: string]: any;
 }
@@ -40,6 +41,7 @@ interface XliffUnit {
 export class XliffHandler implements IFormatHandler {
   private parser: XMLParser;
   private builder: XMLBuilder;
+  private builderOptions: any;
 
   constructor() {
     this.parser = new XMLParser({
@@ -56,7 +58,7 @@ export class XliffHandler implements IFormatHandler {
       processEntities: true,
     });
 
-    this.builder = new XMLBuilder({
+    this.builderOptions = {
       ignoreAttributes: false,
       attributeNamePrefix: "@_",
       textNodeName: "#text",
@@ -67,7 +69,8 @@ export class XliffHandler implements IFormatHandler {
       cdataPropName: "#cdata",
       processEntities: true,
       suppressBooleanAttributes: false,
-    });
+    };
+    this.builder = new XMLBuilder(this.builderOptions);
   }
 
   canHandle(filePath: string, content?: string): boolean {
@@ -108,6 +111,12 @@ export class XliffHandler implements IFormatHandler {
       const transformed = version.startsWith("2.")
         ? this.transformXliff2x(parsed.xliff)
         : this.transformXliff12(parsed.xliff);
+      const needsReview = version.startsWith("2.")
+        ? this.findNeedsReview2x(parsed.xliff)
+        : this.findNeedsReview12(parsed.xliff);
+      const keyContexts = version.startsWith("2.")
+        ? this.findKeyContexts2x(parsed.xliff)
+        : this.findKeyContexts12(parsed.xliff);
 
       // Add metadata
       const result: EnhancedTranslationFile = {
@@ -120,6 +129,8 @@ export class XliffHandler implements IFormatHandler {
           originalStructure: parsed,
           preserveComments: true,
           preserveAttributes: true,
+          needsReview,
+          keyContexts,
         },
       };
 
@@ -140,16 +151,18 @@ export class XliffHandler implements IFormatHandler {
         xliffData = this.updateOriginalStructure(
           data._metadata.originalStructure,
           data,
+          options?.needsReview && new Set(options.needsReview),
         );
       } else {
         // Reconstruct XLIFF structure (default to 1.2 format)
-        xliffData = this.reconstructXliff12Structure(data);
+        xliffData = this.reconstructXliff12Structure(data, options);
       }
 
       // Apply formatting options
+      let builder = this.builder;
       if (options?.indentation) {
-        this.builder = new XMLBuilder({
-          ...this.builder,
+        builder = new XMLBuilder({
+          ...this.builderOptions,
           indentBy:
             typeof options.indentation === "string"
               ? options.indentation
@@ -157,7 +170,7 @@ export class XliffHandler implements IFormatHandler {
         });
       }
 
-      let result = this.builder.build(xliffData);
+      let result = builder.build(xliffData);
 
       // Add XML declaration if needed
       if (options?.xmlDeclaration !== false && !result.startsWith("<?xml")) {
@@ -354,6 +367,100 @@ export class XliffHandler implements IFormatHandler {
     return result;
   }
 
+  private toArray<T>(value: T | T[] | undefined): T[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+  }
+
+  /**
+   * Trans-units whose target needs work: `needs-review-translation` and the
+   * other `needs-*` states, unless the unit is approved.
+   */
+  private findNeedsReview12(xliff: any): string[] {
+    return this.toArray<XliffTransUnit>(xliff.file?.body?.["trans-unit"])
+      .filter(
+        (unit) =>
+          unit["@_id"] &&
+          unit["@_approved"] !== "yes" &&
+          typeof unit.target === "object" &&
+          unit.target["@_state"]?.startsWith("needs-"),
+      )
+      .map((unit) => unit["@_id"]);
+  }
+
+  /**
+   * Translated segments that were not reviewed yet: states `initial` and
+   * `translated`.
+   */
+  private findNeedsReview2x(xliff: any): string[] {
+    const keys: string[] = [];
+    for (const unit of this.toArray<XliffUnit>(xliff.file?.unit)) {
+      const segments = this.toArray<any>(unit.segment);
+      for (let i = 0; i < segments.length; i++) {
+        if (
+          unit["@_id"] &&
+          segments[i].target !== undefined &&
+          ["initial", "translated"].includes(segments[i]["@_state"])
+        ) {
+          keys.push(
+            segments.length > 1 ? `${unit["@_id"]}.${i}` : unit["@_id"],
+          );
+        }
+      }
+    }
+    return keys;
+  }
+
+  private getNotes(notes: unknown): string | undefined {
+    const text = this.toArray(notes)
+      .map((note) => this.extractTextContent(note).trim())
+      .filter((note) => note)
+      .join(" ");
+    return text || undefined;
+  }
+
+  /**
+   * Translation hints of the trans-units: their `<note>` elements and a
+   * `maxwidth` counted in characters.
+   */
+  private findKeyContexts12(xliff: any): Record<string, KeyContext> {
+    const contexts: Record<string, KeyContext> = {};
+    for (const unit of this.toArray<XliffTransUnit>(
+      xliff.file?.body?.["trans-unit"],
+    )) {
+      const keyContext: KeyContext = {};
+      const description = this.getNotes(unit.note);
+      if (description) {
+        keyContext.description = description;
+      }
+      if (unit["@_maxwidth"] && unit["@_size-unit"] === "char") {
+        keyContext.maxLength = Number(unit["@_maxwidth"]);
+      }
+      if (unit["@_id"] && Object.keys(keyContext).length > 0) {
+        contexts[unit["@_id"]] = keyContext;
+      }
+    }
+    return contexts;
+  }
+
+  /**
+   * Translation hints of the units: their `<notes>`, shared by the segments.
+   */
+  private findKeyContexts2x(xliff: any): Record<string, KeyContext> {
+    const contexts: Record<string, KeyContext> = {};
+    for (const unit of this.toArray<XliffUnit>(xliff.file?.unit)) {
+      const description = this.getNotes(unit.notes?.note);
+      if (!unit["@_id"] || !description) {
+        continue;
+      }
+      const segments = this.toArray<any>(unit.segment);
+      for (let i = 0; i < segments.length; i++) {
+        contexts[segments.length > 1 ? `${unit["@_id"]}.${i}` : unit["@_id"]] =
+          { description };
+      }
+    }
+    return contexts;
+  }
+
   private extractTextContent(element: any): string {
     if (typeof element === "string") {
       return element;
@@ -371,9 +478,15 @@ export class XliffHandler implements IFormatHandler {
     return "";
   }
 
+  /**
+   * Write the translations into the original structure. With `needsReview`,
+   * only the listed units are marked for review; without, every updated
+   * unit is marked not approved.
+   */
   private updateOriginalStructure(
     original: any,
     translated: TranslationFile,
+    needsReview?: Set<string>,
   ): any {
     // Deep clone the original structure
     const updated = JSON.parse(JSON.stringify(original));
@@ -385,9 +498,9 @@ export class XliffHandler implements IFormatHandler {
     const version = this.detectXliffVersion(updated.xliff);
 
     if (version.startsWith("2.")) {
-      this.updateXliff2xStructure(updated.xliff, translated);
+      this.updateXliff2xStructure(updated.xliff, translated, needsReview);
     } else {
-      this.updateXliff12Structure(updated.xliff, translated);
+      this.updateXliff12Structure(updated.xliff, translated, needsReview);
     }
 
     return updated;
@@ -396,6 +509,7 @@ export class XliffHandler implements IFormatHandler {
   private updateXliff12Structure(
     xliff: any,
     translations: TranslationFile,
+    needsReview?: Set<string>,
   ): void {
     if (!xliff.file || !xliff.file.body || !xliff.file.body["trans-unit"]) {
       return;
@@ -426,7 +540,12 @@ export class XliffHandler implements IFormatHandler {
         }
 
         // Update translation state
-        unit["@_approved"] = "no"; // Mark as not approved since it's a new translation
+        if (!needsReview) {
+          unit["@_approved"] = "no"; // Mark as not approved since it's a new translation
+        } else if (needsReview.has(id)) {
+          unit["@_approved"] = "no";
+          unit.target["@_state"] = "needs-review-translation";
+        }
       }
     }
   }
@@ -434,6 +553,7 @@ export class XliffHandler implements IFormatHandler {
   private updateXliff2xStructure(
     xliff: any,
     translations: TranslationFile,
+    needsReview?: Set<string>,
   ): void {
     if (!xliff.file || !xliff.file.unit) {
       return;
@@ -476,23 +596,51 @@ export class XliffHandler implements IFormatHandler {
           }
 
           // Update translation state
-          unit["@_approved"] = "no"; // Mark as not approved since it's a new translation
+          if (!needsReview) {
+            unit["@_approved"] = "no"; // Mark as not approved since it's a new translation
+          } else if (needsReview.has(segmentId)) {
+            unit["@_approved"] = "no";
+            segment["@_state"] = "translated";
+          }
         }
       }
     }
   }
 
-  private reconstructXliff12Structure(data: EnhancedTranslationFile): any {
+  private reconstructXliff12Structure(
+    data: EnhancedTranslationFile,
+    options?: FormatOptions,
+  ): any {
     // Remove metadata for reconstruction
     const { _metadata, ...cleanData } = data;
 
-    // Create XLIFF 1.2 structure
-    const transUnits = Object.entries(cleanData).map(([id, text]) => ({
-      "@_id": id,
-      "@_approved": "no",
-      source: { "#text": String(text) },
-      target: { "#text": String(text) },
-    }));
+    // Create XLIFF 1.2 structure; with `needsReview`, only machine
+    // translations are marked, other units carry no review state
+    const needsReview = options?.needsReview && new Set(options.needsReview);
+    const transUnits = Object.entries(cleanData).map(([id, text]) =>
+      !needsReview
+        ? {
+            "@_id": id,
+            "@_approved": "no",
+            source: { "#text": String(text) },
+            target: { "#text": String(text) },
+          }
+        : needsReview.has(id)
+          ? {
+              "@_id": id,
+              "@_approved": "no",
+              source: { "#text": String(text) },
+              target: {
+                "@_state": "needs-review-translation",
+                "#text": String(text),
+              },
+            }
+          : {
+              "@_id": id,
+              source: { "#text": String(text) },
+              target: { "#text": String(text) },
+            },
+    );
 
     return {
       xliff: {
@@ -500,8 +648,10 @@ export class XliffHandler implements IFormatHandler {
         "@_xmlns": "urn:oasis:names:tc:xliff:document:1.2",
         file: {
           "@_original": "unknown",
-          "@_source-language": _metadata?.sourceLanguage || "en",
-          "@_target-language": _metadata?.targetLanguage || "es",
+          "@_source-language":
+            _metadata?.sourceLanguage || options?.sourceLocale || "en",
+          "@_target-language":
+            _metadata?.targetLanguage || options?.locale || "es",
           "@_datatype": "plaintext",
           body: {
             "trans-unit": transUnits,
@@ -6,8 +6,14 @@ import type {
   IFormatHandler,
   ValidationResult,
 } from "../format.interface.js";
+import { adaptPluralForms, pluralCategories } from "../icu.js";
 import type { TranslationFile } from "../translate.interface.js";
 
+// Android `<xliff:g>` elements mark text that must not be translated
+const xliffTag = /<(\/?xliff:g\b[^>]*)>/g;
+const escapedXliffTag = /&lt;(\/?xliff:g\b[\s\S]*?)&gt;/g;
+const xliffNamespace = "urn:oasis:names:tc:xliff:document:1.2";
+
 export class XmlHandler implements IFormatHandler {
   private parser: XMLParser;
   private builder: XMLBuilder;
@@ -81,7 +87,10 @@ export class XmlHandler implements IFormatHandler {
       // Basic validation for malformed XML
       this.validateXmlStructure(content);
 
-      const parsed = this.parser.parse(content) as TranslationFile;
+      // xliff:g elements are read as text, to keep them inside the string
+      const parsed = this.parser.parse(
+        content.replace(xliffTag, "&lt;$1&gt;"),
+      ) as TranslationFile;
 
       // Detect XML format type
       const format = this.detectXmlFormat(content, parsed);
@@ -118,10 +127,11 @@ export class XmlHandler implements IFormatHandler {
         xmlData = this.updateOriginalStructure(
           data._metadata.originalStructure,
           data,
+          options?.locale,
         );
       } else {
         // Reconstruct XML structure
-        xmlData = this.reconstructXmlStructure(data);
+        xmlData = this.reconstructXmlStructure(data, options?.locale);
       }
 
       // Apply formatting options
@@ -136,7 +146,13 @@ export class XmlHandler implements IFormatHandler {
         });
       }
 
-      let result = currentBuilder.build(xmlData);
+      let result = currentBuilder
+        .build(xmlData)
+        .replace(
+          escapedXliffTag,
+          (_tag: string, inner: string) =>
+            `<${inner.replace(/&quot;/g, '"').replace(/&apos;/g, "'")}>`,
+        );
 
       // Add XML declaration if needed
       if (options?.xmlDeclaration !== false && !result.startsWith("<?xml")) {
@@ -267,7 +283,7 @@ export class XmlHandler implements IFormatHandler {
         ? resources.string
         : [resources.string];
       for (const str of strings) {
-        if (str["@_name"]) {
+        if (str["@_name"] && str["@_translatable"] !== "false") {
           const key = str["@_name"];
           // Handle different value formats: #text, #cdata, or direct string
           let value = str["#text"] || str["#cdata"];
@@ -304,6 +320,28 @@ export class XmlHandler implements IFormatHandler {
       }
     }
 
+    // plurals become an object of quantities: { one: "...", other: "..." }
+    for (const plurals of this.toArray(resources.plurals)) {
+      if (plurals["@_name"] && plurals["@_translatable"] !== "false") {
+        const quantities: Record<string, string> = {};
+        for (const item of this.toArray(plurals.item)) {
+          if (item["@_quantity"]) {
+            quantities[item["@_quantity"]] = this.getItemText(item);
+          }
+        }
+        result[plurals["@_name"]] = quantities;
+      }
+    }
+
+    // string arrays become arrays, translated item by item
+    for (const array of this.toArray(resources["string-array"])) {
+      if (array["@_name"] && array["@_translatable"] !== "false") {
+        result[array["@_name"]] = this.toArray(array.item).map((item) =>
+          this.getItemText(item),
+        );
+      }
+    }
+
     // Handle group elements (nested structure)
     if (resources.group) {
       const groups = Array.isArray(resources.group)
@@ -349,6 +387,85 @@ export class XmlHandler implements IFormatHandler {
     return result;
   }
 
+  private toArray(value: any): any[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+  }
+
+  // text of a plurals or string-array item: a string, or an element
+  // holding text and attributes
+  private getItemText(item: any): string {
+    if (typeof item === "string") {
+      return item;
+    }
+    return String(item?.["#text"] ?? item?.["#cdata"] ?? "");
+  }
+
+  private setItemText(items: any[], index: number, value: string): void {
+    const item = items[index];
+    if (typeof item !== "object" || item === null) {
+      items[index] = value;
+    } else if (item["#cdata"] !== undefined) {
+      item["#cdata"] = value;
+    } else {
+      item["#text"] = value;
+    }
+  }
+
+  private isPluralQuantities(value: any): boolean {
+    const quantities = Object.keys(value);
+    return (
+      quantities.includes("other") &&
+      quantities.every((quantity) => pluralCategories.includes(quantity))
+    );
+  }
+
+  /**
+   * Write translated plurals and string arrays into the original resources,
+   * keeping the attributes of their elements.
+   */
+  private updateAndroidResources(
+    resources: any,
+    translations: TranslationFile,
+    locale?: string,
+  ): void {
+    for (const plurals of this.toArray(resources.plurals)) {
+      const translated = translations[plurals["@_name"]];
+      if (typeof translated !== "object" || translated === null) {
+        continue;
+      }
+      const items = this.toArray(plurals.item);
+      const quantities = adaptPluralForms(
+        {
+          ...Object.fromEntries(
+            items.map((item) => [item["@_quantity"], this.getItemText(item)]),
+          ),
+          ...translated,
+        },
+        locale,
+      );
+      plurals.item = Object.entries(quantities).map(([quantity, text]) => {
+        const item = items.find((item) => item["@_quantity"] === quantity);
+        const updated = [item ? { ...item } : { "@_quantity": quantity }];
+        this.setItemText(updated, 0, text);
+        return updated[0];
+      });
+    }
+
+    for (const array of this.toArray(resources["string-array"])) {
+      const translated = translations[array["@_name"]];
+      if (!Array.isArray(translated) || array.item === undefined) {
+        continue;
+      }
+      const items = this.toArray(array.item);
+      translated.forEach((text, index) => {
+        if (index < items.length && typeof text === "string") {
+          this.setItemText(items, index, text);
+        }
+      });
+      array.item = items;
+    }
+  }
+
   private transformIosXml(parsed: any): TranslationFile {
     const result: TranslationFile = {};
 
@@ -430,10 +547,15 @@ export class XmlHandler implements IFormatHandler {
   private updateOriginalStructure(
     original: any,
     translated: TranslationFile,
+    locale?: string,
   ): any {
     // Deep clone the original structure
     const updated = JSON.parse(JSON.stringify(original));
 
+    if (typeof updated.resources === "object" && updated.resources !== null) {
+      this.updateAndroidResources(updated.resources, translated, locale);
+    }
+
     // Update translated values while preserving structure
     this.updateTranslatedValues(updated, translated);
 
@@ -450,7 +572,8 @@ export class XmlHandler implements IFormatHandler {
       for (const item of structure) {
         if (item["@_name"] && typeof item["@_name"] === "string") {
           const key = item["@_name"];
-          if (translations[key] !== undefined) {
+          // plurals, arrays and groups are written by their own code
+          if (typeof translations[key] === "string") {
             // Update the text content
             if (item["#text"] !== undefined) {
               item["#text"] = translations[key];
@@ -518,16 +641,40 @@ export class XmlHandler implements IFormatHandler {
     }
   }
 
-  private reconstructXmlStructure(data: EnhancedTranslationFile): any {
+  private reconstructXmlStructure(
+    data: EnhancedTranslationFile,
+    locale?: string,
+  ): any {
     // Remove metadata for reconstruction
     const { _metadata, ...cleanData } = data;
 
-    // We need to separate strings and groups
+    // We need to separate strings, plurals, string arrays and groups
     const strings: any[] = [];
+    const plurals: any[] = [];
+    const arrays: any[] = [];
     const groups: any[] = [];
 
     for (const [key, value] of Object.entries(cleanData)) {
-      if (typeof value === "object" && value !== null) {
+      if (Array.isArray(value)) {
+        arrays.push({
+          "@_name": key,
+          item: value.map((text) => ({ "#text": String(text) })),
+        });
+      } else if (
+        typeof value === "object" &&
+        value !== null &&
+        this.isPluralQuantities(value)
+      ) {
+        plurals.push({
+          "@_name": key,
+          item: Object.entries(adaptPluralForms(value, locale)).map(
+            ([quantity, text]) => ({
+              "@_quantity": quantity,
+              "#text": String(text),
+            }),
+          ),
+        });
+      } else if (typeof value === "object" && value !== null) {
         // handle group
         const groupStrings = Object.entries(value).map(([gKey, gValue]) => ({
           "@_name": gKey,
@@ -548,7 +695,12 @@ export class XmlHandler implements IFormatHandler {
 
     const resources: any = {};
     if (strings.length > 0) resources.string = strings;
+    if (plurals.length > 0) resources.plurals = plurals;
+    if (arrays.length > 0) resources["string-array"] = arrays;
     if (groups.length > 0) resources.group = groups;
+    if (JSON.stringify(cleanData).includes("<xliff:g")) {
+      resources["@_xmlns:xliff"] = xliffNamespace;
+    }
 
     return { resources };
   }
@@ -571,7 +723,11 @@ export class XmlHandler implements IFormatHandler {
     // Check for string elements - resources can be empty string or empty object
     if (
       typeof resources === "string" ||
-      (typeof resources === "object" && !resources.string && !resources.group)
+      (typeof resources === "object" &&
+        !resources.string &&
+        !resources.plurals &&
+        !resources["string-array"] &&
+        !resources.group)
     ) {
       warnings.push({
         code: "NO_STRINGS",
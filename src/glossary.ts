@@ -0,0 +1,253 @@
+import * as fs from "node:fs";
+import type { Logger } from "./config.js";
+import type {
+  BatchLimits,
+  GlossaryEntries,
+  ITranslate,
+} from "./translate.interface.js";
+import { Util } from "./util.js";
+
+export type GlossaryTerm = {
+  // keep the term as is in every locale
+  doNotTranslate?: boolean;
+  // fixed translation per target locale ("fr", "pt-BR", ...)
+  translations?: Record<string, string>;
+  // match the source term case-insensitively (default false)
+  ignoreCase?: boolean;
+};
+
+// source term -> rule
+export type GlossaryData = Record<string, GlossaryTerm>;
+
+export interface GlossaryViolation {
+  // key path, filled in by the caller
+  key?: string;
+  term: string;
+  expected: string;
+}
+
+type ProtectedText = {
+  text: string;
+  // expected target text per token index
+  replacements: string[];
+};
+
+const normalizeLocale = (locale: string) =>
+  locale.toLowerCase().replace(/_/g, "-");
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Project terminology: terms that must never be translated and terms with
+ * a fixed translation per target locale.
+ */
+export class Glossary {
+  private readonly patterns: Array<{ term: string; pattern: RegExp }>;
+
+  constructor(readonly terms: GlossaryData) {
+    // longer terms first so that "Pipeline Runner" wins over "Pipeline"
+    this.patterns = Object.keys(terms)
+      .sort((a, b) => b.length - a.length)
+      .map((term) => ({
+        term,
+        pattern: new RegExp(
+          `(?<![\\p{L}\\p{N}_])${escapeRegExp(term)}(?![\\p{L}\\p{N}_])`,
+          terms[term].ignoreCase ? "giu" : "gu",
+        ),
+      }));
+  }
+
+  static load(filePath: string): Glossary {
+    const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    if (data === null || typeof data !== "object" || Array.isArray(data)) {
+      throw new Error(`Glossary ${filePath} must contain a JSON object`);
+    }
+    return new Glossary(data);
+  }
+
+  /**
+   * Expected target text of every term that applies to `targetLocale`.
+   * Fixed translations are looked up by locale, then by base language.
+   */
+  entriesFor(targetLocale: string): GlossaryEntries {
+    const locale = normalizeLocale(targetLocale);
+    const language = locale.split("-")[0];
+    const entries: GlossaryEntries = {};
+
+    for (const [term, rule] of Object.entries(this.terms)) {
+      if (rule.doNotTranslate) {
+        entries[term] = term;
+        continue;
+      }
+      const translations = Object.entries(rule.translations ?? {});
+      const translation =
+        translations.find(([key]) => normalizeLocale(key) === locale) ??
+        translations.find(([key]) => normalizeLocale(key) === language);
+      if (translation) {
+        entries[term] = translation[1];
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Replace glossary terms with placeholders that engines leave untouched.
+   */
+  protect(text: string, entries: GlossaryEntries): ProtectedText {
+    const replacements: string[] = [];
+    for (const { term, pattern } of this.patterns) {
+      if (entries[term] === undefined) {
+        continue;
+      }
+      text = text.replace(pattern, () => {
+        replacements.push(entries[term]);
+        return Glossary.token(replacements.length - 1);
+      });
+    }
+    return { text, replacements };
+  }
+
+  /**
+   * Put the expected target text back in place of the placeholders.
+   */
+  restore(text: string, replacements: string[]): string {
+    for (let index = 0; index < replacements.length; index++) {
+      text = text.split(Glossary.token(index)).join(replacements[index]);
+    }
+    return text;
+  }
+
+  /**
+   * List the terms of `source` whose expected target text is missing from
+   * `translation`.
+   */
+  check(
+    source: string,
+    translation: string,
+    targetLocale: string,
+  ): GlossaryViolation[] {
+    const entries = this.entriesFor(targetLocale);
+    const violations: GlossaryViolation[] = [];
+    for (const { term, pattern } of this.patterns) {
+      const expected = entries[term];
+      pattern.lastIndex = 0;
+      if (expected === undefined || !pattern.test(source)) {
+        continue;
+      }
+      const found = this.terms[term].ignoreCase
+        ? translation.toLowerCase().includes(expected.toLowerCase())
+        : translation.includes(expected);
+      if (!found) {
+        violations.push({ term, expected });
+      }
+    }
+    return violations;
+  }
+
+  private static token(index: number): string {
+    return `${Util.startDelimiter}atj_term_${index}${Util.endDelimiter}`;
+  }
+}
+
+/**
+ * Decorates an engine so that glossary terms are protected before the text
+ * is sent and restored afterwards. Engines that support native glossaries
+ * get the entries registered once per language pair instead.
+ */
+export class GlossaryTranslate implements ITranslate {
+  readonly batchLimits?: BatchLimits;
+  translateBatch?: ITranslate["translateBatch"];
+  private nativeGlossaries = new Map<string, Promise<boolean>>();
+
+  constructor(
+    private engine: ITranslate,
+    private glossary: Glossary,
+    private logger: Logger = console,
+  ) {
+    this.batchLimits = engine.batchLimits;
+    if (engine.translateBatch) {
+      const translateBatch = engine.translateBatch.bind(engine);
+      this.translateBatch = async (
+        texts,
+        sourceLocale,
+        targetLocale,
+        contexts,
+        keys,
+      ) => {
+        const entries = await this.prepare(sourceLocale, targetLocale);
+        const protectedTexts = texts.map((text) =>
+          this.glossary.protect(text, entries),
+        );
+        const translations = await translateBatch(
+          protectedTexts.map(({ text }) => text),
+          sourceLocale,
+          targetLocale,
+          contexts,
+          keys,
+        );
+        return translations.map((translation, index) =>
+          this.glossary.restore(
+            translation,
+            protectedTexts[index]?.replacements ?? [],
+          ),
+        );
+      };
+    }
+  }
+
+  isValidLocale(targetLocale: string): boolean {
+    return this.engine.isValidLocale(targetLocale);
+  }
+
+  async translateText(
+    text: string,
+    sourceLocale: string,
+    targetLocale: string,
+    context?: string,
+    key?: string,
+  ): Promise<string> {
+    const entries = await this.prepare(sourceLocale, targetLocale);
+    const { text: protectedText, replacements } = this.glossary.protect(
+      text,
+      entries,
+    );
+    const translation = await this.engine.translateText(
+      protectedText,
+      sourceLocale,
+      targetLocale,
+      context,
+      key,
+    );
+    return this.glossary.restore(translation, replacements);
+  }
+
+  /**
+   * Entries the core has to protect itself for this language pair: none
+   * when the engine enforces the glossary natively.
+   */
+  private async prepare(
+    sourceLocale: string,
+    targetLocale: string,
+  ): Promise<GlossaryEntries> {
+    const entries = this.glossary.entriesFor(targetLocale);
+    if (!this.engine.useGlossary || Object.keys(entries).length === 0) {
+      return entries;
+    }
+
+    const pair = `${sourceLocale}:${targetLocale}`;
+    let native = this.nativeGlossaries.get(pair);
+    if (!native) {
+      native = this.engine
+        .useGlossary(entries, sourceLocale, targetLocale)
+        .catch((error) => {
+          this.logger.warn(
+            `Native glossary unavailable for ${pair}, protecting terms instead: ${error}`,
+          );
+          return false;
+        });
+      this.nativeGlossaries.set(pair, native);
+    }
+    return (await native) ? {} : entries;
+  }
+}
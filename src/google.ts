@@ -1,12 +1,18 @@
 import { v2 as translate } from "@google-cloud/translate";
+import { LocaleMapper } from "./locale.js";
+import { Placeholders } from "./placeholders.js";
 import type { ITranslate } from "./translate.interface.js";
-import { Util } from "./util.js";
 
 export class GoogleTranslate implements ITranslate {
+  // https://cloud.google.com/translate/quotas
+  readonly batchLimits = { maxItems: 128, maxCharacters: 30000 };
+  private readonly locales: LocaleMapper;
   private constructor(
     private googleTranslate: translate.Translate,
-    private supportedLanguages: string[] = [],
-  ) {}
+    supportedLanguages: string[] = [],
+  ) {
+    this.locales = new LocaleMapper("google", supportedLanguages);
+  }
 
   static async initialize(apiKey: string): Promise<GoogleTranslate> {
     const googleTranslate = new translate.Translate({ key: apiKey });
@@ -25,7 +31,7 @@ export class GoogleTranslate implements ITranslate {
   }
 
   isValidLocale(targetLocale: string): boolean {
-    return this.supportedLanguages.includes(targetLocale);
+    return this.locales.toEngine(targetLocale) !== undefined;
   }
 
   async translateText(
@@ -33,29 +39,44 @@ export class GoogleTranslate implements ITranslate {
     _sourceLocale: string,
     targetLocale: string,
   ): Promise<string> {
-    let args: RegExpMatchArray | null;
-    ({ args, text } = Util.replaceContextVariables(text));
+    let tokens: string[];
+    ({ tokens, text } = Placeholders.protect(text));
 
-    let result = "";
+    let result: string;
 
     try {
-      const response = await this.googleTranslate.translate(text, targetLocale);
+      const response = await this.googleTranslate.translate(
+        text,
+        this.locales.toEngine(targetLocale) ?? targetLocale,
+      );
       result = response[0];
     } catch (error) {
-      if (error instanceof Error) {
-        let message = error.message;
-        if (error.message === "Invalid Value") {
-          message = `Invalid Locale ${targetLocale}`;
-        }
-        console.error(message);
-        return message;
+      if (error instanceof Error && error.message === "Invalid Value") {
+        throw new Error(`Invalid Locale ${targetLocale}`);
       }
-      return "error";
+      throw error;
     }
 
-    // replace arguments with numbers
-    result = Util.replaceArgumentsWithNumbers(args, result);
+    // put the placeholders back
+    result = Placeholders.restore(result, tokens);
 
     return result;
   }
+
+  async translateBatch(
+    texts: string[],
+    _sourceLocale: string,
+    targetLocale: string,
+  ): Promise<string[]> {
+    const replaced = texts.map((text) => Placeholders.protect(text));
+
+    const [translations] = await this.googleTranslate.translate(
+      replaced.map(({ text }) => text),
+      this.locales.toEngine(targetLocale) ?? targetLocale,
+    );
+
+    return translations.map((translation, index) =>
+      Placeholders.restore(translation, replaced[index].tokens),
+    );
+  }
 }
@@ -1,5 +1,6 @@
+import { LocaleMapper } from "./locale.js";
+import { Placeholders } from "./placeholders.js";
 import type { ITranslate } from "./translate.interface.js";
-import { Util } from "./util.js";
 
 const supportedLanguages: Record<string, string> = {
   en: "English",
@@ -36,6 +37,8 @@ const supportedLanguages: Record<string, string> = {
 
 export class HuggingFaceLocalTranslate implements ITranslate {
   private pipelinePromise: Promise<any> | null = null;
+  // any code is sent as is, unless the user mapped it
+  private readonly locales = new LocaleMapper("huggingface-local");
 
   constructor(private model: string) {}
 
@@ -53,13 +56,10 @@ export class HuggingFaceLocalTranslate implements ITranslate {
     return this.pipelinePromise;
   }
 
-  private sanitizeResult(
-    result: string,
-    args: RegExpMatchArray | null,
-  ): string {
-    return Util.replaceArgumentsWithNumbers(
-      args,
+  private sanitizeResult(result: string, tokens: string[]): string {
+    return Placeholders.restore(
       result.replace(/^\n+|\n+$/g, "").trim(),
+      tokens,
     );
   }
 
@@ -67,13 +67,13 @@ export class HuggingFaceLocalTranslate implements ITranslate {
     text: string,
     sourceLocale: string,
     targetLocale: string,
-    args: RegExpMatchArray | null,
+    tokens: string[],
   ): Promise<string> {
     const translator = await this.getPipeline();
 
     const output = await translator(text, {
-      src_lang: sourceLocale,
-      tgt_lang: targetLocale,
+      src_lang: this.locales.toEngine(sourceLocale) ?? sourceLocale,
+      tgt_lang: this.locales.toEngine(targetLocale) ?? targetLocale,
     });
 
     const result =
@@ -81,7 +81,7 @@ export class HuggingFaceLocalTranslate implements ITranslate {
         ? (output[0] as { translation_text: string }).translation_text
         : (output as { translation_text: string }).translation_text;
 
-    return this.sanitizeResult(result, args);
+    return this.sanitizeResult(result, tokens);
   }
 
   async translateText(
@@ -90,14 +90,14 @@ export class HuggingFaceLocalTranslate implements ITranslate {
     targetLocale: string,
     _context?: string,
   ): Promise<string> {
-    let args: RegExpMatchArray | null;
-    ({ args, text } = Util.replaceContextVariables(text));
+    let tokens: string[];
+    ({ tokens, text } = Placeholders.protect(text));
 
     return this.translateWithTranslationPipeline(
       text,
       sourceLocale,
       targetLocale,
-      args,
+      tokens,
     );
   }
 }
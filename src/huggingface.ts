@@ -2,8 +2,9 @@ import {
   InferenceClient,
   type InferenceProviderOrPolicy,
 } from "@huggingface/inference";
+import { LocaleMapper } from "./locale.js";
+import { Placeholders } from "./placeholders.js";
 import type { ITranslate } from "./translate.interface.js";
-import { Util } from "./util.js";
 
 const supportedLanguages: Record<string, string> = {
   en: "English",
@@ -40,6 +41,8 @@ const supportedLanguages: Record<string, string> = {
 
 export class HuggingFaceTranslate implements ITranslate {
   private client: InferenceClient;
+  // any code is sent as is, unless the user mapped it
+  private readonly locales = new LocaleMapper("huggingface");
 
   constructor(
     apiKey: string,
@@ -58,12 +61,9 @@ export class HuggingFaceTranslate implements ITranslate {
     return supportedLanguages[locale] ?? locale;
   }
 
-  private sanitizeResult(
-    result: string,
-    args: RegExpMatchArray | null,
-  ): string {
+  private sanitizeResult(result: string, tokens: string[]): string {
     const trimmedResult = result.replace(/^\n+|\n+$/g, "").trim();
-    return Util.replaceArgumentsWithNumbers(args, trimmedResult);
+    return Placeholders.restore(trimmedResult, tokens);
   }
 
   async translateText(
@@ -72,16 +72,16 @@ export class HuggingFaceTranslate implements ITranslate {
     targetLocale: string,
     _context?: string,
   ): Promise<string> {
-    let args: RegExpMatchArray | null;
-    ({ args, text } = Util.replaceContextVariables(text));
+    let tokens: string[];
+    ({ tokens, text } = Placeholders.protect(text));
 
     const response = await this.client.translation({
       model: this.model,
       provider: this.provider,
       inputs: text,
       parameters: {
-        src_lang: sourceLocale,
-        tgt_lang: targetLocale,
+        src_lang: this.locales.toEngine(sourceLocale) ?? sourceLocale,
+        tgt_lang: this.locales.toEngine(targetLocale) ?? targetLocale,
       },
     });
 
@@ -92,6 +92,6 @@ export class HuggingFaceTranslate implements ITranslate {
       result = (response as { translation_text: string }).translation_text;
     }
 
-    return this.sanitizeResult(result, args);
+    return this.sanitizeResult(result, tokens);
   }
 }
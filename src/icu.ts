@@ -0,0 +1,410 @@
+import { Util } from "./util.js";
+
+type IcuChoiceType = "plural" | "selectordinal" | "select";
+
+export type IcuNode =
+  | { type: "text"; value: string }
+  // simple argument kept as written: {name}, {count, number}
+  | { type: "argument"; value: string }
+  // `#` inside a plural branch
+  | { type: "pound" }
+  | {
+      type: IcuChoiceType;
+      name: string;
+      offset?: string;
+      branches: IcuBranch[];
+    };
+
+export type IcuBranch = { selector: string; nodes: IcuNode[] };
+
+type IcuChoice = Extract<IcuNode, { branches: IcuBranch[] }>;
+
+// CLDR order of the plural categories
+export const pluralCategories = ["zero", "one", "two", "few", "many", "other"];
+
+/**
+ * Plural categories a locale uses, in CLDR order, or `undefined` when the
+ * runtime does not know the locale.
+ */
+export function getPluralCategories(
+  locale: string,
+  type: "plural" | "selectordinal" = "plural",
+): string[] | undefined {
+  try {
+    const categories = new Intl.PluralRules(locale.replace(/_/g, "-"), {
+      type: type === "plural" ? "cardinal" : "ordinal",
+    }).resolvedOptions().pluralCategories;
+    return pluralCategories.filter((category) =>
+      categories.includes(category as Intl.LDMLPluralRule),
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Plural forms of a text (category -> text) for a locale: categories the
+ * locale does not use are dropped and missing ones are copied from
+ * `other`. Categories listed in `keep` stay whatever the locale.
+ */
+export function adaptPluralForms(
+  forms: Record<string, string>,
+  locale: string | undefined,
+  keep: string[] = [],
+): Record<string, string> {
+  const categories = locale && getPluralCategories(locale);
+  if (!categories || forms.other === undefined) {
+    return forms;
+  }
+  return Object.fromEntries(
+    pluralCategories
+      .filter(
+        (category) =>
+          categories.includes(category) ||
+          (keep.includes(category) && forms[category] !== undefined),
+      )
+      .map((category) => [category, forms[category] ?? forms.other]),
+  );
+}
+
+const choicePattern =
+  /\{\s*[^\s,{}]+\s*,\s*(?:plural|selectordinal|select)\s*,/;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Recursive descent parser for ICU MessageFormat. Literal text and simple
+ * arguments are kept as written, apostrophe quoting included, so that
+ * printing a parsed message only normalizes the spacing of choices.
+ */
+class IcuParser {
+  private index = 0;
+
+  constructor(private readonly message: string) {}
+
+  parse(): IcuNode[] {
+    return this.parseMessage(false, false);
+  }
+
+  private parseMessage(inPlural: boolean, nested: boolean): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) {
+        nodes.push({ type: "text", value: text });
+        text = "";
+      }
+    };
+
+    while (this.index < this.message.length) {
+      const char = this.message[this.index];
+      if (char === "}") {
+        if (!nested) {
+          throw new Error(`Unexpected '}' at ${this.index}`);
+        }
+        flush();
+        return nodes;
+      }
+      if (char === "{") {
+        flush();
+        nodes.push(this.parseArgument(inPlural));
+      } else if (char === "#" && inPlural) {
+        flush();
+        nodes.push({ type: "pound" });
+        this.index++;
+      } else if (char === "'") {
+        text += this.parseQuoted();
+      } else {
+        text += char;
+        this.index++;
+      }
+    }
+
+    if (nested) {
+      throw new Error("Unterminated branch");
+    }
+    flush();
+    return nodes;
+  }
+
+  // '' is an apostrophe, '{...}' quotes syntax characters
+  private parseQuoted(): string {
+    const next = this.message[this.index + 1];
+    let end = this.index + 1;
+    if (next === "'") {
+      end = this.index + 2;
+    } else if (next === "{" || next === "}" || next === "#" || next === "|") {
+      const closing = this.message.indexOf("'", this.index + 1);
+      end = closing === -1 ? this.message.length : closing + 1;
+    }
+    const quoted = this.message.slice(this.index, end);
+    this.index = end;
+    return quoted;
+  }
+
+  private parseArgument(inPlural: boolean): IcuNode {
+    const start = this.index;
+    const header = /\{\s*([^\s,{}]+)\s*(?:,\s*(\w+)\s*)?/y;
+    header.lastIndex = start;
+    const match = header.exec(this.message);
+    if (!match) {
+      throw new Error(`Invalid argument at ${start}`);
+    }
+    this.index = header.lastIndex;
+
+    const [, name, type] = match;
+    if (type !== "plural" && type !== "selectordinal" && type !== "select") {
+      this.skipBalanced();
+      return { type: "argument", value: this.message.slice(start, this.index) };
+    }
+
+    this.expect(",");
+    const choice: IcuChoice = { type, name, branches: [] };
+    if (type !== "select") {
+      const offset = /\s*offset\s*:\s*(\d+)/y;
+      offset.lastIndex = this.index;
+      const offsetMatch = offset.exec(this.message);
+      if (offsetMatch) {
+        choice.offset = offsetMatch[1];
+        this.index = offset.lastIndex;
+      }
+    }
+
+    const selector = /\s*(=\d+|[^\s{}]+)\s*\{/y;
+    for (;;) {
+      this.skipWhitespace();
+      if (this.message[this.index] === "}") {
+        this.index++;
+        break;
+      }
+      selector.lastIndex = this.index;
+      const selectorMatch = selector.exec(this.message);
+      if (!selectorMatch) {
+        throw new Error(`Invalid ${type} branch at ${this.index}`);
+      }
+      this.index = selector.lastIndex;
+      const nodes = this.parseMessage(inPlural || type !== "select", true);
+      this.expect("}");
+      choice.branches.push({ selector: selectorMatch[1], nodes });
+    }
+
+    if (choice.branches.length === 0) {
+      throw new Error(`Empty ${type} at ${start}`);
+    }
+    return choice;
+  }
+
+  // move past the closing brace of a simple argument with a style
+  private skipBalanced(): void {
+    let depth = 1;
+    while (this.index < this.message.length && depth > 0) {
+      const char = this.message[this.index++];
+      if (char === "{") {
+        depth++;
+      } else if (char === "}") {
+        depth--;
+      }
+    }
+    if (depth > 0) {
+      throw new Error("Unterminated argument");
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.message[this.index] ?? "")) {
+      this.index++;
+    }
+  }
+
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (this.message[this.index] !== char) {
+      throw new Error(`Expected '${char}' at ${this.index}`);
+    }
+    this.index++;
+  }
+}
+
+/**
+ * An ICU message with plural, selectordinal or select arguments. Only the
+ * literal text of the message is translated: every run of text between the
+ * choices becomes a segment, in which `#` is replaced by a placeholder.
+ * Translated segments are put back into the structure, which stays valid
+ * ICU whatever the engine returns.
+ */
+export class IcuMessage {
+  private constructor(readonly nodes: IcuNode[]) {}
+
+  /**
+   * Parse a message containing at least one choice. Returns `undefined`
+   * for plain strings and for messages that are not valid ICU.
+   */
+  static parse(message: string): IcuMessage | undefined {
+    if (!choicePattern.test(message)) {
+      return undefined;
+    }
+    try {
+      return new IcuMessage(new IcuParser(message).parse());
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Copy of the message with the plural branches the target locale needs:
+   * categories the locale does not use are dropped and missing ones are
+   * filled in from the `other` branch. Exact matches (`=0`) are kept.
+   */
+  forLocale(locale: string): IcuMessage {
+    return new IcuMessage(IcuMessage.adapt(this.nodes, locale));
+  }
+
+  /**
+   * Distinct texts to translate, in order of appearance.
+   */
+  segments(): string[] {
+    return [...this.namedSegments().values()];
+  }
+
+  /**
+   * Distinct texts to translate by name: the selectors of the branch
+   * holding the text (`one`, `female.other`), or `text` outside the
+   * choices. Further texts of the same branch are numbered (`one.2`). A
+   * text found in several branches is named after the first one, or after
+   * `other` when the branches were copied from it.
+   */
+  namedSegments(): Map<string, string> {
+    const selectorsByText = new Map<string, string[]>();
+    IcuMessage.print(this.nodes, (segment, selectors) => {
+      const known = selectorsByText.get(segment);
+      if (
+        !known ||
+        (known.at(-1) !== "other" && selectors.at(-1) === "other")
+      ) {
+        selectorsByText.set(segment, selectors);
+      }
+      return segment;
+    });
+
+    const named = new Map<string, string>();
+    for (const [text, selectors] of selectorsByText) {
+      const base = selectors.join(".") || "text";
+      let name = base;
+      for (let n = 2; named.has(name); n++) {
+        name = `${base}.${n}`;
+      }
+      named.set(name, text);
+    }
+    return named;
+  }
+
+  /**
+   * Print the message, replacing every segment with its translation.
+   */
+  format(translate: (segment: string) => string = (segment) => segment) {
+    return IcuMessage.print(this.nodes, translate);
+  }
+
+  private static adapt(nodes: IcuNode[], locale: string): IcuNode[] {
+    return nodes.map((node) => {
+      if (!("branches" in node)) {
+        return node;
+      }
+      const branches = node.branches.map((branch) => ({
+        selector: branch.selector,
+        nodes: IcuMessage.adapt(branch.nodes, locale),
+      }));
+      const categories =
+        node.type === "select"
+          ? undefined
+          : getPluralCategories(locale, node.type);
+      const other = branches.find((branch) => branch.selector === "other");
+      if (!categories || !other) {
+        return { ...node, branches };
+      }
+
+      const exact = branches.filter((branch) =>
+        branch.selector.startsWith("="),
+      );
+      const regenerated = pluralCategories
+        .filter((category) => categories.includes(category))
+        .map(
+          (category) =>
+            branches.find((branch) => branch.selector === category) ?? {
+              selector: category,
+              nodes: other.nodes,
+            },
+        );
+      return { ...node, branches: [...exact, ...regenerated] };
+    });
+  }
+
+  private static print(
+    nodes: IcuNode[],
+    translate: (segment: string, selectors: string[]) => string,
+    selectors: string[] = [],
+  ): string {
+    const pound = `${Util.startDelimiter}#${Util.endDelimiter}`;
+    let output = "";
+    let run: IcuNode[] = [];
+
+    const flush = () => {
+      if (run.length === 0) {
+        return;
+      }
+      const nodes = run;
+      run = [];
+      const segment = nodes
+        .map((node) =>
+          node.type === "pound" ? pound : "value" in node ? node.value : "",
+        )
+        .join("");
+      // literal text that looks like the token is left alone
+      const restorePound = (text: string) =>
+        nodes.some((node) => node.type === "pound")
+          ? text.replace(
+              new RegExp(
+                `${escapeRegExp(Util.startDelimiter)}\\s*#\\s*${escapeRegExp(Util.endDelimiter)}`,
+                "g",
+              ),
+              "#",
+            )
+          : text;
+
+      const translatable = nodes.some(
+        (node) => node.type === "text" && /\p{L}/u.test(node.value),
+      );
+      if (!translatable) {
+        output += restorePound(segment);
+        return;
+      }
+      // engines drop surrounding whitespace, so it is kept out of the segment
+      const [, leading, text, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(
+        segment,
+      ) as RegExpExecArray;
+      output += leading + restorePound(translate(text, selectors)) + trailing;
+    };
+
+    for (const node of nodes) {
+      if (!("branches" in node)) {
+        run.push(node);
+        continue;
+      }
+      flush();
+      const offset = node.offset ? ` offset:${node.offset}` : "";
+      const branches = node.branches
+        .map(
+          (branch) =>
+            `${branch.selector} {${IcuMessage.print(branch.nodes, translate, [
+              ...selectors,
+              branch.selector,
+            ])}}`,
+        )
+        .join(" ");
+      output += `{${node.name}, ${node.type},${offset} ${branches}}`;
+    }
+    flush();
+    return output;
+  }
+}
@@ -1,9 +1,62 @@
 import type { InferenceProviderOrPolicy } from "@huggingface/inference";
 import { Configuration } from "./config.js";
-import { translate } from "./lib.js";
+import { planTranslation, translate } from "./lib.js";
 
+export type {
+  EngineKeyInfo,
+  ExternalTranslationKey,
+  Logger,
+  TranslationKeyInfo,
+} from "./config.js";
+export type { EngineRoute, EngineRoutes } from "./engine-routing.js";
+export {
+  type ChainedEngine,
+  type EngineTranslation,
+  FallbackTranslate,
+} from "./fallback.js";
+export type {
+  GlossaryData,
+  GlossaryTerm,
+  GlossaryViolation,
+} from "./glossary.js";
+export {
+  type LocaleConfiguration,
+  LocaleMapper,
+  Locales,
+  type ParsedLocale,
+} from "./locale.js";
+export type { OpenAIPrompts, OpenAIStructuredMode } from "./openai.js";
+export {
+  type PlaceholderConfiguration,
+  type PlaceholderPolicy,
+  Placeholders,
+} from "./placeholders.js";
+export { TranslateEngineFactory } from "./provider-factory.js";
+export type { PseudoMode, PseudoOptions } from "./pseudo.js";
+export type {
+  EngineConfigSchema,
+  EngineOption,
+  TranslateEngineDefinition,
+} from "./translate-engine-factory.js";
+export type {
+  BeforeTranslateResult,
+  KeyEvent,
+  LocaleSavedEvent,
+  LocaleStartEvent,
+  TranslatedKeyEvent,
+  TranslationErrorEvent,
+  TranslationHooks,
+} from "./translation-hooks.js";
+export type { LocalePlan, TranslationPlan } from "./translation-plan.js";
+export type {
+  KeyFailure,
+  LocaleResult,
+  LocaleStatus,
+  PlaceholderViolation,
+  TranslationRunResult,
+} from "./translation-result.js";
 export type { Configuration };
-export { translate };
+export { planTranslation, translate };
 
 const config: Configuration = {} as Configuration;
 
@@ -58,6 +111,8 @@ function setConfigurationFromCLI() {
     config.keepTranslations = "keep";
   } else if (argv.keepTranslations === "retranslate") {
     config.keepTranslations = "retranslate";
+  } else if (argv.keepTranslations === "retranslate-changed") {
+    config.keepTranslations = "retranslate-changed";
   }
 
   if (argv.sourceLocale !== undefined) {
@@ -68,6 +123,10 @@ function setConfigurationFromCLI() {
     config.ignorePrefix = argv.ignorePrefix;
   }
 
+  if (argv.glossary !== undefined) {
+    config.glossary = argv.glossary;
+  }
+
   if (argv.pivotTranslation !== undefined) {
     translate(argv.pivotTranslation, config);
   } else {
@@ -191,7 +250,8 @@ function setConfigurationFromEnvironment() {
   if (
     process.env.ATJ_KEEP_TRANSLATIONS &&
     (process.env.ATJ_KEEP_TRANSLATIONS === "keep" ||
-      process.env.ATJ_KEEP_TRANSLATIONS === "retranslate")
+      process.env.ATJ_KEEP_TRANSLATIONS === "retranslate" ||
+      process.env.ATJ_KEEP_TRANSLATIONS === "retranslate-changed")
   ) {
     config.keepTranslations = process.env.ATJ_KEEP_TRANSLATIONS;
   }
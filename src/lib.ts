@@ -1,14 +1,101 @@
-import type { Configuration } from "./config.js";
+import { translateInBatches } from "./batch.js";
+import { CatalogFiles } from "./catalogFiles.js";
+import type { Configuration, Logger } from "./config.js";
+import { resolveEngineRoute } from "./engine-routing.js";
+import { type EngineTranslation, FallbackTranslate } from "./fallback.js";
 import { Files, type IFiles } from "./files.js";
 import { FolderFiles } from "./folderFiles.js";
-import { createTranslateEngine } from "./provider-factory.js";
+import type { KeyContext } from "./format.interface.js";
+import {
+  Glossary,
+  GlossaryTranslate,
+  type GlossaryViolation,
+} from "./glossary.js";
+import { IcuMessage } from "./icu.js";
+import { Locales } from "./locale.js";
+import { type PlaceholderPolicy, Placeholders } from "./placeholders.js";
+import { createTranslateEngine, getEngineId } from "./provider-factory.js";
+import {
+  mapWithConcurrency,
+  ScheduledTranslate,
+  TranslationScheduler,
+} from "./scheduler.js";
 import type { ITranslate, TranslationFile } from "./translate.interface.js";
+import { TranslateEngineFactory } from "./translate-engine-factory.js";
+import type {
+  TranslatedKeyEvent,
+  TranslationErrorEvent,
+  TranslationHooks,
+} from "./translation-hooks.js";
+import {
+  checkSourceChanged,
+  keepPreviousHash,
+  type LocaleLock,
+  TranslationLock,
+} from "./translation-lock.js";
+import { TranslationMemory } from "./translation-memory.js";
+import {
+  DryRunTranslate,
+  printTranslationPlan,
+  type TranslationPlan,
+} from "./translation-plan.js";
+import {
+  getRunStatus,
+  type KeyFailure,
+  type LocaleResult,
+  type PlaceholderViolation,
+  type TranslationRunResult,
+} from "./translation-result.js";
 import { Util } from "./util.js";
 
 export async function translate(
   sourceFile: string,
   config: Configuration,
-): Promise<void> {
+): Promise<TranslationRunResult> {
+  const result = await runTranslation(sourceFile, config);
+  if (result.plan) {
+    printTranslationPlan(result.plan, config.logger);
+  }
+  return result;
+}
+
+/**
+ * Work out what a translation run would do without calling any engine or
+ * writing any file.
+ */
+export async function planTranslation(
+  sourceFile: string,
+  config: Configuration,
+): Promise<TranslationPlan | undefined> {
+  const result = await runTranslation(sourceFile, { ...config, dryRun: true });
+  return result.plan;
+}
+
+async function runTranslation(
+  sourceFile: string,
+  config: Configuration,
+): Promise<TranslationRunResult> {
+  const logger = config.logger ?? console;
+  const hooks = config.hooks;
+  const startTime = Date.now();
+  const engineId = getEngineId(config.translationKeyInfo);
+  const locales: LocaleResult[] = [];
+
+  const finish = (
+    fields: Partial<TranslationRunResult> = {},
+  ): TranslationRunResult => {
+    const endTime = Date.now();
+    return {
+      status: fields.error ? "failed" : getRunStatus(locales),
+      engine: engineId,
+      locales,
+      startTime,
+      endTime,
+      durationMs: endTime - startTime,
+      ...fields,
+    };
+  };
+
   // set the delimiters for named arguments
   const startDelimiter = config.startDelimiter || "{";
   if (startDelimiter) {
@@ -20,123 +107,474 @@ export async function translate(
     Util.endDelimiter = endDelimiter;
   }
 
-  let translateEngine: ITranslate;
+  let glossary: Glossary | undefined;
+  try {
+    glossary =
+      typeof config.glossary === "string"
+        ? Glossary.load(config.glossary)
+        : config.glossary && new Glossary(config.glossary);
+  } catch (error) {
+    const message = `Glossary unreadable: ${error instanceof Error ? error.message : error}`;
+    logger.error(`❌ ${message}`);
+    return finish({ error: message });
+  }
 
   try {
-    translateEngine = await createTranslateEngine(config);
+    await TranslateEngineFactory.loadModules(config.engineModules ?? []);
   } catch (error) {
-    if (error instanceof Error) {
-      console.warn(error.message);
-    } else {
-      console.warn(
-        "You must provide a Google, AWS, Azure, deepL, openai, huggingface, or huggingface-local parameters first in the extension settings.",
-      );
-    }
-    return;
+    const message = `Engine module unreadable: ${error instanceof Error ? error.message : error}`;
+    logger.error(`❌ ${message}`);
+    return finish({ error: message });
+  }
+
+  // engines of the same provider share a scheduler, whichever route or
+  // fallback chain they belong to
+  const schedulers = new Map<string, TranslationScheduler>();
+  const createEngine = (engineConfig: Configuration) =>
+    config.dryRun
+      ? Promise.resolve<ITranslate>(new DryRunTranslate())
+      : createTranslateEngine(engineConfig, (engine, translationKeyInfo) => {
+          const { kind } = translationKeyInfo;
+          let scheduler = schedulers.get(kind);
+          if (!scheduler) {
+            scheduler = new TranslationScheduler(
+              config.scheduler,
+              kind,
+              logger,
+            );
+            schedulers.set(kind, scheduler);
+          }
+          const scheduled = new ScheduledTranslate(engine, scheduler);
+          return glossary
+            ? new GlossaryTranslate(scheduled, glossary, logger)
+            : scheduled;
+        });
+
+  let defaultEngine: ITranslate;
+
+  try {
+    defaultEngine = await createEngine(config);
+  } catch (error) {
+    const message =
+      error instanceof Error
+        ? error.message
+        : "You must provide a Google, AWS, Azure, deepL, openai, huggingface, or huggingface-local parameters first in the extension settings.";
+    logger.warn(message);
+    return finish({ error: message });
   }
 
   const fileMode = config.mode ?? "file";
-  const files = readFiles(sourceFile, fileMode, config.format);
-  if (files === null) {
-    return;
+  // locale codes of file names, normalized before they reach the engines
+  Locales.configure(config.locales);
+
+  const files = readFiles(
+    sourceFile,
+    fileMode,
+    config.format,
+    config.targetLocales,
+    config.sourceLocale,
+    logger,
+  );
+  if (typeof files === "string") {
+    return finish({ error: files });
   }
 
   // enforce source locale if provided in settings
-  if (config.sourceLocale !== files.sourceLocale) {
-    console.log(
-      `You must use the ${config.sourceLocale} file (matching extension) due to your Source Locale setting.`,
+  if (
+    Locales.normalize(config.sourceLocale) !==
+    Locales.normalize(files.sourceLocale)
+  ) {
+    const message = `You must use the ${config.sourceLocale} file (matching extension) due to your Source Locale setting.`;
+    logger.log(message);
+    return finish({ sourceLocale: files.sourceLocale, error: message });
+  }
+
+  // protect the placeholders of the file format, or the configured ones
+  try {
+    const recognizers = Placeholders.configure(
+      files.getFormatOverride?.() ?? files.getDetectedFormat?.(),
+      config.placeholders,
     );
-    return;
+    logger.log(`Placeholders = ${recognizers.join(", ")}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`❌ ${message}`);
+    return finish({ sourceLocale: files.sourceLocale, error: message });
   }
 
-  const keepTranslations = config.keepTranslations === "keep";
+  const translationMemory = config.translationMemory?.enabled
+    ? new TranslationMemory(config.translationMemory.directory, logger)
+    : undefined;
+
+  // retranslate-changed keeps the translations whose source is unchanged
+  const keepTranslations =
+    config.keepTranslations === "keep" ||
+    config.keepTranslations === "retranslate-changed";
   const keepExtras = config.keepExtraTranslations === "keep";
 
+  // in retranslate-changed mode, source hashes are tracked in a lock file
+  const lockInfo =
+    config.keepTranslations === "retranslate-changed"
+      ? files.getLockFile?.()
+      : undefined;
+  const translationLock = lockInfo
+    ? new TranslationLock(lockInfo.path, logger)
+    : undefined;
+
   // load source JSON
   let source: TranslationFile;
+  let keyContexts: Record<string, KeyContext>;
   try {
-    console.log(`📖 Loading source file for locale '${files.sourceLocale}'...`);
+    logger.log(`📖 Loading source file for locale '${files.sourceLocale}'...`);
     source = await files.loadJsonFromLocale(files.sourceLocale);
-    console.log(`✅ Successfully loaded source file`);
+    keyContexts = files.getKeyContexts?.(files.sourceLocale) ?? {};
+    logger.log(`✅ Successfully loaded source file`);
   } catch (error) {
-    if (error instanceof Error) {
-      console.error(`❌ Source file malformed: ${error.message}`);
-    }
-    return;
+    const message = `Source file malformed: ${error instanceof Error ? error.message : error}`;
+    logger.error(`❌ ${message}`);
+    return finish({ sourceLocale: files.sourceLocale, error: message });
   }
 
   // Iterate target Locales
-  console.log(
-    `🌍 Processing ${files.targetLocales.length} target locale(s)...`,
-  );
+  logger.log(`🌍 Processing ${files.targetLocales.length} target locale(s)...`);
 
-  for (let i = 0; i < files.targetLocales.length; i++) {
-    const targetLocale = files.targetLocales[i];
-    try {
-      console.log(
-        `🔄 [${i + 1}/${files.targetLocales.length}] Processing locale '${targetLocale}'...`,
-      );
+  // engines of the routing table, created when a locale first needs them
+  const routedEngines = new Map<string, Promise<ITranslate>>();
+  const engineForLocale = (locale: string) => {
+    const route = resolveEngineRoute(config.engineRoutes, locale);
+    if (!route) {
+      return {
+        id: engineId,
+        engine: Promise.resolve(defaultEngine),
+        chained: (config.fallbackEngines?.length ?? 0) > 0,
+      };
+    }
+    const [translationKeyInfo, ...fallbackEngines] = route.engines;
+    const routeConfig: Configuration = {
+      ...config,
+      translationKeyInfo,
+      // a route without fallbacks of its own uses the global ones
+      fallbackEngines:
+        fallbackEngines.length > 0 ? fallbackEngines : config.fallbackEngines,
+    };
+    let engine = routedEngines.get(route.pattern);
+    if (!engine) {
+      engine = createEngine(routeConfig);
+      routedEngines.set(route.pattern, engine);
+    }
+    return {
+      id: getEngineId(translationKeyInfo),
+      engine,
+      chained: (routeConfig.fallbackEngines?.length ?? 0) > 0,
+    };
+  };
 
-      const isValid = await translateEngine.isValidLocale(targetLocale);
-      if (!isValid) {
-        console.warn(
-          `⚠️  Locale '${targetLocale}' is not supported by ${config.translationKeyInfo.kind}. Skipping.`,
-        );
-        continue;
+  const localeConcurrency = config.scheduler?.localeConcurrency ?? 1;
+  const plan: TranslationPlan | undefined = config.dryRun
+    ? {
+        sourceLocale: files.sourceLocale,
+        engine: engineId,
+        locales: [],
+        totalCharacters: 0,
       }
+    : undefined;
 
-      console.log(`📖 Loading existing translations for '${targetLocale}'...`);
-      const targetOriginal = await files.loadJsonFromLocale(targetLocale);
+  await mapWithConcurrency(
+    files.targetLocales,
+    localeConcurrency,
+    async (targetLocale, i) => {
+      const localeStart = Date.now();
+      const localeResult: LocaleResult = {
+        locale: targetLocale,
+        status: "translated",
+        engine: engineId,
+        translated: 0,
+        fromMemory: 0,
+        kept: 0,
+        removed: 0,
+        skipped: 0,
+        failed: 0,
+        failures: [],
+        producedBy: {},
+        placeholderViolations: [],
+        glossaryViolations: [],
+        stale: [],
+        durationMs: 0,
+      };
+      locales[i] = localeResult;
 
-      console.log(
-        `🔤 Translating content from '${files.sourceLocale}' to '${targetLocale}'...`,
-      );
-      // Iterate source terms
-      const targetNew = await recurseNode(
-        source,
-        targetOriginal,
-        keepTranslations,
-        keepExtras,
-        files.sourceLocale,
-        targetLocale,
-        translateEngine,
-        config.ignorePrefix,
-      );
+      try {
+        logger.log(
+          `🔄 [${i + 1}/${files.targetLocales.length}] Processing locale '${targetLocale}'...`,
+        );
 
-      console.log(`💾 Saving translations for '${targetLocale}'...`);
-      // save target
-      files.saveJsonToLocale(targetLocale, targetNew);
+        // BCP-47 codes, sent to the engines and keys of the memory
+        const code = Locales.normalize(targetLocale);
+        const sourceCode = Locales.normalize(files.sourceLocale);
+        const route = engineForLocale(code);
+        const translateEngine = await route.engine;
+        localeResult.engine = route.id;
+        if (route.id !== engineId) {
+          logger.log(`🧭 Engine for '${targetLocale}' = ${route.id}`);
+        }
 
-      console.log(`✅ Successfully translated locale '${targetLocale}'`);
-    } catch (error) {
-      if (error instanceof Error) {
-        console.error(
-          `❌ Error processing locale '${targetLocale}': ${error.message}`,
+        const isValid = await translateEngine.isValidLocale(code);
+        if (!isValid) {
+          logger.warn(
+            `⚠️  Locale '${targetLocale}' is not supported by ${route.chained ? "any configured engine" : route.id}. Skipping.`,
+          );
+          localeResult.status = "skipped-unsupported";
+          return;
+        }
+
+        const isNew = files.newLocales?.includes(targetLocale) ?? false;
+        if (isNew && !plan) {
+          logger.log(`🆕 Creating file for new locale '${targetLocale}'...`);
+          files.createLocale?.(targetLocale);
+        }
+        logger.log(`📖 Loading existing translations for '${targetLocale}'...`);
+        // a dry run leaves the files of new locales uncreated
+        const targetOriginal =
+          isNew && plan ? {} : await files.loadJsonFromLocale(targetLocale);
+        // fuzzy PO entries and XLIFF targets that need review
+        const flagged = isNew
+          ? []
+          : (files.getNeedsReview?.(targetLocale) ?? []);
+        const retranslateFlagged =
+          config.fuzzyTranslations === "retranslate" && flagged.length > 0;
+        if (retranslateFlagged) {
+          logger.log(
+            `🔍 ${flagged.length} translation(s) flagged for review in '${targetLocale}' will be retranslated`,
+          );
+        }
+        const original: TranslationFile = retranslateFlagged
+          ? omitKeyPaths(targetOriginal, flagged)
+          : targetOriginal;
+
+        logger.log(
+          `🔤 Translating content from '${files.sourceLocale}' to '${targetLocale}'...`,
+        );
+        // Iterate source terms, collecting the strings that need translation
+        const pending: PendingTranslation[] = [];
+        const icuMessages: PendingIcuMessage[] = [];
+        const kept: string[] = [];
+        const removed: string[] = [];
+        const lock =
+          lockInfo &&
+          translationLock?.createLocaleLock(lockInfo.key, targetLocale);
+        const targetNew = recurseNode(source, original, {
+          keepTranslations,
+          keepExtras,
+          locale: targetLocale,
+          pending,
+          icuMessages,
+          ignorePrefix: config.ignorePrefix,
+          keyContexts,
+          lock,
+          kept,
+          removed,
+        });
+        localeResult.kept = kept.length;
+        localeResult.removed = removed.length;
+        localeResult.stale = lock?.stale ?? [];
+
+        if (lock && lock.stale.length > 0) {
+          logger.log(
+            `♻️  ${lock.stale.length} stale key(s) in '${targetLocale}' will be retranslated: ${lock.stale.join(", ")}`,
+          );
+        }
+
+        const memory = translationMemory && {
+          memory: translationMemory,
+          engineId: route.id,
+          anyEngine: config.translationMemory?.anyEngine ?? false,
+        };
+
+        if (plan) {
+          const toTranslate = reuseFromMemory(
+            pending,
+            sourceCode,
+            code,
+            memory,
+          );
+          const characters = toTranslate.reduce(
+            (sum, item) => sum + item.text.length,
+            0,
+          );
+          // the segments of an ICU message share the key of the message
+          const keys = (items: PendingTranslation[]) => [
+            ...new Set(items.map((item) => item.path.join("."))),
+          ];
+          plan.locales[i] = {
+            locale: targetLocale,
+            engine: route.id,
+            translate: keys(toTranslate),
+            fromMemory: keys(
+              pending.filter((item) => !toTranslate.includes(item)),
+            ),
+            keep: kept,
+            remove: removed,
+            stale: lock?.stale ?? [],
+            characters,
+          };
+          plan.totalCharacters += characters;
+          return;
+        }
+
+        await hooks?.onLocaleStart?.({
+          locale: targetLocale,
+          index: i,
+          total: files.targetLocales.length,
+          keys: pending.length,
+        });
+
+        // Send the collected strings to the engine and map them back by key path
+        const outcome = await translatePending(pending, translateEngine, {
+          sourceLocale: files.sourceLocale,
+          locale: targetLocale,
+          sourceCode,
+          code,
+          engineId: route.id,
+          memory,
+          logger,
+          hooks,
+          placeholderPolicy: config.placeholders?.policy ?? "flag",
+        });
+        localeResult.translated = outcome.translated;
+        localeResult.fromMemory = outcome.fromMemory;
+        localeResult.skipped = outcome.skipped;
+        localeResult.failed = outcome.failures.length;
+        localeResult.failures = outcome.failures;
+        localeResult.producedBy = outcome.producedBy;
+        localeResult.placeholderViolations = outcome.placeholderViolations;
+        for (const message of icuMessages) {
+          message.destination[message.term] = message.message.format(
+            (segment) => message.translations[segment] ?? segment,
+          );
+        }
+        if (glossary) {
+          localeResult.glossaryViolations = checkGlossary(
+            glossary,
+            pending,
+            outcome.failures,
+            code,
+          );
+          for (const violation of localeResult.glossaryViolations) {
+            logger.warn(
+              `⚠️  Glossary term '${violation.term}' in '${violation.key}' should read '${violation.expected}' in '${targetLocale}'`,
+            );
+          }
+        }
+
+        // flagged entries stay flagged, whether kept or retranslated
+        const needsReview = new Set(flagged);
+        if (config.markForReview) {
+          for (const item of pending) {
+            if (!outcome.skippedKeys.includes(keyOf(item))) {
+              needsReview.add(item.path.join("."));
+            }
+          }
+        }
+
+        logger.log(`💾 Saving translations for '${targetLocale}'...`);
+        // save target
+        files.saveJsonToLocale(
+          targetLocale,
+          targetNew,
+          config.markForReview || flagged.length > 0
+            ? [...needsReview]
+            : undefined,
+        );
+
+        if (lockInfo && lock && translationLock) {
+          // the segments of an ICU message share the lock entry of the message
+          const lockKeys = new Map(
+            pending.map((item) => [keyOf(item), item.path.join(".")]),
+          );
+          // keys left untranslated are retranslated on the next run
+          for (const { key } of outcome.failures) {
+            keepPreviousHash(lock, lockKeys.get(key) ?? key);
+          }
+          for (const { key, action } of outcome.placeholderViolations) {
+            if (action === "source" || action === "kept") {
+              keepPreviousHash(lock, lockKeys.get(key) ?? key);
+            }
+          }
+          translationLock.update(lockInfo.key, targetLocale, lock);
+          translationLock.save();
+        }
+
+        localeResult.durationMs = Date.now() - localeStart;
+        await hooks?.onLocaleSaved?.({
+          locale: targetLocale,
+          result: localeResult,
+        });
+
+        logger.log(`✅ Successfully translated locale '${targetLocale}'`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(
+          `❌ Error processing locale '${targetLocale}': ${message}`,
         );
         // Continue with other locales instead of stopping completely
-        continue;
+        localeResult.status = "failed";
+        localeResult.error = message;
+        await notifyError(hooks, logger, {
+          locale: targetLocale,
+          error: toError(error),
+        });
+      } finally {
+        localeResult.durationMs = Date.now() - localeStart;
       }
-      return;
-    }
+    },
+  );
+
+  if (plan) {
+    // skipped locales leave holes
+    plan.locales = plan.locales.filter((locale) => locale);
+    return finish({ sourceLocale: files.sourceLocale, plan });
   }
 
-  console.log(`🎉 Translation completed for all locales!`);
+  const result = finish({ sourceLocale: files.sourceLocale });
+  if (result.status === "success") {
+    logger.log(`🎉 Translation completed for all locales!`);
+  } else {
+    logger.warn(
+      `⚠️  Translation finished with errors (${result.status}), see the messages above.`,
+    );
+  }
+  return result;
 }
 
 const readFiles: (
   filePath: string,
   mode: "file" | "folder",
-  format?: string,
-) => IFiles | null = (filePath: string, mode: string, format?: string) => {
+  format: string | undefined,
+  targetLocales: string[] | undefined,
+  sourceLocale: string,
+  logger: Logger,
+) => IFiles | string = (
+  filePath: string,
+  mode: string,
+  format: string | undefined,
+  targetLocales: string[] | undefined,
+  sourceLocale: string,
+  logger: Logger,
+) => {
   try {
-    const files: IFiles =
-      mode === "file"
-        ? new Files(filePath, format)
-        : new FolderFiles(filePath, format);
+    // string catalogs hold every locale in the source file
+    const files: IFiles = CatalogFiles.isCatalog(filePath, format)
+      ? new CatalogFiles(filePath, format, targetLocales)
+      : mode === "file"
+        ? new Files(filePath, format, targetLocales, sourceLocale)
+        : new FolderFiles(filePath, format, targetLocales);
 
     // log locale info
-    console.log(`Source locale = ${files.sourceLocale}`);
-    console.log(`Target locales = ${files.targetLocales}`);
+    logger.log(`Source locale = ${files.sourceLocale}`);
+    logger.log(`Target locales = ${files.targetLocales}`);
+    if (files.newLocales && files.newLocales.length > 0) {
+      logger.log(`New target locales = ${files.newLocales}`);
+    }
 
     // Log format information for better user feedback
     if (files.getDetectedFormat && files.getFormatOverride) {
@@ -144,33 +582,491 @@ const readFiles: (
       const formatOverride = files.getFormatOverride();
 
       if (formatOverride) {
-        console.log(`Format override = ${formatOverride}`);
+        logger.log(`Format override = ${formatOverride}`);
       } else if (detectedFormat) {
-        console.log(`Detected format = ${detectedFormat}`);
+        logger.log(`Detected format = ${detectedFormat}`);
       }
     }
 
     return files;
   } catch (error) {
-    if (error instanceof Error) {
-      console.error(error);
-    }
-    return null;
+    logger.error(error);
+    // the caller reports the message in the run result
+    return error instanceof Error ? error.message : String(error);
   }
 };
 
-async function recurseNode(
-  source: TranslationFile,
-  original: TranslationFile,
-  keepTranslations: boolean | null,
-  keepExtras: boolean | null,
+/**
+ * Copy of a file without the values at the given key paths, joined with
+ * "." like the keys of keyContexts and needsReview.
+ */
+function omitKeyPaths(
+  file: TranslationFile,
+  keyPaths: string[],
+): TranslationFile {
+  const omitted = new Set(keyPaths);
+  const omit = (node: any, path: string[]): any => {
+    if (!(node instanceof Object)) {
+      return node;
+    }
+    const copy: any = Array.isArray(node) ? [] : {};
+    for (const [term, value] of Object.entries(node)) {
+      const keyPath = [...path, term];
+      if (!omitted.has(keyPath.join("."))) {
+        copy[term] = omit(value, keyPath);
+      }
+    }
+    return copy;
+  };
+  return omit(file, []);
+}
+
+/**
+ * A source string waiting for translation, with the destination node it
+ * belongs to and its key path from the root of the file.
+ */
+interface PendingTranslation {
+  destination: any;
+  term: string;
+  path: string[];
+  text: string;
+  context?: string;
+  // translation found in the target file, written back when a hook skips the key
+  existing?: unknown;
+  // the source changed since `existing` was translated
+  stale?: boolean;
+  // name of the segment when the string is part of an ICU message
+  segment?: string;
+}
+
+/**
+ * Key of a pending string in hook events and results. The segments of an
+ * ICU message each get a sub-path of the message key, e.g. `items#one`.
+ */
+const keyOf = (item: PendingTranslation) =>
+  item.segment === undefined
+    ? item.path.join(".")
+    : `${item.path.join(".")}#${item.segment}`;
+
+/**
+ * An ICU message whose segments are translated as separate pending strings
+ * and assembled again once the engine has answered.
+ */
+interface PendingIcuMessage {
+  destination: any;
+  term: string;
+  message: IcuMessage;
+  // translation per segment, the destination of the pending strings
+  translations: Record<string, string>;
+}
+
+type MemoryOptions = {
+  memory: TranslationMemory;
+  engineId: string;
+  anyEngine: boolean;
+};
+
+/**
+ * Fill in strings found in the translation memory and return the ones
+ * that still need the engine.
+ */
+function reuseFromMemory(
+  pending: PendingTranslation[],
   sourceLocale: string,
   locale: string,
+  translationMemory?: MemoryOptions,
+): PendingTranslation[] {
+  if (!translationMemory) {
+    return pending;
+  }
+
+  const { memory, engineId, anyEngine } = translationMemory;
+  const misses: PendingTranslation[] = [];
+  for (const item of pending) {
+    const cached = memory.lookup(
+      engineId,
+      sourceLocale,
+      locale,
+      item.text,
+      item.context,
+      anyEngine,
+    );
+    if (cached !== undefined) {
+      item.destination[item.term] = cached;
+    } else {
+      misses.push(item);
+    }
+  }
+  return misses;
+}
+
+/**
+ * What happened to the pending strings of one locale.
+ */
+interface PendingOutcome {
+  translated: number;
+  fromMemory: number;
+  skipped: number;
+  // keys left to the beforeTranslate hook
+  skippedKeys: string[];
+  failures: KeyFailure[];
+  // engine id per key translated by an engine
+  producedBy: Record<string, string>;
+  placeholderViolations: PlaceholderViolation[];
+}
+
+const placeholderActions: Record<PlaceholderViolation["action"], string> = {
+  retried: "fixed by translating again",
+  source: "the source text was written",
+  kept: "the previous translation was kept",
+  flagged: "written as is",
+};
+
+interface TranslatePendingOptions {
+  // locales as named by the files, for hooks and messages
+  sourceLocale: string;
+  locale: string;
+  // normalized codes, for the engines and the translation memory
+  sourceCode: string;
+  code: string;
+  // id of the engine, or of the first engine of a fallback chain
+  engineId: string;
+  memory?: MemoryOptions;
+  logger: Logger;
+  hooks?: TranslationHooks;
+  placeholderPolicy: PlaceholderPolicy;
+}
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Report an error to the onError hook. A failing hook is only logged so
+ * that it cannot hide the original error.
+ */
+async function notifyError(
+  hooks: TranslationHooks | undefined,
+  logger: Logger,
+  event: TranslationErrorEvent,
+): Promise<void> {
+  try {
+    await hooks?.onError?.(event);
+  } catch (error) {
+    logger.error(error);
+  }
+}
+
+async function translatePending(
+  pending: PendingTranslation[],
   translateEngine: ITranslate,
-  ignorePrefix = "",
+  options: TranslatePendingOptions,
+): Promise<PendingOutcome> {
+  const {
+    locale,
+    sourceCode,
+    code,
+    engineId,
+    memory,
+    logger,
+    hooks,
+    placeholderPolicy,
+  } = options;
+  const outcome: PendingOutcome = {
+    translated: 0,
+    fromMemory: 0,
+    skipped: 0,
+    skippedKeys: [],
+    failures: [],
+    producedBy: {},
+    placeholderViolations: [],
+  };
+
+  const write = async (
+    item: PendingTranslation,
+    translation: string,
+    origin: TranslatedKeyEvent["origin"],
+    engine?: string,
+  ) => {
+    item.destination[item.term] = translation;
+    await hooks?.onKeyTranslated?.({
+      locale,
+      key: keyOf(item),
+      text: item.text,
+      context: item.context,
+      translation,
+      origin,
+      engine,
+    });
+  };
+
+  // Let the caller skip keys, change their text or answer them directly
+  let remaining = pending;
+  if (hooks?.beforeTranslate) {
+    remaining = [];
+    for (const item of pending) {
+      const decision = await hooks.beforeTranslate({
+        locale,
+        key: keyOf(item),
+        text: item.text,
+        context: item.context,
+      });
+      if (decision === false) {
+        item.destination[item.term] = item.existing ?? item.text;
+        outcome.skipped++;
+        outcome.skippedKeys.push(keyOf(item));
+      } else if (typeof decision === "object") {
+        await write(item, decision.translation, "hook");
+        outcome.translated++;
+      } else {
+        if (typeof decision === "string") {
+          item.text = decision;
+        }
+        remaining.push(item);
+      }
+    }
+  }
+
+  // Reuse earlier translations of the same source text
+  const misses = reuseFromMemory(remaining, sourceCode, code, memory);
+  outcome.fromMemory = remaining.length - misses.length;
+  if (outcome.fromMemory > 0) {
+    logger.log(
+      `🧠 Reused ${outcome.fromMemory} translation(s) from translation memory for '${locale}'`,
+    );
+    if (hooks?.onKeyTranslated) {
+      for (const item of remaining) {
+        if (!misses.includes(item)) {
+          await write(item, item.destination[item.term], "memory");
+        }
+      }
+    }
+  }
+
+  if (misses.length === 0) {
+    memory?.memory.save();
+    return outcome;
+  }
+
+  const errors = new Map<number, unknown>();
+  const texts = misses.map((item) => item.text);
+  const contexts = misses.map((item) => item.context);
+  const keys = misses.map(keyOf);
+  const onError = (index: number, error: unknown) => errors.set(index, error);
+  // a fallback chain tells which of its engines translated each string
+  const translations: Array<EngineTranslation | undefined> =
+    translateEngine instanceof FallbackTranslate
+      ? await translateEngine.translateWithEngines(
+          texts,
+          sourceCode,
+          code,
+          contexts,
+          onError,
+          keys,
+        )
+      : (
+          await translateInBatches(
+            translateEngine,
+            texts,
+            sourceCode,
+            code,
+            contexts,
+            onError,
+            keys,
+            logger,
+          )
+        ).map((translation) =>
+          translation === undefined
+            ? undefined
+            : { translation, engine: engineId },
+        );
+
+  for (let i = 0; i < misses.length; i++) {
+    const item = misses[i];
+    const key = keyOf(item);
+    let translation = translations[i]?.translation;
+    const engine = translations[i]?.engine ?? engineId;
+    if (translation === undefined) {
+      // a stale key keeps its previous translation until a new one succeeds
+      item.destination[item.term] =
+        item.stale && item.existing !== undefined ? item.existing : item.text;
+      const error = errors.has(i)
+        ? toError(errors.get(i))
+        : new Error("No translation returned");
+      logger.error(
+        `❌ Could not translate '${key}' to '${locale}': ${error.message}`,
+      );
+      outcome.failures.push({ key, error: error.message });
+      await notifyError(hooks, logger, { locale, key, error });
+      continue;
+    }
+
+    // engines sometimes drop, duplicate or rename placeholders
+    const difference = Placeholders.compare(item.text, translation);
+    let flagged = false;
+    if (difference) {
+      const violation: PlaceholderViolation = {
+        locale,
+        key,
+        ...difference,
+        action: "flagged",
+      };
+      outcome.placeholderViolations.push(violation);
+
+      if (placeholderPolicy === "retry") {
+        const retried = await translateEngine
+          .translateText(item.text, sourceCode, code, item.context, key)
+          .catch(() => undefined);
+        if (
+          retried !== undefined &&
+          !Placeholders.compare(item.text, retried)
+        ) {
+          translation = retried;
+          violation.action = "retried";
+        } else {
+          violation.action = "source";
+        }
+      } else if (placeholderPolicy === "keep") {
+        violation.action =
+          typeof item.existing === "string" ? "kept" : "source";
+      } else if (placeholderPolicy === "source") {
+        violation.action = "source";
+      }
+
+      logger.warn(
+        `⚠️  Placeholders of '${key}' in '${locale}' differ from the source (missing: ${difference.missing.join(" ") || "-"}, unexpected: ${difference.unexpected.join(" ") || "-"}), ${placeholderActions[violation.action]}`,
+      );
+      if (violation.action === "source" || violation.action === "kept") {
+        item.destination[item.term] =
+          violation.action === "kept" ? item.existing : item.text;
+        continue;
+      }
+      flagged = violation.action === "flagged";
+    }
+
+    if (hooks?.afterTranslate) {
+      translation =
+        (await hooks.afterTranslate({
+          locale,
+          key,
+          text: item.text,
+          context: item.context,
+          translation,
+          origin: "engine",
+          engine,
+        })) ?? translation;
+    }
+    await write(item, translation, "engine", engine);
+    outcome.translated++;
+    outcome.producedBy[key] = engine;
+    // flagged translations stay out of the translation memory
+    if (!flagged) {
+      memory?.memory.store(
+        engine,
+        sourceCode,
+        code,
+        item.text,
+        translation,
+        item.context,
+      );
+    }
+  }
+  memory?.memory.save();
+
+  const fallbacks = new Map<string, number>();
+  for (const engine of Object.values(outcome.producedBy)) {
+    if (engine !== engineId) {
+      fallbacks.set(engine, (fallbacks.get(engine) ?? 0) + 1);
+    }
+  }
+  for (const [engine, count] of fallbacks) {
+    logger.log(
+      `↪️  ${count} string(s) for '${locale}' translated by fallback engine ${engine}`,
+    );
+  }
+  return outcome;
+}
+
+/**
+ * Find translated strings that do not use the glossary rendering of a term
+ * found in their source text. Failed keys are left out: they still hold
+ * the source text.
+ */
+function checkGlossary(
+  glossary: Glossary,
+  pending: PendingTranslation[],
+  failures: KeyFailure[],
+  locale: string,
+): GlossaryViolation[] {
+  const failed = new Set(failures.map((failure) => failure.key));
+  const violations: GlossaryViolation[] = [];
+  for (const item of pending) {
+    const key = keyOf(item);
+    const translation = item.destination[item.term];
+    if (failed.has(key) || typeof translation !== "string") {
+      continue;
+    }
+    for (const violation of glossary.check(item.text, translation, locale)) {
+      violations.push({ ...violation, key });
+    }
+  }
+  return violations;
+}
+
+interface RecurseOptions {
+  keepTranslations: boolean | null;
+  keepExtras: boolean | null;
+  locale: string;
+  // strings collected for translation
+  pending: PendingTranslation[];
+  // ICU messages whose segments are in `pending`
+  icuMessages?: PendingIcuMessage[];
+  ignorePrefix?: string;
+  // translation hints of the source file, by key path
+  keyContexts?: Record<string, KeyContext>;
+  // source hashes of the previous run (retranslate-changed mode)
+  lock?: LocaleLock;
+  // key paths of kept and removed translations
+  kept?: string[];
+  removed?: string[];
+}
+
+/**
+ * Translation hints of a key as one line for the engines: description,
+ * disambiguation context, length limit and a few source references.
+ */
+function describeKeyContext(keyContext?: KeyContext): string | undefined {
+  if (!keyContext) {
+    return undefined;
+  }
+  const hints = [
+    keyContext.description,
+    keyContext.context && `context: ${keyContext.context}`,
+    keyContext.maxLength && `at most ${keyContext.maxLength} characters long`,
+    keyContext.references?.length &&
+      `used in ${keyContext.references.slice(0, 3).join(", ")}`,
+  ].filter((hint): hint is string => !!hint);
+  return hints.length > 0 ? hints.join("; ") : undefined;
+}
+
+function recurseNode(
+  source: TranslationFile,
+  original: TranslationFile,
+  options: RecurseOptions,
   isArray = false,
-): Promise<TranslationFile> {
+  path: string[] = [],
+): TranslationFile {
   const destination: any = isArray ? [] : {};
+  const {
+    locale,
+    pending,
+    icuMessages,
+    lock,
+    kept,
+    removed,
+    ignorePrefix = "",
+    keyContexts,
+  } = options;
+  let { keepTranslations, keepExtras } = options;
 
   // defaults
   if (keepTranslations === null) {
@@ -202,16 +1098,12 @@ async function recurseNode(
     }
 
     if (node instanceof Object && node !== null) {
-      destination[term] = await recurseNode(
+      destination[term] = recurseNode(
         node,
         original[term] ?? {},
-        keepTranslations,
-        keepExtras,
-        sourceLocale,
-        locale,
-        translateEngine,
-        ignorePrefix,
+        options,
         Array.isArray(node),
+        [...path, term],
       );
     } else {
       // For XML: do not translate attributes (fast-xml-parser uses "@_" prefix)
@@ -235,9 +1127,16 @@ async function recurseNode(
         destination[term] = original[term] ?? node;
         continue;
       }
+      // a changed source value makes the existing translation stale
+      const sourceChanged =
+        lock !== undefined &&
+        typeof node === "string" &&
+        checkSourceChanged(lock, [...path, term].join("."), node);
+
       // if we already have a translation, keep it
-      if (keepTranslations && original[term]) {
+      if (keepTranslations && original[term] && !sourceChanged) {
         destination[term] = original[term];
+        kept?.push([...path, term].join("."));
       } else if (typeof node === "number" || typeof node === "boolean") {
         // numbers and booleans do not need translations
         destination[term] = node;
@@ -258,19 +1157,43 @@ async function recurseNode(
           ignorePrefix === "" ||
           (ignorePrefix !== "" && !term.startsWith(ignorePrefix))
         ) {
-          // Extract context if available (e.g. from ARB metadata)
-          let context: string | undefined;
-          // @ts-ignore: _metadata is loosely typed
-          if (source._metadata?.resourceMetadata?.[`@${term}`]) {
-            // @ts-ignore
-            const meta = source._metadata.resourceMetadata[`@${term}`];
-            context = meta.description || meta.context;
+          const context = describeKeyContext(
+            keyContexts?.[[...path, term].join(".")],
+          );
+
+          // Keep the source text until the translation arrives
+          destination[term] = textValue;
+
+          // plural and select messages are translated branch by branch
+          const message =
+            icuMessages &&
+            IcuMessage.parse(textValue)?.forLocale(Locales.normalize(locale));
+          if (message) {
+            const translations: Record<string, string> = {};
+            for (const [name, segment] of message.namedSegments()) {
+              translations[segment] = segment;
+              pending.push({
+                destination: translations,
+                term: segment,
+                path: [...path, term],
+                text: segment,
+                context,
+                segment: name,
+              });
+            }
+            icuMessages.push({ destination, term, message, translations });
+            continue;
           }
 
-          const translation = await translateEngine
-            .translateText(textValue, sourceLocale, locale, context)
-            .catch((err) => console.error(err));
-          destination[term] = translation ?? textValue;
+          pending.push({
+            destination,
+            term,
+            path: [...path, term],
+            text: textValue,
+            context,
+            existing: original[term],
+            stale: sourceChanged,
+          });
         } else {
           delete destination[term];
         }
@@ -285,6 +1208,12 @@ async function recurseNode(
         destination[term] = original[term];
       }
     }
+  } else if (removed) {
+    for (const term in original) {
+      if (destination[term] === undefined && term !== "_metadata") {
+        removed.push([...path, term].join("."));
+      }
+    }
   }
 
   return destination;
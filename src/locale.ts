@@ -0,0 +1,275 @@
+export type LocaleConfiguration = {
+  // locale code used in file names -> BCP-47 code, e.g. { "cn": "zh-Hans" }
+  aliases?: Record<string, string>;
+  // engine kind -> BCP-47 code -> code sent to the engine,
+  // e.g. { "deepLPro": { "pt": "PT-PT" } }
+  engines?: Record<string, Record<string, string>>;
+};
+
+export interface ParsedLocale {
+  // lower case, e.g. "pt"; "x" for private use codes
+  language: string;
+  // title case, e.g. "Hans"
+  script?: string;
+  // upper case, e.g. "BR" or "419"
+  region?: string;
+  // lower case
+  variants: string[];
+}
+
+// codes engines spell differently for the same language
+const equivalents: string[][] = [
+  ["zh-Hans", "zh-CN", "zh-SG"],
+  ["zh-Hant", "zh-TW", "zh-HK", "zh-MO"],
+  ["nb", "no"],
+  ["fil", "tl"],
+  ["he", "iw"],
+  ["id", "in"],
+];
+
+// script of a language when a code does not name one
+const defaultScripts: Record<string, string> = { zh: "Hans", sr: "Cyrl" };
+const regionScripts: Record<string, Record<string, string>> = {
+  zh: { TW: "Hant", HK: "Hant", MO: "Hant" },
+};
+// POSIX modifiers naming a script: sr_RS@latin
+const modifierScripts: Record<string, string> = {
+  latin: "Latn",
+  cyrillic: "Cyrl",
+};
+
+const titleCase = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+
+/**
+ * Locale codes as found in file names: BCP-47 (`pt-BR`, `zh-Hans`), POSIX
+ * (`pt_BR`, `sr_RS@latin`, `de_DE.UTF-8`) and Android resource qualifiers
+ * (`values-pt-rBR`, `b+sr+Latn`). Codes are normalized to BCP-47 before
+ * they reach the engines, which map them to their own spelling with a
+ * `LocaleMapper`.
+ */
+export class Locales {
+  private static aliases: Map<string, string> = new Map();
+  private static engineAliases: Record<string, Record<string, string>> = {};
+
+  static configure(configuration?: LocaleConfiguration): void {
+    this.aliases = new Map(
+      Object.entries(configuration?.aliases ?? {}).map(([code, locale]) => [
+        code.toLowerCase(),
+        locale,
+      ]),
+    );
+    this.engineAliases = configuration?.engines ?? {};
+  }
+
+  static parse(code: string): ParsedLocale | undefined {
+    let value = code.trim();
+    let modifierScript: string | undefined;
+
+    // POSIX: drop the encoding, turn a script modifier into a subtag
+    const posix = /^([^.@]+)(?:\.[^@]*)?(?:@(\w+))?$/.exec(value);
+    if (!posix) {
+      return undefined;
+    }
+    value = posix[1];
+    if (posix[2]) {
+      modifierScript = modifierScripts[posix[2].toLowerCase()];
+    }
+
+    // Android: values-pt-rBR, b+sr+Latn+RS
+    value = value.replace(/^values-/i, "");
+    const subtags = /^b\+/i.test(value)
+      ? value.slice(2).split("+")
+      : value.split(/[-_]/);
+
+    const language = subtags.shift()?.toLowerCase() ?? "";
+    if (language === "x") {
+      return subtags.length > 0 &&
+        subtags.every((subtag) => /^[a-z\d]{1,8}$/i.test(subtag))
+        ? { language, variants: subtags.map((subtag) => subtag.toLowerCase()) }
+        : undefined;
+    }
+    if (!/^(?:[a-z]{2,3}|[a-z]{5,8})$/.test(language)) {
+      return undefined;
+    }
+
+    const parsed: ParsedLocale = { language, variants: [] };
+    let subtag = subtags.shift();
+    if (subtag && /^[a-z]{4}$/i.test(subtag)) {
+      parsed.script = titleCase(subtag);
+      subtag = subtags.shift();
+    }
+    if (subtag && /^(?:r?[a-z]{2}|\d{3})$/i.test(subtag)) {
+      parsed.region = (
+        subtag.length === 3 && /^r/i.test(subtag) ? subtag.slice(1) : subtag
+      ).toUpperCase();
+      subtag = subtags.shift();
+    }
+    while (subtag) {
+      if (!/^(?:[a-z\d]{5,8}|\d[a-z\d]{3})$/i.test(subtag)) {
+        return undefined;
+      }
+      parsed.variants.push(subtag.toLowerCase());
+      subtag = subtags.shift();
+    }
+    parsed.script ??= modifierScript;
+    return parsed;
+  }
+
+  static toTag(locale: ParsedLocale): string {
+    return [locale.language, locale.script, locale.region, ...locale.variants]
+      .filter((subtag) => subtag)
+      .join("-");
+  }
+
+  /**
+   * BCP-47 code of a file locale, after the configured aliases. Codes that
+   * cannot be parsed are returned unchanged.
+   */
+  static normalize(code: string): string {
+    const alias = this.aliases.get(code.toLowerCase());
+    const parsed = this.parse(alias ?? code);
+    if (!parsed) {
+      return alias ?? code;
+    }
+    const tag = this.toTag(parsed);
+    return this.aliases.get(tag.toLowerCase()) ?? tag;
+  }
+
+  /**
+   * Code the user configured for an engine, if any.
+   */
+  static getEngineAlias(engine: string, locale: string): string | undefined {
+    const aliases = this.engineAliases[engine];
+    return aliases?.[locale] ?? aliases?.[this.normalize(locale)];
+  }
+
+  /**
+   * Spell a BCP-47 code like `example`, a locale code found in a file
+   * name: `pt_BR`, `values-pt-rBR`, `pt-BR.lproj` or lower case `pt-br`.
+   */
+  static toFileLocale(locale: string, example: string): string {
+    const parsed = this.parse(this.normalize(locale));
+    if (!parsed) {
+      return locale;
+    }
+    const lproj = /\.lproj$/i.exec(example)?.[0];
+    if (lproj) {
+      return this.toFileLocale(locale, example.slice(0, -lproj.length)) + lproj;
+    }
+    const values = /^values-/i.test(example) ? "values-" : "";
+    const android =
+      values !== "" || /^(?:b\+|[a-z]{2,3}-r[A-Z]{2}$)/.test(example);
+    let code: string;
+    if (android) {
+      code =
+        parsed.script || parsed.variants.length > 0
+          ? `b+${this.toTag(parsed).replace(/-/g, "+")}`
+          : [parsed.language, parsed.region && `r${parsed.region}`]
+              .filter((subtag) => subtag)
+              .join("-");
+    } else {
+      code = this.toTag(parsed).replace(
+        /-/g,
+        example.includes("_") ? "_" : "-",
+      );
+      const exampleTag = example.replace(/^values-/i, "");
+      if (/[-_]/.test(exampleTag) && exampleTag === exampleTag.toLowerCase()) {
+        code = code.toLowerCase();
+      }
+    }
+    return values + code;
+  }
+
+  /**
+   * Script of a locale, named or implied by its language and region.
+   */
+  static getScript(locale: ParsedLocale): string | undefined {
+    return (
+      locale.script ??
+      (locale.region && regionScripts[locale.language]?.[locale.region]) ??
+      defaultScripts[locale.language]
+    );
+  }
+
+  /**
+   * Codes to look up in an engine's list, most specific first. The bare
+   * language only comes last, and only when it uses the same script.
+   */
+  static getCandidates(locale: string): string[] {
+    const parsed = this.parse(locale);
+    if (!parsed) {
+      return [locale];
+    }
+    const { language, script, region } = parsed;
+    const tags = [
+      this.toTag(parsed),
+      script && region && `${language}-${script}-${region}`,
+      script && `${language}-${script}`,
+      region && `${language}-${region}`,
+    ].filter((tag): tag is string => !!tag);
+    const implied = this.getScript(parsed);
+    if (implied && !script) {
+      tags.push(`${language}-${implied}`);
+    }
+    if (!defaultScripts[language] || implied === defaultScripts[language]) {
+      tags.push(language);
+    }
+
+    const candidates: string[] = [];
+    for (const tag of tags) {
+      candidates.push(tag);
+      for (const group of equivalents) {
+        if (group.some((code) => code.toLowerCase() === tag.toLowerCase())) {
+          candidates.push(...group);
+        }
+      }
+    }
+    return [...new Set(candidates)];
+  }
+}
+
+/**
+ * Maps locale codes to the spelling of one engine: its own code for the
+ * locale, found in the list of codes it supports, or the code configured
+ * by the user for that engine.
+ */
+export class LocaleMapper {
+  private readonly supported?: Map<string, string>;
+
+  /**
+   * @param engine engine kind, the key of the user's alias table
+   * @param supported codes the engine accepts; engines that accept any
+   * code only apply the user's aliases
+   */
+  constructor(
+    private readonly engine: string | string[],
+    supported?: string[],
+  ) {
+    this.supported =
+      supported && new Map(supported.map((code) => [code.toLowerCase(), code]));
+  }
+
+  /**
+   * Engine code of a locale, or `undefined` when the engine does not
+   * support it.
+   */
+  toEngine(locale: string): string | undefined {
+    for (const engine of [this.engine].flat()) {
+      const alias = Locales.getEngineAlias(engine, locale);
+      if (alias) {
+        return alias;
+      }
+    }
+    if (!this.supported) {
+      return locale;
+    }
+    for (const candidate of Locales.getCandidates(Locales.normalize(locale))) {
+      const code = this.supported.get(candidate.toLowerCase());
+      if (code) {
+        return code;
+      }
+    }
+    return undefined;
+  }
+}
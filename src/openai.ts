@@ -1,6 +1,8 @@
 import { OpenAI } from "openai";
-import type { ITranslate } from "./translate.interface.js";
-import { Util } from "./util.js";
+import { BatchMismatchError } from "./batch.js";
+import { LocaleMapper } from "./locale.js";
+import { Placeholders } from "./placeholders.js";
+import type { BatchLimits, ITranslate } from "./translate.interface.js";
 
 const supportedLanguages: { [key: string]: string } = {
   af: "Afrikaans",
@@ -113,8 +115,59 @@ const supportedLanguages: { [key: string]: string } = {
   zu: "Zulu",
 };
 
+/**
+ * Prompt templates of the engine. Variables: `{{source}}` and `{{target}}`
+ * (language names), `{{sourceLocale}}` and `{{targetLocale}}` (codes),
+ * `{{context}}` (translator note), `{{key}}` (key path) and `{{text}}`.
+ */
+export type OpenAIPrompts = {
+  system?: string;
+  user?: string;
+};
+
+const defaultSystemPrompt =
+  "You will be provided with a sentence or words in {{source}}, and your task is to translate it into {{target}}. Return ONLY the translation, without any additional text or explanations.";
+const defaultBatchSystemPrompt =
+  "You will be provided with a JSON array of sentences or words in {{source}}, and your task is to translate each item into {{target}}.";
+const batchInstructions =
+  "Return ONLY a JSON array of strings with the translations in the same order and with the same number of items, without any additional text or explanations.";
+
+/**
+ * Whole-file mode: strings are sent as a JSON object of key path -> text,
+ * answered under a strict JSON schema. `tokenBudget` is the estimated size
+ * of one request, prompt and answer included (default 4000).
+ */
+export type OpenAIStructuredMode = {
+  tokenBudget?: number;
+};
+
+const defaultStructuredSystemPrompt =
+  "You will be provided with a JSON object whose values are sentences or words in {{source}}, and your task is to translate each value into {{target}}.";
+const structuredInstructions =
+  "Return ONLY a JSON object with exactly the same keys and the translated values. Keep placeholders such as {0} unchanged.";
+// rough size of a token in characters, for budgeting requests
+const charactersPerToken = 4;
+
+const usesVariable = (template: string | undefined, name: string) =>
+  template !== undefined &&
+  new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(template);
+
+// values are inserted in one pass, so a text containing {{key}} stays as is
+const render = (template: string, variables: Record<string, string>) =>
+  template.replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (match, name: string) => variables[name] ?? match,
+  );
+
 export class OpenAITranslate implements ITranslate {
   private openai;
+  readonly batchLimits: BatchLimits;
+  private readonly locales = new LocaleMapper(
+    "openai",
+    Object.keys(supportedLanguages),
+  );
+  // templates using the context or key of a text get one request per text
+  private readonly perText: boolean;
   constructor(
     apiKey: string,
     baseUrl: string,
@@ -125,6 +178,8 @@ export class OpenAITranslate implements ITranslate {
     private n: number,
     private frequencyPenalty: number,
     private presencePenalty: number,
+    private prompts: OpenAIPrompts = {},
+    private structured?: OpenAIStructuredMode,
   ) {
     const configuration = {
       apiKey: apiKey,
@@ -132,34 +187,141 @@ export class OpenAITranslate implements ITranslate {
       timeout: 120000, // 2 minutes timeout for local models like Ollama
     };
     this.openai = new OpenAI(configuration);
+    this.perText = [prompts.system, prompts.user].some(
+      (template) =>
+        usesVariable(template, "context") || usesVariable(template, "key"),
+    );
+    if (structured) {
+      // half of the budget for the source texts, half for the answer
+      this.batchLimits = {
+        maxItems: Number.POSITIVE_INFINITY,
+        maxCharacters:
+          ((structured.tokenBudget ?? 4000) * charactersPerToken) / 2,
+      };
+    } else {
+      this.batchLimits = this.perText
+        ? { maxItems: 1 }
+        : { maxItems: 20, maxCharacters: 4000 };
+    }
   }
   isValidLocale(targetLocale: string): boolean {
-    return targetLocale in supportedLanguages;
+    return this.locales.toEngine(targetLocale) !== undefined;
+  }
+
+  private getLanguageName(locale: string): string {
+    return (
+      supportedLanguages[this.locales.toEngine(locale) ?? locale] ?? locale
+    );
   }
+
+  private getVariables(
+    sourceLocale: string,
+    targetLocale: string,
+  ): Record<string, string> {
+    if (this.locales.toEngine(sourceLocale) === undefined) {
+      throw Error(`${sourceLocale} is not supported as source language`);
+    }
+    return {
+      source: this.getLanguageName(sourceLocale),
+      target: this.getLanguageName(targetLocale),
+      sourceLocale,
+      targetLocale,
+    };
+  }
+
   async translateText(
     text: string,
     sourceLocale: string,
     targetLocale: string,
     context?: string,
+    key?: string,
   ): Promise<string> {
-    if (sourceLocale !== "en") {
-      throw Error(
-        `${sourceLocale} is not supported.Currently we support just English `,
+    const variables = this.getVariables(sourceLocale, targetLocale);
+
+    let tokens: string[];
+    ({ tokens, text } = Placeholders.protect(text));
+    Object.assign(variables, { context: context ?? "", key: key ?? "", text });
+
+    let systemPrompt = render(
+      this.prompts.system ?? defaultSystemPrompt,
+      variables,
+    );
+    if (context && !usesVariable(this.prompts.system, "context")) {
+      systemPrompt += `\nContext for the translation: ${context}`;
+    }
+    const userPrompt = render(this.prompts.user ?? "{{text}}", variables);
+
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+      top_p: this.topP,
+      n: this.n,
+      frequency_penalty: this.frequencyPenalty,
+      presence_penalty: this.presencePenalty,
+    });
+
+    const content = response.choices[0].message.content;
+    if (content === null) {
+      throw new Error("Empty response for translation");
+    }
+    return Placeholders.restore(content, tokens).replace(/^\n+|\n+$/g, "");
+  }
+
+  async translateBatch(
+    texts: string[],
+    sourceLocale: string,
+    targetLocale: string,
+    contexts?: Array<string | undefined>,
+    keys?: string[],
+  ): Promise<string[]> {
+    if (this.structured) {
+      return this.translateStructured(
+        texts,
+        sourceLocale,
+        targetLocale,
+        contexts,
+        keys,
       );
     }
+    if (this.perText) {
+      return Promise.all(
+        texts.map((text, index) =>
+          this.translateText(
+            text,
+            sourceLocale,
+            targetLocale,
+            contexts?.[index],
+            keys?.[index],
+          ),
+        ),
+      );
+    }
+    const variables = this.getVariables(sourceLocale, targetLocale);
 
-    let result = "";
-    let args: RegExpMatchArray | null;
-    ({ args, text } = Util.replaceContextVariables(text));
+    const replaced = texts.map((text) => Placeholders.protect(text));
 
-    let systemPrompt = `You will be provided with a sentence or words in English, and your task is to translate it into  ${
-      supportedLanguages[targetLocale] as string
-    }. Return ONLY the translation, without any additional text or explanations.`;
+    let systemPrompt = `${render(
+      this.prompts.system ?? defaultBatchSystemPrompt,
+      variables,
+    )} ${batchInstructions}`;
 
-    if (context) {
-      systemPrompt += `\nContext for the translation: ${context}`;
+    const contextLines = (contexts ?? [])
+      .map((context, index) =>
+        context ? `Context for item ${index}: ${context}` : "",
+      )
+      .filter((line) => line);
+    if (contextLines.length > 0) {
+      systemPrompt += `\n${contextLines.join("\n")}`;
     }
-    const userPrompt = text;
+    const userPrompt = render(this.prompts.user ?? "{{text}}", {
+      ...variables,
+      text: JSON.stringify(replaced.map(({ text }) => text)),
+    });
 
     const response = await this.openai.chat.completions.create({
       model: this.model,
@@ -168,26 +330,189 @@ export class OpenAITranslate implements ITranslate {
         { role: "user", content: userPrompt },
       ],
       temperature: this.temperature,
-      max_tokens: this.maxTokens,
+      max_tokens: this.maxTokens * texts.length,
       top_p: this.topP,
       n: this.n,
       frequency_penalty: this.frequencyPenalty,
       presence_penalty: this.presencePenalty,
     });
 
-    if (response.choices[0].message.content !== null) {
-      result = Util.replaceArgumentsWithNumbers(
-        args,
-        response.choices[0].message.content,
+    const translations = this.parseBatchResponse(
+      response.choices[0].message.content,
+    );
+    if (translations.length !== texts.length) {
+      throw new Error(
+        `Expected ${texts.length} translations but received ${translations.length}`,
       );
-      result = result.replace(/^\n+|\n+$/g, "");
-    } else {
-      console.error(`can not translate text with 
-      system prompt : ${systemPrompt} 
-      and 
-      user prompt : ${userPrompt} `);
-      result = Util.replaceArgumentsWithNumbers(args, result);
     }
-    return result;
+
+    return translations.map((translation, index) =>
+      Placeholders.restore(translation, replaced[index].tokens),
+    );
+  }
+
+  /**
+   * Translate texts as a JSON object keyed by their key paths. An answer
+   * that lacks keys, adds keys or changes placeholders is thrown as a
+   * BatchMismatchError, so that the chunk is asked again or split through
+   * the scheduler. Failed requests, rate limits included, are thrown to the
+   * scheduler as they are.
+   */
+  private async translateStructured(
+    texts: string[],
+    sourceLocale: string,
+    targetLocale: string,
+    contexts?: Array<string | undefined>,
+    keys?: string[],
+  ): Promise<string[]> {
+    const variables = this.getVariables(sourceLocale, targetLocale);
+    const replaced = texts.map((text) => Placeholders.protect(text));
+    // texts without a key, or sharing one, still get distinct ids
+    const ids: string[] = [];
+    for (const [index, key] of texts
+      .map((_text, i) => keys?.[i] ?? `${i}`)
+      .entries()) {
+      let id = key;
+      for (let n = 2; ids.includes(id); n++) {
+        id = `${key}#${n}`;
+      }
+      ids[index] = id;
+    }
+
+    const source = Object.fromEntries(
+      ids.map((id, index) => [id, replaced[index].text]),
+    );
+    const notes = ids.flatMap((id, index) =>
+      contexts?.[index]
+        ? [`Context for ${JSON.stringify(id)}: ${contexts[index]}`]
+        : [],
+    );
+    const content = await this.requestObject(source, variables, notes);
+    let answer: Record<string, string>;
+    try {
+      answer = this.parseObject(content, source);
+    } catch (error) {
+      throw new BatchMismatchError(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    return ids.map((id, index) =>
+      Placeholders.restore(answer[id], replaced[index].tokens),
+    );
+  }
+
+  /**
+   * Send a JSON object of texts under a schema of its keys.
+   */
+  private async requestObject(
+    source: Record<string, string>,
+    variables: Record<string, string>,
+    notes: string[],
+  ): Promise<string | null> {
+    const ids = Object.keys(source);
+    const userPrompt = render(this.prompts.user ?? "{{text}}", {
+      ...variables,
+      text: JSON.stringify(source),
+    });
+    const systemPrompt = [
+      `${render(
+        this.prompts.system ?? defaultStructuredSystemPrompt,
+        variables,
+      )} ${structuredInstructions}`,
+      ...notes,
+    ].join("\n");
+    const promptTokens = Math.ceil(
+      (systemPrompt.length + userPrompt.length) / charactersPerToken,
+    );
+
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "translations",
+          strict: true,
+          schema: {
+            type: "object",
+            properties: Object.fromEntries(
+              ids.map((id) => [id, { type: "string" }]),
+            ),
+            required: ids,
+            additionalProperties: false,
+          },
+        },
+      },
+      temperature: this.temperature,
+      max_tokens: Math.max(
+        this.maxTokens,
+        (this.structured?.tokenBudget ?? 4000) - promptTokens,
+      ),
+      top_p: this.topP,
+      n: this.n,
+      frequency_penalty: this.frequencyPenalty,
+      presence_penalty: this.presencePenalty,
+    });
+    return response.choices[0].message.content;
+  }
+
+  /**
+   * Check that an answer has exactly the keys of the source and, for every
+   * key, the same placeholders.
+   */
+  private parseObject(
+    content: string | null,
+    source: Record<string, string>,
+  ): Record<string, string> {
+    const ids = Object.keys(source);
+    const answer = this.parseJson(content);
+    if (
+      typeof answer !== "object" ||
+      answer === null ||
+      Array.isArray(answer)
+    ) {
+      throw new Error("Structured translation response is not a JSON object");
+    }
+    const missing = ids.filter((id) => typeof answer[id] !== "string");
+    const unexpected = Object.keys(answer).filter((id) => !(id in source));
+    if (missing.length > 0 || unexpected.length > 0) {
+      throw new Error(
+        `Structured translation keys differ (missing: ${missing.join(", ") || "-"}, unexpected: ${unexpected.join(", ") || "-"})`,
+      );
+    }
+    const changed = ids.filter((id) =>
+      Placeholders.compare(source[id], answer[id]),
+    );
+    if (changed.length > 0) {
+      throw new Error(
+        `Structured translation changed the placeholders of ${changed.join(", ")}`,
+      );
+    }
+    return answer;
+  }
+
+  private parseJson(content: string | null): any {
+    if (content === null) {
+      throw new Error("Empty response for batch translation");
+    }
+    // Models sometimes wrap the JSON in a markdown code fence
+    const json = content
+      .replace(/^\s*```(?:json)?\s*/, "")
+      .replace(/\s*```\s*$/, "");
+    return JSON.parse(json);
+  }
+
+  private parseBatchResponse(content: string | null): string[] {
+    const parsed = this.parseJson(content);
+    if (
+      !Array.isArray(parsed) ||
+      parsed.some((item) => typeof item !== "string")
+    ) {
+      throw new Error("Batch translation response is not a JSON string array");
+    }
+    return parsed;
   }
 }
@@ -0,0 +1,257 @@
+import { Util } from "./util.js";
+
+export type PlaceholderConfiguration = {
+  // recognizers used instead of the defaults of the detected format
+  recognizers?: string[];
+  // extra regular expressions protected in every string
+  patterns?: string[];
+  // what to do with a translation whose placeholders differ from the
+  // source (default "flag")
+  policy?: PlaceholderPolicy;
+};
+
+/**
+ * - retry: translate the string again, then fall back to the source text
+ * - source: write the source text
+ * - keep: keep the previous translation, or the source text if none
+ * - flag: write the translation and report it
+ */
+export type PlaceholderPolicy = "retry" | "source" | "keep" | "flag";
+
+export type PlaceholderDifference = {
+  // placeholders of the source missing from the translation
+  missing: string[];
+  // placeholders of the translation not found in the source
+  unexpected: string[];
+};
+
+export type ProtectedText = {
+  text: string;
+  // original placeholder per token number
+  tokens: string[];
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Recognizers that are tried first when several match at the same position
+const priority = [
+  "i18next",
+  "template",
+  "messageformat",
+  "icu",
+  "delimiters",
+  "apple",
+  "printf",
+  "android",
+  "html",
+];
+
+/**
+ * Registry of placeholder recognizers. Engines call `protect` before
+ * sending a text and `restore` on the translation, so that placeholders
+ * matched by the active recognizers reach the target file untouched.
+ *
+ * The configured delimiters (`{`/`}` by default) are always protected.
+ */
+export class Placeholders {
+  private static recognizers: Map<string, RegExp> = new Map();
+  private static formatDefaults: Map<string, string[]> = new Map();
+  private static active: string[] = [];
+  private static extraPatterns: RegExp[] = [];
+  private static cache: { key: string; pattern: RegExp } | undefined;
+
+  static registerRecognizer(name: string, pattern: RegExp): void {
+    this.recognizers.set(name, pattern);
+    this.cache = undefined;
+  }
+
+  static getRecognizerNames(): string[] {
+    return ["delimiters", ...this.recognizers.keys()];
+  }
+
+  static setFormatDefaults(format: string, recognizers: string[]): void {
+    this.formatDefaults.set(format, recognizers);
+  }
+
+  static getFormatDefaults(format: string | undefined): string[] {
+    const defaults = format ? this.formatDefaults.get(format) : undefined;
+    return defaults ?? this.formatDefaults.get("default") ?? [];
+  }
+
+  /**
+   * Select the recognizers for a run: the project configuration when it
+   * names recognizers, otherwise the defaults of the file format.
+   * Returns the names of the active recognizers.
+   */
+  static configure(
+    format: string | undefined,
+    configuration?: PlaceholderConfiguration,
+  ): string[] {
+    const names = configuration?.recognizers ?? this.getFormatDefaults(format);
+    const unknown = names.filter(
+      (name) => name !== "delimiters" && !this.recognizers.has(name),
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown placeholder recognizer(s): ${unknown.join(", ")}. Available: ${this.getRecognizerNames().join(", ")}`,
+      );
+    }
+
+    this.active = names.filter((name) => name !== "delimiters");
+    this.extraPatterns = (configuration?.patterns ?? []).map(
+      (source) => new RegExp(source),
+    );
+    this.cache = undefined;
+    return ["delimiters", ...this.active];
+  }
+
+  /**
+   * Replace every placeholder with a numbered token built from the
+   * configured delimiters.
+   */
+  static protect(text: string): ProtectedText {
+    const tokens: string[] = [];
+    const protectedText = text.replace(this.pattern(), (match) => {
+      tokens.push(match);
+      return Util.startDelimiter + (tokens.length - 1) + Util.endDelimiter;
+    });
+    return { text: protectedText, tokens };
+  }
+
+  /**
+   * Put the original placeholders back in a single pass, so that a
+   * placeholder which looks like a token is never replaced twice. Engines
+   * sometimes add spaces inside the token, so those are accepted too.
+   */
+  static restore(text: string, tokens: string[]): string {
+    if (tokens.length === 0) {
+      return text;
+    }
+    const start = escapeRegExp(Util.startDelimiter);
+    const end = escapeRegExp(Util.endDelimiter);
+    return text.replace(
+      new RegExp(`${start}\\s*(\\d+)\\s*${end}`, "g"),
+      (match, index) => tokens[Number(index)] ?? match,
+    );
+  }
+
+  /**
+   * List the placeholders found in a text.
+   */
+  static find(text: string): string[] {
+    return text.match(this.pattern()) ?? [];
+  }
+
+  /**
+   * Compare the placeholders of a source text and its translation, as
+   * multisets: order does not matter, count does. Returns `undefined`
+   * when they match.
+   */
+  static compare(
+    source: string,
+    translation: string,
+  ): PlaceholderDifference | undefined {
+    const remaining = [...this.find(translation)];
+    const missing: string[] = [];
+    for (const placeholder of this.find(source)) {
+      const index = remaining.indexOf(placeholder);
+      if (index === -1) {
+        missing.push(placeholder);
+      } else {
+        remaining.splice(index, 1);
+      }
+    }
+    return missing.length > 0 || remaining.length > 0
+      ? { missing, unexpected: remaining }
+      : undefined;
+  }
+
+  private static pattern(): RegExp {
+    const delimiters = `${escapeRegExp(Util.startDelimiter)}(.*?)${escapeRegExp(Util.endDelimiter)}`;
+    const key = `${delimiters}\u0000${this.active.join(",")}`;
+    if (this.cache?.key !== key) {
+      const sources = [...this.active, "delimiters"]
+        .sort(
+          (a, b) =>
+            (priority.indexOf(a) + 1 || priority.length + 1) -
+            (priority.indexOf(b) + 1 || priority.length + 1),
+        )
+        .map((name) =>
+          name === "delimiters"
+            ? delimiters
+            : (this.recognizers.get(name) as RegExp).source,
+        );
+      sources.push(...this.extraPatterns.map((pattern) => pattern.source));
+      this.cache = {
+        key,
+        pattern: new RegExp(
+          sources.map((source) => `(?:${source})`).join("|"),
+          "g",
+        ),
+      };
+    }
+    this.cache.pattern.lastIndex = 0;
+    return this.cache.pattern;
+  }
+}
+
+// printf style (C, Java, Objective-C, Python, Ruby): %s, %1$d, %.2f, %@, %(name)s, %{name}
+Placeholders.registerRecognizer(
+  "printf",
+  /%%|%(?:\d+\$)?[-+0#']*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|h|ll|l|L|z|j|t|q)?[diouxXeEfFgGaAcspn@]|%\([\w.]+\)[-+0#]*\d*(?:\.\d+)?[diouxXeEfFgGcrs]|%\{\w+\}/,
+);
+// Java MessageFormat: {0}, {1,number,integer}
+Placeholders.registerRecognizer("messageformat", /\{\d+(?:\s*,[^{}]*)?\}/);
+// ICU simple arguments: {name}, {count, number}, {d, date, short}
+Placeholders.registerRecognizer(
+  "icu",
+  /\{\s*\w+\s*(?:,\s*(?:number|date|time|duration|ordinal|spellout)\s*(?:,[^{}]*)?)?\}/,
+);
+// i18next and ngx-translate: {{count}}, {{- html}}, $t(key)
+Placeholders.registerRecognizer("i18next", /\{\{[^{}]+\}\}|\$t\([^()]*\)/);
+// template literals: ${name}
+Placeholders.registerRecognizer("template", /\$\{[^{}]+\}/);
+// HTML and XML tags and entities: <b>, </a>, <br/>, &amp;
+Placeholders.registerRecognizer(
+  "html",
+  /<\/?[A-Za-z][\w:.-]*(?:\s+[^<>]*?)?\/?>|&(?:[A-Za-z]+|#\d+|#x[0-9A-Fa-f]+);/,
+);
+// Android resource references: @string/app_name, @android:string/ok, and
+// untranslatable parts: <xliff:g id="name">%1$s</xliff:g>
+Placeholders.registerRecognizer(
+  "android",
+  /@(?:android:)?(?:string|plurals|array)\/[\w.]+|<xliff:g\b[^>]*>[\s\S]*?<\/xliff:g>/,
+);
+// Apple stringsdict and string catalog variables: %#@count@, %1$#@files@
+Placeholders.registerRecognizer("apple", /%(?:\d+\$)?#@\w+@/);
+// .NET composite formatting: {0}, {0:N2}, {1,-10}, {2,8:yyyy-MM-dd}
+Placeholders.registerRecognizer("dotnet", /\{\d+(?:,\s*-?\d+)?(?::[^{}]*)?\}/);
+
+Placeholders.setFormatDefaults("default", ["icu", "i18next", "printf", "html"]);
+Placeholders.setFormatDefaults("json", [
+  "i18next",
+  "icu",
+  "template",
+  "printf",
+  "html",
+]);
+Placeholders.setFormatDefaults("arb", ["icu", "html"]);
+Placeholders.setFormatDefaults("xliff", ["icu", "printf", "html"]);
+Placeholders.setFormatDefaults("xmb", ["icu", "printf", "html"]);
+Placeholders.setFormatDefaults("xtb", ["icu", "printf", "html"]);
+Placeholders.setFormatDefaults("po", ["printf", "html"]);
+Placeholders.setFormatDefaults("pot", ["printf", "html"]);
+Placeholders.setFormatDefaults("properties", ["messageformat", "printf"]);
+Placeholders.setFormatDefaults("yaml", ["printf", "i18next", "html"]);
+Placeholders.setFormatDefaults("android-xml", ["printf", "android", "html"]);
+Placeholders.setFormatDefaults("ios-xml", ["printf", "html"]);
+Placeholders.setFormatDefaults("strings", ["apple", "printf", "html"]);
+Placeholders.setFormatDefaults("stringsdict", ["apple", "printf", "html"]);
+Placeholders.setFormatDefaults("xcstrings", ["apple", "printf", "html"]);
+Placeholders.setFormatDefaults("resx", ["dotnet", "html"]);
+Placeholders.setFormatDefaults("resw", ["dotnet", "html"]);
+Placeholders.setFormatDefaults("xml", ["printf", "html"]);
+Placeholders.setFormatDefaults("generic-xml", ["printf", "html"]);
+Placeholders.setFormatDefaults("csv", ["icu", "i18next", "printf", "html"]);
+Placeholders.setFormatDefaults("tsv", ["icu", "i18next", "printf", "html"]);
@@ -1,34 +1,121 @@
-import type { Configuration } from "./config.js";
+import type {
+  Configuration,
+  EngineKeyInfo,
+  TranslationKeyInfo,
+} from "./config.js";
+import { FallbackTranslate } from "./fallback.js";
 import type { ITranslate } from "./translate.interface.js";
+import { TranslateEngineFactory } from "./translate-engine-factory.js";
 
+export { TranslateEngineFactory };
+
+/**
+ * Wraps an engine of the chain, e.g. with a scheduler for its provider.
+ */
+export type EngineDecorator = (
+  engine: ITranslate,
+  translationKeyInfo: EngineKeyInfo,
+) => ITranslate;
+
+/**
+ * Create the engine of `translationKeyInfo`. With `fallbackEngines`, the
+ * result is a chain that falls through to the next engine for unsupported
+ * locales and failed strings.
+ */
 export async function createTranslateEngine(
   config: Configuration,
+  decorate: EngineDecorator = (engine) => engine,
 ): Promise<ITranslate> {
-  const { translationKeyInfo } = config;
+  const chain = [config.translationKeyInfo, ...(config.fallbackEngines ?? [])];
+  const logger = config.logger ?? console;
+  const engines = [];
+  for (const translationKeyInfo of chain) {
+    engines.push({
+      id: getEngineId(translationKeyInfo),
+      engine: decorate(
+        await TranslateEngineFactory.createEngine(translationKeyInfo, logger),
+        translationKeyInfo,
+      ),
+    });
+  }
+  return engines.length === 1
+    ? engines[0].engine
+    : new FallbackTranslate(engines, logger);
+}
 
-  if (translationKeyInfo.kind === "google") {
-    const { GoogleTranslate } = await import("./google.js");
-    return GoogleTranslate.initialize(translationKeyInfo.apiKey);
-  } else if (translationKeyInfo.kind === "aws") {
+type KeyInfo<Kind extends string> = Extract<TranslationKeyInfo, { kind: Kind }>;
+
+// built-in engines, each loaded on first use
+TranslateEngineFactory.registerEngine<KeyInfo<"aws">>("aws", {
+  description: "AWS Translate (requires ATJ_AWS_* env vars)",
+  schema: {
+    accessKeyId: { type: "string", required: true },
+    secretAccessKey: { type: "string", required: true },
+    region: { type: "string", required: true },
+  },
+  async create({ accessKeyId, secretAccessKey, region }) {
     const { AWSTranslate } = await import("./aws.js");
-    return new AWSTranslate(
-      translationKeyInfo.accessKeyId,
-      translationKeyInfo.secretAccessKey,
-      translationKeyInfo.region,
-    );
-  } else if (translationKeyInfo.kind === "azure") {
+    return new AWSTranslate(accessKeyId, secretAccessKey, region);
+  },
+});
+
+TranslateEngineFactory.registerEngine<KeyInfo<"azure">>("azure", {
+  description: "Azure Translator (requires ATJ_AZURE_* env vars)",
+  schema: {
+    secretKey: { type: "string", required: true },
+    region: { type: "string", required: true },
+  },
+  async create({ secretKey, region }) {
     const { AzureTranslate } = await import("./azure.js");
-    return new AzureTranslate(
-      translationKeyInfo.secretKey,
-      translationKeyInfo.region,
-    );
-  } else if (translationKeyInfo.kind === "deepLFree") {
+    return new AzureTranslate(secretKey, region);
+  },
+});
+
+TranslateEngineFactory.registerEngine<KeyInfo<"google">>("google", {
+  description: "Google Translate (requires ATJ_GOOGLE_API_KEY)",
+  schema: { apiKey: { type: "string", required: true } },
+  async create({ apiKey }) {
+    const { GoogleTranslate } = await import("./google.js");
+    return GoogleTranslate.initialize(apiKey);
+  },
+});
+
+TranslateEngineFactory.registerEngine<KeyInfo<"deepLPro">>("deepLPro", {
+  description: "DeepL Pro API (requires ATJ_DEEPL_PRO_SECRET_KEY)",
+  schema: { secretKey: { type: "string", required: true } },
+  async create({ secretKey }) {
     const { DeepLTranslate } = await import("./deepl.js");
-    return new DeepLTranslate(translationKeyInfo.secretKey, "free");
-  } else if (translationKeyInfo.kind === "deepLPro") {
+    return new DeepLTranslate(secretKey, "pro");
+  },
+});
+
+TranslateEngineFactory.registerEngine<KeyInfo<"deepLFree">>("deepLFree", {
+  description: "DeepL Free API (requires ATJ_DEEPL_FREE_SECRET_KEY)",
+  schema: { secretKey: { type: "string", required: true } },
+  async create({ secretKey }) {
     const { DeepLTranslate } = await import("./deepl.js");
-    return new DeepLTranslate(translationKeyInfo.secretKey, "pro");
-  } else if (translationKeyInfo.kind === "openai") {
+    return new DeepLTranslate(secretKey, "free");
+  },
+});
+
+TranslateEngineFactory.registerEngine<KeyInfo<"openai">>("openai", {
+  description: "OpenAI API or local Ollama (requires ATJ_OPEN_AI_SECRET_KEY)",
+  schema: {
+    apiKey: { type: "string", required: true },
+    baseUrl: { type: "string" },
+    model: { type: "string", required: true },
+    maxTokens: { type: "number" },
+    temperature: { type: "number" },
+    topP: { type: "number" },
+    n: { type: "number" },
+    frequencyPenalty: { type: "number" },
+    presencePenalty: { type: "number" },
+    systemPrompt: { type: "string" },
+    userPrompt: { type: "string" },
+    structured: { type: "boolean" },
+    tokenBudget: { type: "number" },
+  },
+  async create(translationKeyInfo) {
     const { OpenAITranslate } = await import("./openai.js");
     return new OpenAITranslate(
       translationKeyInfo.apiKey,
@@ -40,22 +127,66 @@ export async function createTranslateEngine(
       translationKeyInfo.n,
       translationKeyInfo.presencePenalty,
       translationKeyInfo.frequencyPenalty,
+      {
+        system: translationKeyInfo.systemPrompt,
+        user: translationKeyInfo.userPrompt,
+      },
+      translationKeyInfo.structured
+        ? { tokenBudget: translationKeyInfo.tokenBudget }
+        : undefined,
     );
-  } else if (translationKeyInfo.kind === "huggingface") {
+  },
+});
+
+TranslateEngineFactory.registerEngine<KeyInfo<"huggingface">>("huggingface", {
+  description: "Hugging Face Cloud API (requires ATJ_HUGGING_FACE_API_KEY)",
+  schema: {
+    apiKey: { type: "string", required: true },
+    model: { type: "string", required: true },
+    provider: { type: "string" },
+  },
+  async create({ apiKey, model, provider }) {
     const { HuggingFaceTranslate } = await import("./huggingface.js");
-    return new HuggingFaceTranslate(
-      translationKeyInfo.apiKey,
-      translationKeyInfo.model,
-      translationKeyInfo.provider,
-    );
-  } else if (translationKeyInfo.kind === "huggingface-local") {
-    const { HuggingFaceLocalTranslate } = await import(
-      "./huggingface-local.js"
-    );
-    return new HuggingFaceLocalTranslate(translationKeyInfo.model);
-  } else {
-    throw new Error(
-      "You must provide a Google, AWS, Azure, deepL, openai, huggingface, or huggingface-local parameters first in the extension settings.",
-    );
+    return new HuggingFaceTranslate(apiKey, model, provider);
+  },
+});
+
+TranslateEngineFactory.registerEngine<KeyInfo<"huggingface-local">>(
+  "huggingface-local",
+  {
+    description:
+      "Hugging Face Local ONNX (requires ATJ_HUGGING_FACE_LOCAL_MODEL)",
+    schema: { model: { type: "string", required: true } },
+    async create({ model }) {
+      const { HuggingFaceLocalTranslate } = await import(
+        "./huggingface-local.js"
+      );
+      return new HuggingFaceLocalTranslate(model);
+    },
+  },
+);
+
+TranslateEngineFactory.registerEngine<KeyInfo<"pseudo">>("pseudo", {
+  description:
+    "Offline pseudo-localization (ATJ_PSEUDO_MODE, ATJ_PSEUDO_EXPANSION)",
+  schema: {
+    mode: { type: "string" },
+    expansion: { type: "number" },
+    brackets: { type: "boolean" },
+  },
+  async create({ mode, expansion, brackets }) {
+    const { PseudoTranslate } = await import("./pseudo.js");
+    return new PseudoTranslate({ mode, expansion, brackets });
+  },
+});
+
+/**
+ * Identify the engine that produced a translation. Model based engines
+ * include the model, as different models give different output.
+ */
+export function getEngineId(translationKeyInfo: EngineKeyInfo): string {
+  if ("model" in translationKeyInfo && translationKeyInfo.model) {
+    return `${translationKeyInfo.kind}:${translationKeyInfo.model}`;
   }
+  return translationKeyInfo.kind;
 }
@@ -0,0 +1,234 @@
+import { Placeholders } from "./placeholders.js";
+import type { BatchLimits, ITranslate } from "./translate.interface.js";
+import { Util } from "./util.js";
+
+/**
+ * - `accents`: accented letters, padded with extra words (`en-XA`)
+ * - `rtl`: words forced right to left, to test mirrored layouts (`ar-XB`)
+ * - `german`: accented letters, lengthened inside the words, like long
+ *   German compounds that cannot wrap
+ */
+export type PseudoMode = "accents" | "rtl" | "german";
+
+export type PseudoOptions = {
+  // mode of the locales that are not a conventional pseudo-locale
+  mode?: PseudoMode;
+  // extra length as a share of the text length (default 0.3, 0.4 in
+  // german mode)
+  expansion?: number;
+  // wrap texts in [ ], to spot truncated and concatenated strings
+  brackets?: boolean;
+};
+
+const pseudoModes: PseudoMode[] = ["accents", "rtl", "german"];
+
+// conventional pseudo-locales: Android and Windows
+const localeModes: Record<string, PseudoMode> = {
+  "en-xa": "accents",
+  "qps-ploc": "accents",
+  "ar-xb": "rtl",
+  "qps-plocm": "rtl",
+};
+
+const accents: Record<string, string> = {
+  a: "á",
+  b: "ƀ",
+  c: "ç",
+  d: "ð",
+  e: "é",
+  f: "ƒ",
+  g: "ĝ",
+  h: "ĥ",
+  i: "î",
+  j: "ĵ",
+  k: "ķ",
+  l: "ļ",
+  m: "ɱ",
+  n: "ñ",
+  o: "ö",
+  p: "þ",
+  q: "ǫ",
+  r: "ŕ",
+  s: "š",
+  t: "ţ",
+  u: "û",
+  v: "ṽ",
+  w: "ŵ",
+  x: "ẋ",
+  y: "ý",
+  z: "ž",
+  A: "Å",
+  B: "Ɓ",
+  C: "Ç",
+  D: "Ð",
+  E: "É",
+  F: "Ƒ",
+  G: "Ĝ",
+  H: "Ĥ",
+  I: "Î",
+  J: "Ĵ",
+  K: "Ķ",
+  L: "Ļ",
+  M: "Ṁ",
+  N: "Ñ",
+  O: "Ö",
+  P: "Þ",
+  Q: "Ǫ",
+  R: "Ŕ",
+  S: "Š",
+  T: "Ţ",
+  U: "Û",
+  V: "Ṽ",
+  W: "Ŵ",
+  X: "Ẋ",
+  Y: "Ý",
+  Z: "Ž",
+};
+
+const paddingWords = [
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+];
+
+// right-to-left mark and override, pop directional formatting
+const rtlStart = "\u200F\u202E";
+const rtlEnd = "\u202C\u200F";
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Offline engine producing pseudo-translations, to test layouts for text
+ * expansion, truncation and hardcoded strings. Placeholders are left
+ * untouched. Any target locale is accepted; `en-XA` and `ar-XB` (and the
+ * Windows `qps-ploc` and `qps-plocm`) always use their conventional mode.
+ */
+export class PseudoTranslate implements ITranslate {
+  // no requests: every text is a single cheap call
+  readonly batchLimits: BatchLimits = { maxItems: Number.POSITIVE_INFINITY };
+  private readonly mode: PseudoMode;
+
+  constructor(private readonly options: PseudoOptions = {}) {
+    if (options.mode && !pseudoModes.includes(options.mode)) {
+      throw new Error(
+        `Unknown pseudo-localization mode '${options.mode}', use one of: ${pseudoModes.join(", ")}`,
+      );
+    }
+    this.mode = options.mode ?? "accents";
+  }
+
+  isValidLocale(_targetLocale: string): boolean {
+    return true;
+  }
+
+  async translateText(
+    text: string,
+    _sourceLocale: string,
+    targetLocale: string,
+  ): Promise<string> {
+    return this.pseudoLocalize(text, this.getMode(targetLocale));
+  }
+
+  async translateBatch(
+    texts: string[],
+    _sourceLocale: string,
+    targetLocale: string,
+  ): Promise<string[]> {
+    const mode = this.getMode(targetLocale);
+    return texts.map((text) => this.pseudoLocalize(text, mode));
+  }
+
+  getMode(targetLocale: string): PseudoMode {
+    return (
+      localeModes[targetLocale.toLowerCase().replace(/_/g, "-")] ?? this.mode
+    );
+  }
+
+  pseudoLocalize(text: string, mode: PseudoMode): string {
+    const { text: protectedText, tokens } = Placeholders.protect(text);
+    // tokens are kept out of the transformed runs of text
+    const token = new RegExp(
+      `(${escapeRegExp(Util.startDelimiter)}\\d+${escapeRegExp(Util.endDelimiter)})`,
+    );
+    const parts = protectedText.split(token);
+    const length = parts
+      .filter((_part, index) => index % 2 === 0)
+      .join("").length;
+    const expansion = this.options.expansion ?? (mode === "german" ? 0.4 : 0.3);
+    const extra = Math.ceil(length * expansion);
+
+    let result: string;
+    if (mode === "german") {
+      result = this.lengthenWords(parts, extra);
+    } else {
+      const transformed = parts
+        .map((part, index) =>
+          index % 2 === 1
+            ? part
+            : mode === "rtl"
+              ? part.replace(/\p{L}+/gu, (word) => rtlStart + word + rtlEnd)
+              : this.accentuate(part),
+        )
+        .join("");
+      result =
+        extra > 0 ? `${transformed} ${this.padding(extra)}` : transformed;
+    }
+
+    if (this.options.brackets ?? true) {
+      result = `[${result}]`;
+    }
+    return Placeholders.restore(result, tokens);
+  }
+
+  private accentuate(text: string): string {
+    return text.replace(/[a-z]/gi, (letter) => accents[letter] ?? letter);
+  }
+
+  // as many padding words as fit in `length` characters, at least one
+  private padding(length: number): string {
+    const words: string[] = [];
+    let size = -1;
+    for (let index = 0; size < length - 1; index++) {
+      const word = paddingWords[index % paddingWords.length];
+      words.push(word);
+      size += word.length + 1;
+    }
+    return words.join(" ");
+  }
+
+  // repeat vowels across the words until `extra` characters were added
+  private lengthenWords(parts: string[], extra: number): string {
+    const total = parts
+      .filter((_part, index) => index % 2 === 0)
+      .join("")
+      .replace(/[^aeiouy]/gi, "").length;
+    if (total === 0) {
+      return parts
+        .map((part, index) => (index % 2 === 0 ? this.accentuate(part) : part))
+        .join("");
+    }
+    const repeat = Math.ceil(extra / total);
+    let added = 0;
+    return parts
+      .map((part, index) =>
+        index % 2 === 1
+          ? part
+          : this.accentuate(
+              part.replace(/[aeiouy]/gi, (vowel) => {
+                const count = Math.min(repeat, extra - added);
+                added += count;
+                return vowel + vowel.toLowerCase().repeat(count);
+              }),
+            ),
+      )
+      .join("");
+  }
+}
@@ -0,0 +1,233 @@
+import { setTimeout as sleep } from "timers/promises";
+import type { Logger, RateLimits, SchedulerConfiguration } from "./config.js";
+import type { BatchLimits, ITranslate } from "./translate.interface.js";
+
+const defaultMaxConcurrency = 1;
+const defaultMaxRetries = 5;
+const defaultRetryDelayMs = 1000;
+
+/**
+ * Detect rate limit (HTTP 429 / throttling) errors raised by the
+ * different provider SDKs.
+ */
+export function isRateLimitError(error: any): boolean {
+  if (!error || typeof error !== "object") {
+    return false;
+  }
+  return (
+    error.response?.status === 429 || // axios (Azure)
+    error.status === 429 || // openai
+    error.code === 429 || // google
+    error.$metadata?.httpStatusCode === 429 || // aws
+    error.name === "ThrottlingException" || // aws
+    // deepl-node's error classes leave `name` as "Error"
+    error.constructor?.name === "TooManyRequestsError" // deepl
+  );
+}
+
+/**
+ * Read the Retry-After header (seconds) from a rate limit error, if any.
+ */
+function getRetryAfterMs(error: any): number | undefined {
+  const retryAfter =
+    error?.response?.headers?.["retry-after"] ??
+    error?.headers?.["retry-after"];
+  const seconds = Number(retryAfter);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Schedules translation requests with a bounded number of requests in
+ * flight, optional requests-per-second and characters-per-minute limits,
+ * and retries for rate limited requests.
+ */
+export class TranslationScheduler {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private requestStarts: number[] = [];
+  private characterUsage: Array<{ time: number; characters: number }> = [];
+
+  private readonly maxConcurrency: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly limits: RateLimits;
+
+  constructor(
+    config: SchedulerConfiguration = {},
+    engineKind?: string,
+    private readonly logger: Logger = console,
+  ) {
+    this.maxConcurrency = Math.max(
+      1,
+      config.maxConcurrency ?? defaultMaxConcurrency,
+    );
+    this.maxRetries = config.maxRetries ?? defaultMaxRetries;
+    this.retryDelayMs = config.retryDelayMs ?? defaultRetryDelayMs;
+    this.limits = {
+      requestsPerSecond: config.requestsPerSecond,
+      charactersPerMinute: config.charactersPerMinute,
+      ...(engineKind ? config.providers?.[engineKind] : undefined),
+    };
+  }
+
+  /**
+   * Run a request once a slot and rate limit capacity are available.
+   * Rate limited requests are retried with exponential backoff, honouring
+   * the provider's Retry-After header when present.
+   */
+  async schedule<T>(characters: number, task: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let delay: number;
+      await this.acquireSlot();
+      try {
+        await this.waitForRateLimit(characters);
+        return await task();
+      } catch (error) {
+        if (!isRateLimitError(error) || attempt >= this.maxRetries) {
+          throw error;
+        }
+        delay = getRetryAfterMs(error) ?? this.retryDelayMs * 2 ** attempt;
+        this.logger.warn(
+          `Rate limit exceeded. Retrying in ${Math.round(delay / 1000)} seconds... (Attempt ${attempt + 1}/${this.maxRetries})`,
+        );
+      } finally {
+        this.releaseSlot();
+      }
+      await sleep(delay);
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    // the releasing request hands its slot over directly
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async waitForRateLimit(characters: number): Promise<void> {
+    const { requestsPerSecond, charactersPerMinute } = this.limits;
+
+    for (;;) {
+      const now = Date.now();
+      this.requestStarts = this.requestStarts.filter(
+        (time) => now - time < 1000,
+      );
+      this.characterUsage = this.characterUsage.filter(
+        (usage) => now - usage.time < 60000,
+      );
+
+      let wait = 0;
+      if (requestsPerSecond && this.requestStarts.length >= requestsPerSecond) {
+        wait = Math.max(wait, this.requestStarts[0] + 1000 - now);
+      }
+      if (charactersPerMinute && this.characterUsage.length > 0) {
+        const used = this.characterUsage.reduce(
+          (sum, usage) => sum + usage.characters,
+          0,
+        );
+        if (used + characters > charactersPerMinute) {
+          wait = Math.max(wait, this.characterUsage[0].time + 60000 - now);
+        }
+      }
+
+      if (wait <= 0) {
+        this.requestStarts.push(now);
+        this.characterUsage.push({ time: now, characters });
+        return;
+      }
+      await sleep(wait);
+    }
+  }
+}
+
+/**
+ * Decorates an engine so that every provider request goes through the
+ * scheduler.
+ */
+export class ScheduledTranslate implements ITranslate {
+  readonly batchLimits?: BatchLimits;
+  translateBatch?: ITranslate["translateBatch"];
+  useGlossary?: ITranslate["useGlossary"];
+
+  constructor(
+    private engine: ITranslate,
+    private scheduler: TranslationScheduler,
+  ) {
+    this.batchLimits = engine.batchLimits;
+    if (engine.useGlossary) {
+      const useGlossary = engine.useGlossary.bind(engine);
+      this.useGlossary = (entries, sourceLocale, targetLocale) =>
+        this.scheduler.schedule(0, () =>
+          useGlossary(entries, sourceLocale, targetLocale),
+        );
+    }
+    if (engine.translateBatch) {
+      const translateBatch = engine.translateBatch.bind(engine);
+      this.translateBatch = (
+        texts,
+        sourceLocale,
+        targetLocale,
+        contexts,
+        keys,
+      ) =>
+        this.scheduler.schedule(
+          texts.reduce((sum, text) => sum + text.length, 0),
+          () =>
+            translateBatch(texts, sourceLocale, targetLocale, contexts, keys),
+        );
+    }
+  }
+
+  isValidLocale(targetLocale: string): boolean {
+    return this.engine.isValidLocale(targetLocale);
+  }
+
+  translateText(
+    text: string,
+    sourceLocale: string,
+    targetLocale: string,
+    context?: string,
+    key?: string,
+  ): Promise<string> {
+    return this.scheduler.schedule(text.length, () =>
+      this.engine.translateText(text, sourceLocale, targetLocale, context, key),
+    );
+  }
+}
+
+/**
+ * Run `task` for every item with at most `limit` tasks running at once.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(1, limit), items.length) },
+    worker,
+  );
+  await Promise.all(workers);
+  return results;
+}
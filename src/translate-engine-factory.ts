@@ -0,0 +1,123 @@
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { EngineKeyInfo, Logger } from "./config.js";
+import type { ITranslate } from "./translate.interface.js";
+
+export type EngineOption = {
+  type: "string" | "number" | "boolean" | "object";
+  required?: boolean;
+  description?: string;
+  // environment variable the CLI reads the option from
+  env?: string;
+};
+
+// engine option -> its description; `kind` is implied
+export type EngineConfigSchema = Record<string, EngineOption>;
+
+export interface TranslateEngineDefinition<
+  T extends EngineKeyInfo = EngineKeyInfo,
+> {
+  // one line for the CLI help
+  description?: string;
+  schema: EngineConfigSchema;
+  // `logger` receives the engine's warnings, see Configuration.logger
+  create(
+    translationKeyInfo: T,
+    logger: Logger,
+  ): ITranslate | Promise<ITranslate>;
+}
+
+/**
+ * Registry of the translation engines, by `kind`. Engine modules named in
+ * the configuration register their engines when loaded, either on import
+ * or from an exported `register(factory)` function.
+ */
+export class TranslateEngineFactory {
+  private static engines: Map<string, TranslateEngineDefinition> = new Map();
+
+  static registerEngine<T extends EngineKeyInfo>(
+    kind: T["kind"],
+    definition: TranslateEngineDefinition<T>,
+  ): void {
+    this.engines.set(kind, definition as TranslateEngineDefinition);
+  }
+
+  static getEngine(kind: string): TranslateEngineDefinition | undefined {
+    return this.engines.get(kind);
+  }
+
+  static getSupportedEngines(): string[] {
+    return Array.from(this.engines.keys());
+  }
+
+  static hasEngine(kind: string): boolean {
+    return this.engines.has(kind);
+  }
+
+  static getAllEngines(): Map<string, TranslateEngineDefinition> {
+    return new Map(this.engines);
+  }
+
+  /**
+   * Problems of an engine configuration: missing required options and
+   * options of the wrong type. Options the schema does not list are allowed.
+   */
+  static validate(translationKeyInfo: EngineKeyInfo): string[] {
+    const definition = this.engines.get(translationKeyInfo.kind);
+    if (!definition) {
+      return [`unknown engine '${translationKeyInfo.kind}'`];
+    }
+    const options = translationKeyInfo as Record<string, unknown>;
+    const errors: string[] = [];
+    for (const [name, option] of Object.entries(definition.schema)) {
+      const value = options[name];
+      if (value === undefined || value === null || value === "") {
+        if (option.required) {
+          errors.push(`${name} is required`);
+        }
+      } else if (typeof value !== option.type) {
+        errors.push(`${name} must be a ${option.type}`);
+      }
+    }
+    return errors;
+  }
+
+  static async createEngine(
+    translationKeyInfo: EngineKeyInfo,
+    logger: Logger = console,
+  ): Promise<ITranslate> {
+    const definition = this.engines.get(translationKeyInfo.kind);
+    if (!definition) {
+      throw new Error(
+        `Unknown translation engine '${translationKeyInfo.kind}', registered engines: ${this.getSupportedEngines().join(", ")}`,
+      );
+    }
+    const errors = this.validate(translationKeyInfo);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid ${translationKeyInfo.kind} configuration: ${errors.join(", ")}`,
+      );
+    }
+    return definition.create(translationKeyInfo, logger);
+  }
+
+  /**
+   * Import engine modules: package names, or paths relative to `directory`.
+   */
+  static async loadModules(
+    modules: string[],
+    directory: string = process.cwd(),
+  ): Promise<void> {
+    for (const specifier of modules) {
+      const url =
+        specifier.startsWith(".") || isAbsolute(specifier)
+          ? pathToFileURL(resolve(directory, specifier)).href
+          : specifier;
+      const engineModule = await import(url);
+      const register = engineModule.register ?? engineModule.default;
+      if (typeof register === "function") {
+        await register(TranslateEngineFactory);
+      }
+    }
+  }
+}
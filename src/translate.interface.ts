@@ -1,11 +1,57 @@
 export interface ITranslate {
   isValidLocale(targetLocale: string): boolean;
+  /**
+   * `key` is the path of the text in the file ("menu.file.open"), for
+   * engines that can use it as a hint. Rejects when the text could not be
+   * translated, so that the text can go to a fallback engine.
+   */
   translateText(
     text: string,
     sourceLocale: string,
     targetLocale: string,
     context?: string,
+    key?: string,
   ): Promise<string>;
+
+  /**
+   * Translate several texts in a single provider request.
+   * Results must be returned in the same order as `texts`.
+   * Engines without a native batch API can omit this; the core then
+   * falls back to calling `translateText` once per text.
+   */
+  translateBatch?(
+    texts: string[],
+    sourceLocale: string,
+    targetLocale: string,
+    contexts?: Array<string | undefined>,
+    keys?: string[],
+  ): Promise<string[]>;
+
+  /**
+   * Provider limits used to split a batch into chunks.
+   */
+  readonly batchLimits?: BatchLimits;
+
+  /**
+   * Register glossary entries with the provider for a language pair.
+   * Resolves to `true` when the engine enforces them itself in later
+   * requests for that pair; otherwise the core protects the terms.
+   */
+  useGlossary?(
+    entries: GlossaryEntries,
+    sourceLocale: string,
+    targetLocale: string,
+  ): Promise<boolean>;
+}
+
+/**
+ * Expected target text per source term.
+ */
+export type GlossaryEntries = Record<string, string>;
+
+export interface BatchLimits {
+  maxItems: number;
+  maxCharacters?: number;
 }
 
 export interface TranslationFile {
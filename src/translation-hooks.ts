@@ -0,0 +1,65 @@
+import type { LocaleResult } from "./translation-result.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface LocaleStartEvent {
+  locale: string;
+  // position of the locale in the run, starting at 0
+  index: number;
+  total: number;
+  // strings that need a translation in this locale
+  keys: number;
+}
+
+export interface KeyEvent {
+  locale: string;
+  // key path from the root of the file, `key#one` for a segment of an ICU message
+  key: string;
+  // source text; changed by beforeTranslate when it substitutes the text
+  text: string;
+  context?: string;
+}
+
+export interface TranslatedKeyEvent extends KeyEvent {
+  translation: string;
+  origin: "engine" | "memory" | "hook";
+  // id of the engine that produced the translation (origin "engine")
+  engine?: string;
+}
+
+export interface LocaleSavedEvent {
+  locale: string;
+  result: LocaleResult;
+}
+
+export interface TranslationErrorEvent {
+  locale: string;
+  // missing when the whole locale failed
+  key?: string;
+  error: Error;
+}
+
+/**
+ * `false` skips the key (the existing translation or the source text is
+ * written), a string replaces the text sent to the engine and
+ * `{ translation }` provides the translation without calling the engine.
+ */
+export type BeforeTranslateResult =
+  | undefined
+  | false
+  | string
+  | { translation: string };
+
+/**
+ * Callbacks invoked while a run progresses. They may be async; the run
+ * waits for them, and an exception fails the current locale.
+ */
+export interface TranslationHooks {
+  onLocaleStart?(event: LocaleStartEvent): MaybePromise<void>;
+  beforeTranslate?(event: KeyEvent): MaybePromise<BeforeTranslateResult>;
+  // return a string to replace the engine output before it is saved
+  afterTranslate?(event: TranslatedKeyEvent): MaybePromise<string | undefined>;
+  onKeyTranslated?(event: TranslatedKeyEvent): MaybePromise<void>;
+  onLocaleSaved?(event: LocaleSavedEvent): MaybePromise<void>;
+  onError?(event: TranslationErrorEvent): MaybePromise<void>;
+}
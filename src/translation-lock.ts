@@ -0,0 +1,108 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import type { Logger } from "./config.js";
+
+export const lockFileName = "atj.lock";
+
+type LockFileData = {
+  version: 1;
+  // file key -> target locale -> key path -> source hash
+  files: Record<string, Record<string, Record<string, string>>>;
+};
+
+/**
+ * Source hashes recorded for one target locale during a run.
+ */
+export interface LocaleLock {
+  // hashes recorded when the locale was last translated
+  previous: Record<string, string>;
+  // hashes of the current source values
+  next: Record<string, string>;
+  // key paths whose source value changed since the last run
+  stale: string[];
+}
+
+/**
+ * Sidecar lock file that remembers a hash of every source value at the
+ * time it was translated, so that only keys whose source text changed
+ * are sent to the engine again.
+ */
+export class TranslationLock {
+  private data: LockFileData;
+
+  constructor(
+    readonly filePath: string,
+    logger: Logger = console,
+  ) {
+    this.data = { version: 1, files: {} };
+    if (fs.existsSync(filePath)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+        if (parsed?.files) {
+          this.data = parsed;
+        }
+      } catch (error) {
+        logger.warn(`Ignoring unreadable lock file ${filePath}: ${error}`);
+      }
+    }
+  }
+
+  static hash(value: string): string {
+    return createHash("sha256").update(value).digest("hex").substring(0, 16);
+  }
+
+  createLocaleLock(fileKey: string, locale: string): LocaleLock {
+    return {
+      previous: this.data.files[fileKey]?.[locale] ?? {},
+      next: {},
+      stale: [],
+    };
+  }
+
+  update(fileKey: string, locale: string, lock: LocaleLock): void {
+    this.data.files[fileKey] ??= {};
+    this.data.files[fileKey][locale] = lock.next;
+  }
+
+  save(): void {
+    fs.writeFileSync(
+      this.filePath,
+      `${JSON.stringify(this.data, null, 2)}\n`,
+      "utf8",
+    );
+  }
+}
+
+/**
+ * Record the hash of a source value and tell whether it changed since the
+ * previous run. Keys without a previous hash are not stale: their current
+ * value becomes the baseline.
+ */
+export function checkSourceChanged(
+  lock: LocaleLock,
+  keyPath: string,
+  value: string,
+): boolean {
+  const hash = TranslationLock.hash(value);
+  lock.next[keyPath] = hash;
+
+  const previous = lock.previous[keyPath];
+  if (previous !== undefined && previous !== hash) {
+    lock.stale.push(keyPath);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Drop the new hash of a key that was not translated, so that a stale key
+ * is still stale on the next run.
+ */
+export function keepPreviousHash(lock: LocaleLock, keyPath: string): void {
+  const previous = lock.previous[keyPath];
+  if (previous === undefined) {
+    delete lock.next[keyPath];
+  } else {
+    lock.next[keyPath] = previous;
+  }
+}
@@ -0,0 +1,287 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Logger } from "./config.js";
+
+export interface TranslationMemoryEntry {
+  source: string;
+  translation: string;
+  context?: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface TranslationMemoryRecord extends TranslationMemoryEntry {
+  engine: string;
+  sourceLocale: string;
+  targetLocale: string;
+}
+
+export interface TranslationMemoryFilter {
+  engine?: string;
+  sourceLocale?: string;
+  targetLocale?: string;
+  // only records not used for at least this many days
+  olderThanDays?: number;
+}
+
+export const defaultTranslationMemoryDirectory = path.join(".atj", "tm");
+
+const pairSeparator = "__";
+
+/**
+ * File-backed translation memory.
+ *
+ * Entries are stored per engine and locale pair in
+ * `<directory>/<engine>/<sourceLocale>__<targetLocale>.json`, keyed by the
+ * normalized source text (and context, when one was sent to the engine).
+ */
+export class TranslationMemory {
+  private pairs: Map<string, Record<string, TranslationMemoryEntry>> =
+    new Map();
+  private dirty: Set<string> = new Set();
+
+  constructor(
+    readonly directory = defaultTranslationMemoryDirectory,
+    private readonly logger: Logger = console,
+  ) {}
+
+  /**
+   * Normalize source text so that whitespace-only differences hit the
+   * same entry.
+   */
+  static normalize(text: string): string {
+    return text.normalize("NFC").replace(/\s+/g, " ").trim();
+  }
+
+  private static createKey(text: string, context?: string): string {
+    const normalized = TranslationMemory.normalize(text);
+    return context ? `${normalized}\u0000${context}` : normalized;
+  }
+
+  lookup(
+    engine: string,
+    sourceLocale: string,
+    targetLocale: string,
+    text: string,
+    context?: string,
+    anyEngine = false,
+  ): string | undefined {
+    const key = TranslationMemory.createKey(text, context);
+    const engines = anyEngine
+      ? [engine, ...this.listEngines().filter((name) => name !== engine)]
+      : [engine];
+
+    for (const name of engines) {
+      const file = this.getPairFile(name, sourceLocale, targetLocale);
+      const entry = this.loadPair(file)[key];
+      if (entry) {
+        entry.lastUsedAt = new Date().toISOString();
+        this.dirty.add(file);
+        return entry.translation;
+      }
+    }
+    return undefined;
+  }
+
+  store(
+    engine: string,
+    sourceLocale: string,
+    targetLocale: string,
+    text: string,
+    translation: string,
+    context?: string,
+  ): void {
+    const file = this.getPairFile(engine, sourceLocale, targetLocale);
+    const entries = this.loadPair(file);
+    const now = new Date().toISOString();
+    const key = TranslationMemory.createKey(text, context);
+
+    entries[key] = {
+      source: text,
+      translation,
+      context,
+      createdAt: entries[key]?.createdAt ?? now,
+      lastUsedAt: now,
+    };
+    this.dirty.add(file);
+  }
+
+  /**
+   * Write every modified locale pair back to disk.
+   */
+  save(): void {
+    for (const file of this.dirty) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(
+        file,
+        JSON.stringify(this.pairs.get(file) ?? {}, null, 2),
+        "utf8",
+      );
+    }
+    this.dirty.clear();
+  }
+
+  records(filter: TranslationMemoryFilter = {}): TranslationMemoryRecord[] {
+    const records: TranslationMemoryRecord[] = [];
+    for (const { engine, sourceLocale, targetLocale, file } of this.listPairs(
+      filter,
+    )) {
+      for (const entry of Object.values(this.loadPair(file))) {
+        if (this.isOlderThan(entry, filter.olderThanDays)) {
+          records.push({ engine, sourceLocale, targetLocale, ...entry });
+        }
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Remove matching records and return how many were removed.
+   */
+  prune(filter: TranslationMemoryFilter = {}): number {
+    let removed = 0;
+    for (const { file } of this.listPairs(filter)) {
+      const entries = this.loadPair(file);
+      for (const [key, entry] of Object.entries(entries)) {
+        if (this.isOlderThan(entry, filter.olderThanDays)) {
+          delete entries[key];
+          removed++;
+        }
+      }
+      this.dirty.add(file);
+    }
+    this.save();
+    return removed;
+  }
+
+  /**
+   * Export matching records as JSON or, for `.tmx` files, as a TMX 1.4
+   * document that other translation tools can import.
+   */
+  export(outputFile: string, filter: TranslationMemoryFilter = {}): number {
+    const records = this.records(filter);
+    const data =
+      path.extname(outputFile).toLowerCase() === ".tmx"
+        ? TranslationMemory.toTmx(records)
+        : JSON.stringify(records, null, 2);
+    fs.writeFileSync(outputFile, data, "utf8");
+    return records.length;
+  }
+
+  private static toTmx(records: TranslationMemoryRecord[]): string {
+    const escape = (value: string) =>
+      value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+    const units = records.map(
+      (record) =>
+        `    <tu creationdate="${record.createdAt}" lastusagedate="${record.lastUsedAt}">\n` +
+        `      <prop type="x-engine">${escape(record.engine)}</prop>\n` +
+        (record.context
+          ? `      <note>${escape(record.context)}</note>\n`
+          : "") +
+        `      <tuv xml:lang="${escape(record.sourceLocale)}"><seg>${escape(record.source)}</seg></tuv>\n` +
+        `      <tuv xml:lang="${escape(record.targetLocale)}"><seg>${escape(record.translation)}</seg></tuv>\n` +
+        "    </tu>",
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tmx version="1.4">',
+      '  <header creationtool="auto-translate-json-library" segtype="sentence" adminlang="en" srclang="*all*" datatype="plaintext" o-tmf="atj"/>',
+      "  <body>",
+      ...units,
+      "  </body>",
+      "</tmx>",
+      "",
+    ].join("\n");
+  }
+
+  private isOlderThan(
+    entry: TranslationMemoryEntry,
+    olderThanDays?: number,
+  ): boolean {
+    if (olderThanDays === undefined) {
+      return true;
+    }
+    const age = Date.now() - new Date(entry.lastUsedAt).getTime();
+    return age >= olderThanDays * 24 * 60 * 60 * 1000;
+  }
+
+  private getPairFile(
+    engine: string,
+    sourceLocale: string,
+    targetLocale: string,
+  ): string {
+    return path.join(
+      this.directory,
+      encodeURIComponent(engine),
+      `${sourceLocale}${pairSeparator}${targetLocale}.json`,
+    );
+  }
+
+  private loadPair(file: string): Record<string, TranslationMemoryEntry> {
+    let entries = this.pairs.get(file);
+    if (!entries) {
+      try {
+        entries = fs.existsSync(file)
+          ? JSON.parse(fs.readFileSync(file, "utf8"))
+          : {};
+      } catch (error) {
+        this.logger.warn(
+          `Ignoring unreadable translation memory ${file}: ${error}`,
+        );
+        entries = {};
+      }
+      this.pairs.set(file, entries as Record<string, TranslationMemoryEntry>);
+    }
+    return entries as Record<string, TranslationMemoryEntry>;
+  }
+
+  private listEngines(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.directory, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => decodeURIComponent(entry.name));
+  }
+
+  private listPairs(filter: TranslationMemoryFilter) {
+    const pairs: Array<{
+      engine: string;
+      sourceLocale: string;
+      targetLocale: string;
+      file: string;
+    }> = [];
+
+    for (const engine of this.listEngines()) {
+      if (filter.engine && filter.engine !== engine) continue;
+      const engineDir = path.join(this.directory, encodeURIComponent(engine));
+      for (const fileName of fs.readdirSync(engineDir)) {
+        if (path.extname(fileName) !== ".json") continue;
+        const [sourceLocale, targetLocale] = path
+          .parse(fileName)
+          .name.split(pairSeparator);
+        if (!targetLocale) continue;
+        if (filter.sourceLocale && filter.sourceLocale !== sourceLocale) {
+          continue;
+        }
+        if (filter.targetLocale && filter.targetLocale !== targetLocale) {
+          continue;
+        }
+        pairs.push({
+          engine,
+          sourceLocale,
+          targetLocale,
+          file: path.join(engineDir, fileName),
+        });
+      }
+    }
+    return pairs;
+  }
+}
@@ -0,0 +1,76 @@
+import type { Logger } from "./config.js";
+import type { ITranslate } from "./translate.interface.js";
+
+export interface LocalePlan {
+  locale: string;
+  // engine the locale is routed to
+  engine: string;
+  // key paths that would be sent to the engine
+  translate: string[];
+  // key paths filled from the translation memory
+  fromMemory: string[];
+  // key paths whose existing translation is kept
+  keep: string[];
+  // key paths removed from the target file
+  remove: string[];
+  // key paths retranslated because their source changed
+  stale: string[];
+  // characters that would be sent to the engine
+  characters: number;
+}
+
+export interface TranslationPlan {
+  sourceLocale: string;
+  engine: string;
+  locales: LocalePlan[];
+  totalCharacters: number;
+}
+
+/**
+ * Engine used for dry runs. It accepts every locale and is never asked
+ * to translate anything.
+ */
+export class DryRunTranslate implements ITranslate {
+  isValidLocale(_targetLocale: string): boolean {
+    return true;
+  }
+
+  async translateText(text: string): Promise<string> {
+    return text;
+  }
+}
+
+const formatKeys = (keys: string[], limit = 10) =>
+  keys.length > limit
+    ? `${keys.slice(0, limit).join(", ")}, … (+${keys.length - limit} more)`
+    : keys.join(", ");
+
+export function printTranslationPlan(
+  plan: TranslationPlan,
+  logger: Logger = console,
+): void {
+  logger.log(
+    "📋 Translation plan (dry run: no engine called, no files written)",
+  );
+  for (const locale of plan.locales) {
+    const touched =
+      locale.translate.length + locale.fromMemory.length > 0 ||
+      locale.remove.length > 0;
+    logger.log(
+      `  ${touched ? "✏️ " : "✔️ "} ${locale.locale}${locale.engine === plan.engine ? "" : ` (${locale.engine})`}: ${locale.translate.length} to translate (${locale.characters} characters), ${locale.keep.length} kept, ${locale.remove.length} removed, ${locale.fromMemory.length} from translation memory`,
+    );
+    if (locale.translate.length > 0) {
+      logger.log(`      translate: ${formatKeys(locale.translate)}`);
+    }
+    if (locale.stale.length > 0) {
+      logger.log(`      stale: ${formatKeys(locale.stale)}`);
+    }
+    if (locale.remove.length > 0) {
+      logger.log(`      remove: ${formatKeys(locale.remove)}`);
+    }
+  }
+  const engines = new Set(plan.locales.map((locale) => locale.engine));
+  logger.log(
+    `📊 ${plan.totalCharacters} character(s) would be sent to ${engines.size > 0 ? [...engines].join(", ") : plan.engine}. Locale support is not checked in a dry run.`,
+  );
+}
@@ -0,0 +1,83 @@
+import type { GlossaryViolation } from "./glossary.js";
+import type { TranslationPlan } from "./translation-plan.js";
+
+export type LocaleStatus = "translated" | "failed" | "skipped-unsupported";
+
+export interface KeyFailure {
+  // key path from the root of the file, `key#one` for a segment of an ICU message
+  key: string;
+  error: string;
+}
+
+export interface PlaceholderViolation {
+  locale: string;
+  key: string;
+  missing: string[];
+  unexpected: string[];
+  // what was written, see PlaceholderPolicy
+  action: "retried" | "source" | "kept" | "flagged";
+}
+
+export interface LocaleResult {
+  locale: string;
+  status: LocaleStatus;
+  // engine the locale was routed to
+  engine: string;
+  // keys translated by the engine or a beforeTranslate hook
+  translated: number;
+  // keys filled from the translation memory
+  fromMemory: number;
+  // existing translations left untouched
+  kept: number;
+  // keys removed from the target file
+  removed: number;
+  // keys skipped by a beforeTranslate hook
+  skipped: number;
+  // keys the engine could not translate; they keep the source text, or
+  // their previous translation when stale
+  failed: number;
+  failures: KeyFailure[];
+  // engine id per key translated by an engine; differs from the run
+  // engine for keys translated by a fallback engine
+  producedBy: Record<string, string>;
+  // translations whose placeholders differed from the source
+  placeholderViolations: PlaceholderViolation[];
+  // translated strings that do not use the glossary rendering of a term
+  glossaryViolations: GlossaryViolation[];
+  // keys whose source changed since the last run (retranslate-changed mode)
+  stale: string[];
+  // set when the whole locale failed
+  error?: string;
+  durationMs: number;
+}
+
+export interface TranslationRunResult {
+  // partial when some keys or locales failed, failed when nothing was
+  // translated because of a setup error or every locale failed
+  status: "success" | "partial" | "failed";
+  engine: string;
+  sourceLocale?: string;
+  locales: LocaleResult[];
+  // set when the run stopped before any locale was processed
+  error?: string;
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  // only for dry runs
+  plan?: TranslationPlan;
+}
+
+export function getRunStatus(
+  locales: LocaleResult[],
+): TranslationRunResult["status"] {
+  const failedLocales = locales.filter(
+    (locale) => locale.status === "failed",
+  ).length;
+  if (failedLocales > 0 && failedLocales === locales.length) {
+    return "failed";
+  }
+  if (failedLocales > 0 || locales.some((locale) => locale.failed > 0)) {
+    return "partial";
+  }
+  return "success";
+}
@@ -0,0 +1,139 @@
+import { jest } from '@jest/globals';
+import { chunkTexts, translateInBatches } from '../src/batch.js';
+import type { ITranslate } from '../src/translate.interface.js';
+
+describe('Batch translation', () => {
+  describe('chunkTexts', () => {
+    it('should split by item count', () => {
+      const chunks = chunkTexts(['a', 'b', 'c', 'd', 'e'], { maxItems: 2 });
+      expect(chunks).toEqual([[0, 1], [2, 3], [4]]);
+    });
+
+    it('should split by character budget', () => {
+      const chunks = chunkTexts(['aaaa', 'bbbb', 'cc', 'dddddddd'], {
+        maxItems: 10,
+        maxCharacters: 8,
+      });
+      expect(chunks).toEqual([[0, 1], [2], [3]]);
+    });
+
+    it('should give an oversized text its own chunk', () => {
+      const chunks = chunkTexts(['a', 'way too long', 'b'], {
+        maxItems: 10,
+        maxCharacters: 5,
+      });
+      expect(chunks).toEqual([[0], [1], [2]]);
+    });
+  });
+
+  describe('translateInBatches', () => {
+    const upper = (text: string) => text.toUpperCase();
+
+    it('should fall back to translateText when the engine has no batch API', async () => {
+      const engine: ITranslate = {
+        isValidLocale: () => true,
+        translateText: jest.fn(async (text: string) => upper(text)),
+      };
+
+      const results = await translateInBatches(engine, ['one', 'two'], 'en', 'fr');
+
+      expect(results).toEqual(['ONE', 'TWO']);
+      expect(engine.translateText).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send provider-sized chunks and keep result order', async () => {
+      const translateBatch = jest.fn(async (texts: string[]) => texts.map(upper));
+      const engine: ITranslate = {
+        isValidLocale: () => true,
+        translateText: jest.fn(async (text: string) => upper(text)),
+        translateBatch,
+        batchLimits: { maxItems: 2 },
+      };
+
+      const results = await translateInBatches(
+        engine,
+        ['a', 'b', 'c'],
+        'en',
+        'fr',
+        ['ctx-a', undefined, 'ctx-c'],
+        undefined,
+        ['key.a', 'key.b', 'key.c'],
+      );
+
+      expect(results).toEqual(['A', 'B', 'C']);
+      expect(translateBatch).toHaveBeenCalledTimes(2);
+      expect(translateBatch).toHaveBeenNthCalledWith(1, ['a', 'b'], 'en', 'fr', ['ctx-a', undefined], ['key.a', 'key.b']);
+      expect(translateBatch).toHaveBeenNthCalledWith(2, ['c'], 'en', 'fr', ['ctx-c'], ['key.c']);
+      expect(engine.translateText).not.toHaveBeenCalled();
+    });
+
+    it('should retry a failed chunk text by text', async () => {
+      const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const engine: ITranslate = {
+        isValidLocale: () => true,
+        translateText: jest.fn(async (text: string) => {
+          if (text === 'bad') {
+            throw new Error('cannot translate');
+          }
+          return upper(text);
+        }),
+        translateBatch: jest.fn(async () => {
+          throw new Error('batch failed');
+        }),
+        batchLimits: { maxItems: 10 },
+      };
+
+      const results = await translateInBatches(
+        engine,
+        ['good', 'bad'],
+        'en',
+        'fr',
+        undefined,
+        undefined,
+        undefined,
+        logger,
+      );
+
+      expect(results).toEqual(['GOOD', undefined]);
+      expect(engine.translateText).toHaveBeenCalledTimes(2);
+      // diagnostics go to the logger of the run
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('batch failed'));
+      expect(logger.error).toHaveBeenCalledWith('❌ cannot translate');
+    });
+
+    it('should report failed texts by their original index', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const engine: ITranslate = {
+        isValidLocale: () => true,
+        translateText: jest.fn(async (text: string) => {
+          if (text === 'bad') {
+            throw new Error('cannot translate');
+          }
+          return upper(text);
+        }),
+        translateBatch: jest.fn(async (texts: string[]) => {
+          if (texts.includes('bad')) {
+            throw new Error('batch failed');
+          }
+          return texts.map(upper);
+        }),
+        batchLimits: { maxItems: 2 },
+      };
+      const onError = jest.fn();
+
+      const results = await translateInBatches(
+        engine,
+        ['one', 'two', 'three', 'bad'],
+        'en',
+        'fr',
+        undefined,
+        onError,
+      );
+
+      expect(results).toEqual(['ONE', 'TWO', 'THREE', undefined]);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(3, new Error('cannot translate'));
+      consoleSpy.mockRestore();
+    });
+  });
+});
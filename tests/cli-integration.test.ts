@@ -257,6 +257,20 @@ describe('CLI Integration Tests', () => {
       expect(result.stderr).toContain('aws, azure, google, deepLPro, deepLFree, openai');
     });
 
+    it('should accept zero retries but reject negative ones', async () => {
+      const zero = await runCLI(['--maxRetries', '0', 'consistency-test.json']);
+      expect(zero.stderr).not.toContain('Invalid maxRetries');
+
+      const negative = await runCLI(['--maxRetries=-1', 'consistency-test.json']);
+      expect(negative.exitCode).toBe(1);
+      expect(negative.stderr).toContain('Invalid maxRetries: -1');
+      expect(negative.stderr).toContain('maxRetries must be a non-negative integer');
+
+      const noConcurrency = await runCLI(['--maxConcurrency', '0', 'consistency-test.json']);
+      expect(noConcurrency.exitCode).toBe(1);
+      expect(noConcurrency.stderr).toContain('maxConcurrency must be a positive integer');
+    });
+
     it('should handle missing translation credentials consistently', async () => {
       const formats = ['json', 'xml', 'yaml', 'properties'];
       
@@ -0,0 +1,35 @@
+import type { TranslationKeyInfo } from '../src/config.js';
+import { resolveEngineRoute } from '../src/engine-routing.js';
+
+describe('resolveEngineRoute', () => {
+  const deepl: TranslationKeyInfo = { kind: 'deepLPro', secretKey: 'key' };
+  const azure: TranslationKeyInfo = { kind: 'azure', secretKey: 'key', region: 'westeurope' };
+  const local: TranslationKeyInfo = { kind: 'huggingface-local', model: 'Xenova/opus-mt-en-fr' };
+  const routes = {
+    '*': deepl,
+    pt: azure,
+    'pt-BR': [deepl, azure],
+    'x-*': local,
+    '*-IN': azure,
+  };
+  const resolve = (locale: string) => resolveEngineRoute(routes, locale)?.pattern;
+
+  it('should prefer exact codes, then languages, then wildcards', () => {
+    expect(resolve('pt_br')).toBe('pt-BR');
+    expect(resolve('pt-PT')).toBe('pt');
+    expect(resolve('pt')).toBe('pt');
+    expect(resolve('x-pseudo')).toBe('x-*');
+    expect(resolve('hi-IN')).toBe('*-IN');
+    expect(resolve('fr')).toBe('*');
+  });
+
+  it('should return the engines of the route in order', () => {
+    expect(resolveEngineRoute(routes, 'pt-BR')?.engines).toEqual([deepl, azure]);
+    expect(resolveEngineRoute(routes, 'x-test')?.engines).toEqual([local]);
+  });
+
+  it('should not match languages by prefix of another language', () => {
+    expect(resolveEngineRoute({ pt: azure }, 'ptx')).toBeUndefined();
+    expect(resolveEngineRoute(undefined, 'fr')).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { jest } from '@jest/globals';
+import { FallbackTranslate } from '../src/fallback.js';
+import type { ITranslate } from '../src/translate.interface.js';
+
+// Fake Google client: supports French and rejects every request
+jest.unstable_mockModule('@google-cloud/translate', () => ({
+  v2: {
+    Translate: class {
+      getLanguages = async () => [[{ code: 'fr' }]];
+      translate = async () => {
+        throw new Error('Invalid Value');
+      };
+    },
+  },
+}));
+const { GoogleTranslate } = await import('../src/google.js');
+
+describe('FallbackTranslate', () => {
+  const createEngine = (name: string, locales: string[], refuse: string[] = []): ITranslate => ({
+    isValidLocale: (locale) => locales.includes(locale),
+    translateText: jest.fn(async (text: string) => {
+      if (refuse.includes(text)) {
+        throw new Error(`${name} refused ${text}`);
+      }
+      return `${name}:${text}`;
+    }),
+  });
+
+  it('should only send failed strings to the next engine', async () => {
+    const primary = createEngine('deepl', ['fr'], ['b']);
+    const backup = createEngine('azure', ['fr', 'de']);
+    const chain = new FallbackTranslate([
+      { id: 'deepLPro', engine: primary },
+      { id: 'azure', engine: backup },
+    ]);
+
+    await expect(chain.translateWithEngines(['a', 'b'], 'en', 'fr')).resolves.toEqual([
+      { translation: 'deepl:a', engine: 'deepLPro' },
+      { translation: 'azure:b', engine: 'azure' },
+    ]);
+    expect(backup.translateText).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send the strings a real engine fails on to the next engine', async () => {
+    const google = await GoogleTranslate.initialize('key');
+    const chain = new FallbackTranslate([
+      { id: 'google', engine: google },
+      { id: 'azure', engine: createEngine('azure', ['fr']) },
+    ]);
+
+    await expect(google.translateText('a', 'en', 'fr')).rejects.toThrow('Invalid Locale fr');
+    await expect(chain.translateWithEngines(['a', 'b'], 'en', 'fr')).resolves.toEqual([
+      { translation: 'azure:a', engine: 'azure' },
+      { translation: 'azure:b', engine: 'azure' },
+    ]);
+  });
+
+  it('should skip engines that do not support the locale', async () => {
+    const chain = new FallbackTranslate([
+      { id: 'deepLPro', engine: createEngine('deepl', ['fr']) },
+      { id: 'azure', engine: createEngine('azure', ['fr', 'de']) },
+    ]);
+
+    expect(chain.isValidLocale('de')).toBe(true);
+    expect(chain.isValidLocale('ja')).toBe(false);
+    await expect(chain.translateText('a', 'en', 'de')).resolves.toBe('azure:a');
+    await expect(chain.translateBatch(['a'], 'en', 'de')).resolves.toEqual(['azure:a']);
+  });
+
+  it('should report the last error when every engine fails', async () => {
+    const chain = new FallbackTranslate([
+      { id: 'deepLPro', engine: createEngine('deepl', ['fr'], ['b']) },
+      { id: 'azure', engine: createEngine('azure', ['fr'], ['b']) },
+    ]);
+    const onError = jest.fn();
+
+    await expect(chain.translateWithEngines(['a', 'b'], 'en', 'fr', undefined, onError)).resolves.toEqual([
+      { translation: 'deepl:a', engine: 'deepLPro' },
+      undefined,
+    ]);
+    expect(onError).toHaveBeenCalledWith(1, new Error('azure refused b'));
+    await expect(chain.translateText('b', 'en', 'fr')).rejects.toThrow('azure refused b');
+    await expect(chain.translateText('a', 'en', 'ja')).rejects.toThrow("No engine supports the locale 'ja'");
+  });
+});
@@ -588,4 +588,76 @@ describe('Files Integration Tests', () => {
       expect(fs.existsSync(nonExistentFile)).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('Target Locales', () => {
+    const localeDir = path.join(testDir, 'target-locales');
+
+    beforeEach(() => {
+      fs.rmSync(localeDir, { recursive: true, force: true });
+      fs.mkdirSync(localeDir, { recursive: true });
+    });
+
+    it('should filter discovered locales and spell new ones like the existing files', () => {
+      for (const locale of ['en_US', 'fr_FR', 'de_DE']) {
+        fs.writeFileSync(path.join(localeDir, `${locale}.json`), '{}');
+      }
+
+      const files = new Files(path.join(localeDir, 'en_US.json'), undefined, ['fr-FR', 'pt-BR', 'en-US']);
+
+      expect(files.targetLocales).toEqual(['fr_FR', 'pt_BR']);
+      expect(files.newLocales).toEqual(['pt_BR']);
+    });
+
+    it.each([
+      ['po', 'pl', /"Language: pl\\n"[\s\S]*"Plural-Forms: nplurals=3; /],
+      ['arb', 'pt-BR', /"@@locale": "pt_BR"/],
+      ['xlf', 'pt-BR', /source-language="en" target-language="pt-BR"/],
+    ])('should create a %s skeleton for a new locale', (extension, locale, expected) => {
+      fs.writeFileSync(path.join(localeDir, `en.${extension}`), '');
+
+      const files = new Files(path.join(localeDir, `en.${extension}`), undefined, [locale]);
+      files.createLocale(locale);
+
+      expect(fs.readFileSync(path.join(localeDir, `${locale}.${extension}`), 'utf8')).toMatch(expected);
+    });
+
+    it('should write the plural entries of a new po file with the forms of its language', async () => {
+      fs.writeFileSync(
+        path.join(localeDir, 'en.po'),
+        [
+          'msgid ""',
+          'msgstr ""',
+          '"Content-Type: text/plain; charset=UTF-8\\n"',
+          '"Plural-Forms: nplurals=2; plural=(n != 1);\\n"',
+          '',
+          '#. Number of selected files',
+          '#: src/files.c:12',
+          '#, c-format',
+          'msgid "One file"',
+          'msgid_plural "%d files"',
+          'msgstr[0] "One file"',
+          'msgstr[1] "%d files"',
+          '',
+        ].join('\n'),
+      );
+
+      const files = new Files(path.join(localeDir, 'en.po'), undefined, ['pl']);
+      files.createLocale('pl');
+      const target = await files.loadJsonFromLocale('pl');
+      files.saveJsonToLocale('pl', { ...target, 'One file': 'Jeden plik', 'One file[1]': '%d pliki' });
+
+      expect(fs.readFileSync(path.join(localeDir, 'pl.po'), 'utf8')).toContain(
+        [
+          '#: src/files.c:12',
+          '#. Number of selected files',
+          '#, c-format',
+          'msgid "One file"',
+          'msgid_plural "%d files"',
+          'msgstr[0] "Jeden plik"',
+          'msgstr[1] "%d pliki"',
+          'msgstr[2] "%d pliki"',
+        ].join('\n'),
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { jest } from '@jest/globals';
+import { Glossary, GlossaryTranslate } from '../src/glossary.js';
+import type { ITranslate } from '../src/translate.interface.js';
+
+describe('Glossary', () => {
+  const glossary = new Glossary({
+    Workspace: { doNotTranslate: true },
+    Seat: { translations: { fr: 'Siège', 'pt-BR': 'Assento' } },
+    'Pipeline Runner': { doNotTranslate: true },
+    Pipeline: { translations: { fr: 'Pipeline' }, ignoreCase: true },
+  });
+
+  it('should resolve entries by locale and base language', () => {
+    expect(glossary.entriesFor('fr-CA')).toEqual({
+      Workspace: 'Workspace',
+      Seat: 'Siège',
+      'Pipeline Runner': 'Pipeline Runner',
+      Pipeline: 'Pipeline',
+    });
+    expect(glossary.entriesFor('pt_BR')).toMatchObject({ Seat: 'Assento' });
+    expect(glossary.entriesFor('de')).not.toHaveProperty('Seat');
+  });
+
+  it('should protect whole terms and restore their expected rendering', () => {
+    const entries = glossary.entriesFor('fr');
+    const { text, replacements } = glossary.protect(
+      'Add a Seat to the Workspace, not to Workspaces or the Pipeline Runner',
+      entries,
+    );
+
+    expect(text).toBe(
+      'Add a {atj_term_2} to the {atj_term_1}, not to Workspaces or the {atj_term_0}',
+    );
+    expect(glossary.restore(text, replacements)).toBe(
+      'Add a Siège to the Workspace, not to Workspaces or the Pipeline Runner',
+    );
+  });
+
+  it('should report terms missing from a translation', () => {
+    expect(glossary.check('Buy a Seat', 'Acheter une place', 'fr')).toEqual([
+      { term: 'Seat', expected: 'Siège' },
+    ]);
+    expect(glossary.check('Buy a Seat', 'Acheter un Siège', 'fr')).toEqual([]);
+    expect(glossary.check('run the pipeline', 'lancer le PIPELINE', 'fr')).toEqual([]);
+  });
+
+  describe('GlossaryTranslate', () => {
+    const prefix = (text: string) => `T:${text}`;
+
+    it('should send protected text to the engine', async () => {
+      const engine: ITranslate = {
+        isValidLocale: () => true,
+        translateText: jest.fn(async (text: string) => prefix(text)),
+        translateBatch: jest.fn(async (texts: string[]) => texts.map(prefix)),
+      };
+      const translate = new GlossaryTranslate(engine, glossary);
+
+      await expect(translate.translateText('My Workspace', 'en', 'fr')).resolves.toBe('T:My Workspace');
+      await expect(translate.translateBatch?.(['one Seat', 'two'], 'en', 'fr')).resolves.toEqual([
+        'T:one Siège',
+        'T:two',
+      ]);
+      expect(engine.translateText).toHaveBeenCalledWith('My {atj_term_0}', 'en', 'fr', undefined, undefined);
+    });
+
+    it('should rely on native glossaries once per language pair', async () => {
+      const engine: ITranslate = {
+        isValidLocale: () => true,
+        translateText: jest.fn(async (text: string) => text),
+        useGlossary: jest.fn(async () => true),
+      };
+      const translate = new GlossaryTranslate(engine, glossary);
+
+      await translate.translateText('My Workspace', 'en', 'fr');
+      await translate.translateText('One Seat', 'en', 'fr');
+
+      expect(engine.useGlossary).toHaveBeenCalledTimes(1);
+      expect(engine.useGlossary).toHaveBeenCalledWith(glossary.entriesFor('fr'), 'en', 'fr');
+      expect(engine.translateText).toHaveBeenCalledWith('My Workspace', 'en', 'fr', undefined, undefined);
+    });
+
+    it('should protect terms when the native glossary fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const engine: ITranslate = {
+        isValidLocale: () => true,
+        translateText: jest.fn(async (text: string) => text),
+        useGlossary: jest.fn(async () => {
+          throw new Error('unsupported language pair');
+        }),
+      };
+      const translate = new GlossaryTranslate(engine, glossary);
+
+      await expect(translate.translateText('My Workspace', 'en', 'fr')).resolves.toBe('My Workspace');
+      expect(engine.translateText).toHaveBeenCalledWith('My {atj_term_0}', 'en', 'fr', undefined, undefined);
+      warn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { IcuMessage } from '../src/icu.js';
+
+describe('IcuMessage', () => {
+  const parse = (text: string) => IcuMessage.parse(text) as IcuMessage;
+
+  it('should only parse messages with choices', () => {
+    expect(IcuMessage.parse('Hello {name}')).toBeUndefined();
+    expect(IcuMessage.parse('{count, plural, one {# item}')).toBeUndefined();
+    expect(parse('{count, plural, one{# item} other{# items}}').format()).toBe(
+      '{count, plural, one {# item} other {# items}}',
+    );
+  });
+
+  it('should list the literal text of every branch with # protected', () => {
+    const message = parse(
+      'In {folder}: {count, plural, =0 {no file} one {# file} other {# files by {user}}}.',
+    );
+
+    expect(message.segments()).toEqual(['In {folder}:', 'no file', '{#} file', '{#} files by {user}']);
+  });
+
+  it('should name every segment after the selectors of its branch', () => {
+    const message = parse(
+      'In {folder}: {gender, select, female {{count, plural, one {her file} other {her files}} shared} male {her file} other {files}}.',
+    );
+
+    expect([...message.namedSegments()]).toEqual([
+      ['text', 'In {folder}:'],
+      ['female.one', 'her file'],
+      ['female.other', 'her files'],
+      ['female', 'shared'],
+      ['other', 'files'],
+    ]);
+  });
+
+  it('should reassemble translated segments', () => {
+    const message = parse('{gender, select, female {She has {count, plural, one {# item} other {# items}}} other {They did}}');
+
+    expect(message.format((segment) => segment.toUpperCase())).toBe(
+      '{gender, select, female {SHE HAS {count, plural, one {# ITEM} other {# ITEMS}}} other {THEY DID}}',
+    );
+  });
+
+  it('should keep quoted text and offsets', () => {
+    const message = parse("{n, plural, offset:1 one {It''s '{#}' and you} other {You and # more}}");
+
+    expect(message.format()).toBe("{n, plural, offset:1 one {It''s '{#}' and you} other {You and # more}}");
+    expect(message.segments()).toEqual(["It''s '{#}' and you", 'You and {#} more']);
+  });
+
+  it('should regenerate the plural categories of the target locale', () => {
+    const message = parse('{count, plural, =0 {none} one {# item} other {# items}}');
+
+    expect(message.forLocale('pl').format()).toBe(
+      '{count, plural, =0 {none} one {# item} few {# items} many {# items} other {# items}}',
+    );
+    expect(message.forLocale('ja').format()).toBe('{count, plural, =0 {none} other {# items}}');
+    expect(parse('{n, selectordinal, one {#st} other {#th}}').forLocale('en_GB').format()).toBe(
+      '{n, selectordinal, one {#st} two {#th} few {#th} other {#th}}',
+    );
+  });
+});
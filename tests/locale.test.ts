@@ -0,0 +1,76 @@
+import { LocaleMapper, Locales } from '../src/locale.js';
+
+describe('Locales', () => {
+  afterEach(() => {
+    Locales.configure(undefined);
+  });
+
+  it.each([
+    ['pt_BR', 'pt-BR'],
+    ['zh_hans', 'zh-Hans'],
+    ['sr_RS@latin', 'sr-Latn-RS'],
+    ['de_DE.UTF-8', 'de-DE'],
+    ['values-pt-rBR', 'pt-BR'],
+    ['b+sr+Latn', 'sr-Latn'],
+    ['es-419', 'es-419'],
+    ['x-pseudo', 'x-pseudo'],
+    ['not a locale', 'not a locale'],
+  ])('should normalize %s to %s', (code, expected) => {
+    expect(Locales.normalize(code)).toBe(expected);
+  });
+
+  it('should apply the configured aliases', () => {
+    Locales.configure({ aliases: { CN: 'zh-Hans', 'pt-PT': 'pt' } });
+
+    expect(Locales.normalize('cn')).toBe('zh-Hans');
+    expect(Locales.normalize('pt_PT')).toBe('pt');
+  });
+
+  it.each([
+    ['pt-BR', 'fr', 'pt-BR'],
+    ['pt-BR', 'fr_FR', 'pt_BR'],
+    ['pt-BR', 'fr-ca', 'pt-br'],
+    ['pt-BR', 'values-fr', 'values-pt-rBR'],
+    ['zh-Hant', 'values-fr', 'values-b+zh+Hant'],
+    ['pt-BR', 'fr-rCA', 'pt-rBR'],
+    ['pt-BR', 'en.lproj', 'pt-BR.lproj'],
+    ['zh-Hans', 'fr_fr.lproj', 'zh_hans.lproj'],
+  ])('should spell %s like %s', (locale, example, expected) => {
+    expect(Locales.toFileLocale(locale, example)).toBe(expected);
+  });
+});
+
+describe('LocaleMapper', () => {
+  afterEach(() => {
+    Locales.configure(undefined);
+  });
+
+  it('should find the engine code of equivalent and broader locales', () => {
+    const azure = new LocaleMapper('azure', ['de', 'pt', 'pt-PT', 'zh-Hans', 'zh-Hant']);
+    const openai = new LocaleMapper('openai', ['de', 'zh-CN', 'zh-TW']);
+    const deepl = new LocaleMapper('deepLPro', ['DE', 'PT-BR', 'PT-PT', 'ZH']);
+
+    expect(azure.toEngine('zh_TW')).toBe('zh-Hant');
+    expect(openai.toEngine('zh_Hans')).toBe('zh-CN');
+    expect(openai.toEngine('zh-HK')).toBe('zh-TW');
+    expect(deepl.toEngine('zh-Hans')).toBe('ZH');
+    expect(deepl.toEngine('values-pt-rBR')).toBe('PT-BR');
+    expect(deepl.toEngine('de_AT')).toBe('DE');
+  });
+
+  it('should not fall back to a language written in another script', () => {
+    const deepl = new LocaleMapper('deepLPro', ['ZH', 'SR']);
+
+    expect(deepl.toEngine('zh-TW')).toBeUndefined();
+    expect(deepl.toEngine('sr-Latn')).toBeUndefined();
+    expect(new LocaleMapper('deepLPro', ['ZH']).toEngine('klingon')).toBeUndefined();
+  });
+
+  it('should prefer the user codes and accept any code without a list', () => {
+    Locales.configure({ engines: { deepLPro: { pt: 'PT-PT' }, huggingface: { 'zh-Hans': 'zho_Hans' } } });
+
+    expect(new LocaleMapper(['deepLPro', 'deepLFree'], ['PT-BR', 'PT-PT']).toEngine('pt')).toBe('PT-PT');
+    expect(new LocaleMapper('huggingface').toEngine('zh_Hans')).toBe('zho_Hans');
+    expect(new LocaleMapper('huggingface').toEngine('fr')).toBe('fr');
+  });
+});
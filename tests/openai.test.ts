@@ -0,0 +1,156 @@
+import { jest } from '@jest/globals';
+
+type ChatRequest = {
+  messages: Array<{ role: string; content: string }>;
+  response_format?: { json_schema: { schema: { required: string[] } } };
+};
+
+// Fake OpenAI client: answers every request with a fixed content
+let content: string | null = 'Bonjour';
+const create = jest.fn(async (_request: ChatRequest) => ({ choices: [{ message: { content } }] }));
+jest.unstable_mockModule('openai', () => ({
+  OpenAI: class {
+    chat = { completions: { create } };
+  },
+}));
+
+const { OpenAITranslate } = await import('../src/openai.js');
+const { FallbackTranslate } = await import('../src/fallback.js');
+const { BatchMismatchError, translateInBatches } = await import('../src/batch.js');
+const { ScheduledTranslate, TranslationScheduler } = await import('../src/scheduler.js');
+
+describe('OpenAITranslate', () => {
+  const createEngine = (prompts?: { system?: string; user?: string }, structured?: { tokenBudget?: number }) =>
+    new OpenAITranslate('key', 'http://localhost', 'model', 256, 0, 1, 1, 0, 0, prompts, structured);
+  const answer = (value: unknown) => ({ choices: [{ message: { content: JSON.stringify(value) } }] });
+  const messages = (call = 0) => create.mock.calls[call][0].messages.map((message) => message.content);
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  // the engine behind a scheduler, as the core runs it
+  const scheduled = () => {
+    const scheduler = new TranslationScheduler({}, 'openai', logger);
+    const schedule = jest.spyOn(scheduler, 'schedule');
+    return { engine: new ScheduledTranslate(createEngine(undefined, {}), scheduler), schedule };
+  };
+
+  beforeEach(() => {
+    create.mockClear();
+    content = 'Bonjour';
+  });
+
+  it('should translate from any source language of its table', async () => {
+    await expect(createEngine().translateText('Hallo', 'de', 'fr', 'Greeting')).resolves.toBe('Bonjour');
+
+    expect(messages()).toEqual([
+      'You will be provided with a sentence or words in German, and your task is to translate it into French. Return ONLY the translation, without any additional text or explanations.\nContext for the translation: Greeting',
+      'Hallo',
+    ]);
+    await expect(createEngine().translateText('Hallo', 'tlh', 'fr')).rejects.toThrow(
+      'tlh is not supported as source language',
+    );
+  });
+
+  it('should render the prompt templates', async () => {
+    const engine = createEngine({
+      system: 'Translate {{sourceLocale}} ({{source}}) to {{target}}. Key: {{key}}. Note: {{context}}',
+      user: 'Text: {{text}}',
+    });
+
+    await engine.translateText('Hi {name}', 'en', 'fr', 'Menu', 'menu.greeting');
+
+    expect(messages()).toEqual(['Translate en (English) to French. Key: menu.greeting. Note: Menu', 'Text: Hi {0}']);
+    expect(engine.batchLimits).toEqual({ maxItems: 1 });
+  });
+
+  it('should add the batch instructions to a custom system prompt', async () => {
+    content = '["Un","Deux"]';
+    const engine = createEngine({ system: 'You translate {{source}} UI strings into {{target}}.' });
+
+    await expect(engine.translateBatch(['One', 'Two'], 'ja', 'fr')).resolves.toEqual(['Un', 'Deux']);
+
+    expect(messages()).toEqual([
+      'You translate Japanese UI strings into French. Return ONLY a JSON array of strings with the translations in the same order and with the same number of items, without any additional text or explanations.',
+      '["One","Two"]',
+    ]);
+  });
+
+  it('should fail on empty responses, so that fallback engines take over', async () => {
+    content = null;
+    const backup = { isValidLocale: () => true, translateText: async (text: string) => `backup:${text}` };
+    const chain = new FallbackTranslate([
+      { id: 'openai', engine: createEngine() },
+      { id: 'azure', engine: backup },
+    ]);
+
+    await expect(createEngine().translateText('Hello', 'en', 'fr')).rejects.toThrow('Empty response for translation');
+    await expect(chain.translateWithEngines(['Hello'], 'en', 'fr')).resolves.toEqual([
+      { translation: 'backup:Hello', engine: 'azure' },
+    ]);
+  });
+
+  describe('structured mode', () => {
+    it('should send key paths under a strict schema and restore placeholders', async () => {
+      content = JSON.stringify({ 'menu.open': 'Ouvrir {0}', 'menu.close': 'Fermer' });
+      const engine = createEngine(undefined, { tokenBudget: 1000 });
+
+      await expect(
+        engine.translateBatch(['Open {name}', 'Close'], 'en', 'fr', ['Menu item', undefined], ['menu.open', 'menu.close']),
+      ).resolves.toEqual(['Ouvrir {name}', 'Fermer']);
+
+      expect(engine.batchLimits).toEqual({ maxItems: Number.POSITIVE_INFINITY, maxCharacters: 2000 });
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(create.mock.calls[0][0].response_format?.json_schema.schema.required).toEqual(['menu.open', 'menu.close']);
+      expect(messages()[0]).toContain('into French. Return ONLY a JSON object with exactly the same keys');
+      expect(messages()[0]).toContain('Context for "menu.open": Menu item');
+      expect(JSON.parse(messages()[1])).toEqual({ 'menu.open': 'Open {0}', 'menu.close': 'Close' });
+    });
+
+    it('should retry, then split a chunk whose keys do not match, scheduling every request', async () => {
+      create
+        .mockResolvedValueOnce(answer({ a: 'Un' }))
+        .mockResolvedValueOnce(answer({ a: 'Un', b: 'Deux', c: 'Trois' }))
+        .mockResolvedValueOnce(answer({ a: 'Un' }))
+        .mockResolvedValueOnce(answer({ b: 'Deux' }));
+      const { engine, schedule } = scheduled();
+
+      await expect(translateInBatches(engine, ['One', 'Two'], 'en', 'fr', undefined, undefined, ['a', 'b'])).resolves.toEqual([
+        'Un',
+        'Deux',
+      ]);
+      expect(create).toHaveBeenCalledTimes(4);
+      expect(schedule).toHaveBeenCalledTimes(4);
+      expect(JSON.parse(messages(3)[1])).toEqual({ b: 'Two' });
+    });
+
+    it('should leave rate limits to the scheduler instead of splitting the chunk', async () => {
+      const rateLimit = Object.assign(new Error('Too Many Requests'), { status: 429 });
+      create.mockRejectedValueOnce(rateLimit);
+
+      await expect(createEngine(undefined, {}).translateBatch(['One', 'Two'], 'en', 'fr', undefined, ['a', 'b'])).rejects.toBe(
+        rateLimit,
+      );
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw answers whose placeholders changed as mismatches', async () => {
+      create.mockResolvedValueOnce(answer({ greeting: 'Salut' }));
+
+      await expect(createEngine(undefined, {}).translateBatch(['Hi {name}'], 'en', 'fr', undefined, ['greeting'])).rejects.toThrow(
+        BatchMismatchError,
+      );
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should translate a string alone when its placeholders keep changing', async () => {
+      content = 'Salut {0}';
+      create.mockResolvedValueOnce(answer({ greeting: 'Salut' })).mockResolvedValueOnce(answer({ greeting: 'Salut' }));
+      const { engine, schedule } = scheduled();
+
+      await expect(
+        translateInBatches(engine, ['Hi {name}'], 'en', 'fr', undefined, undefined, ['greeting'], logger),
+      ).resolves.toEqual(['Salut {name}']);
+      expect(create).toHaveBeenCalledTimes(3);
+      expect(create.mock.calls[2][0].response_format).toBeUndefined();
+      expect(schedule).toHaveBeenCalledTimes(3);
+    });
+  });
+});
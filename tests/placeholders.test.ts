@@ -0,0 +1,99 @@
+import { Placeholders } from '../src/placeholders.js';
+import { Util } from '../src/util.js';
+
+describe('Placeholders', () => {
+  const roundTrip = (text: string) => {
+    const { text: protectedText, tokens } = Placeholders.protect(text);
+    return { protectedText, tokens, restored: Placeholders.restore(protectedText, tokens) };
+  };
+
+  afterEach(() => {
+    Util.startDelimiter = '{';
+    Util.endDelimiter = '}';
+    Placeholders.configure(undefined, { recognizers: [] });
+  });
+
+  it('should only protect the configured delimiters by default', () => {
+    Placeholders.configure(undefined, { recognizers: [] });
+
+    expect(roundTrip('Hi {name}, you have %d messages')).toEqual({
+      protectedText: 'Hi {0}, you have %d messages',
+      tokens: ['{name}'],
+      restored: 'Hi {name}, you have %d messages',
+    });
+  });
+
+  it.each([
+    ['printf', 'Delete %1$s of %2$d files (%.1f%%) by %@, %(user)s or %{name}', 7],
+    ['messageformat', 'File {0} has {1,number,integer} lines', 2],
+    ['icu', 'Hello {name}, it is {now, time, short}', 2],
+    ['i18next', 'You have {{count}} items, see $t(common.more)', 2],
+    ['template', 'Welcome ${user.name}!', 1],
+    ['html', 'Click <a href="/docs">here</a> &amp; <br/>continue', 4],
+    ['android', 'Open @string/app_name from @android:string/ok', 2],
+    ['android', 'Hello <xliff:g id="name" example="Bob">%1$s</xliff:g>!', 1],
+    ['dotnet', 'Paid {0:C} on {1:d}, {2,-10} left', 3],
+  ])('should protect %s placeholders', (recognizer, text, count) => {
+    Placeholders.configure(undefined, { recognizers: [recognizer] });
+
+    const { protectedText, tokens, restored } = roundTrip(text);
+
+    expect(tokens).toHaveLength(count);
+    expect(protectedText).not.toContain(tokens[tokens.length - 1]);
+    expect(restored).toBe(text);
+  });
+
+  it('should pick recognizers from the file format', () => {
+    expect(Placeholders.configure('android-xml')).toEqual(['delimiters', 'printf', 'android', 'html']);
+    expect(Placeholders.configure('unknown-format')).toEqual(['delimiters', 'icu', 'i18next', 'printf', 'html']);
+    expect(Placeholders.configure('json', { recognizers: ['printf'] })).toEqual(['delimiters', 'printf']);
+  });
+
+  it('should reject unknown recognizers', () => {
+    expect(() => Placeholders.configure('json', { recognizers: ['nope'] })).toThrow(
+      'Unknown placeholder recognizer(s): nope',
+    );
+  });
+
+  it('should protect extra project patterns', () => {
+    Placeholders.configure('json', { recognizers: [], patterns: ['\\[\\[\\w+\\]\\]'] });
+
+    expect(roundTrip('Press [[key]] to start').protectedText).toBe('Press {0} to start');
+  });
+
+  it('should prefer double braces over single ones', () => {
+    Placeholders.configure('json');
+
+    expect(roundTrip('{{count}} of {total}').tokens).toEqual(['{{count}}', '{total}']);
+  });
+
+  it('should restore reordered, spaced and look-alike tokens in one pass', () => {
+    Placeholders.configure('properties');
+    const { text, tokens } = Placeholders.protect('{1} of {0}');
+
+    expect(text).toBe('{0} of {1}');
+    expect(Placeholders.restore('{ 1 } sur {0}', tokens)).toBe('{0} sur {1}');
+  });
+
+  it('should build tokens from custom delimiters', () => {
+    Util.startDelimiter = '{{';
+    Util.endDelimiter = '}}';
+    Placeholders.configure('po');
+
+    expect(roundTrip('Hi {{name}}, %s')).toEqual({
+      protectedText: 'Hi {{0}}, {{1}}',
+      tokens: ['{{name}}', '%s'],
+      restored: 'Hi {{name}}, %s',
+    });
+  });
+
+  it('should compare placeholders regardless of order', () => {
+    Placeholders.configure('android-xml');
+
+    expect(Placeholders.compare('%1$s of %2$s', '%2$s de %1$s')).toBeUndefined();
+    expect(Placeholders.compare('Hi {name} <b>%d</b>', 'Salut <b>%d</b> {nom} %d')).toEqual({
+      missing: ['{name}'],
+      unexpected: ['{nom}', '%d'],
+    });
+  });
+});
@@ -169,6 +169,78 @@ msgstr[1] "%d elementos"
     });
   });
 
+  describe("key contexts", () => {
+    it("should collect comments, contexts, references and length limits", () => {
+      const po = `
+msgid ""
+msgstr ""
+"Language: es\\n"
+
+#. Label of the save button
+#. in the toolbar
+#: src/toolbar.ts:12 src/menu.ts:40
+#, max-length:10
+msgctxt "toolbar"
+msgid "Save"
+msgstr ""
+
+#. Number of selected files
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] ""
+msgstr[1] ""
+
+msgid "Plain"
+msgstr ""
+`;
+
+      expect(handler.parse(po)._metadata?.keyContexts).toEqual({
+        "toolbar|Save": {
+          description: "Label of the save button in the toolbar",
+          context: "toolbar",
+          references: ["src/toolbar.ts:12", "src/menu.ts:40"],
+          maxLength: 10,
+        },
+        "One file": { description: "Number of selected files" },
+        "One file[1]": { description: "Number of selected files" },
+      });
+    });
+  });
+
+  describe("review flags", () => {
+    const po = `
+msgid ""
+msgstr ""
+"Language: es\\n"
+
+msgid "Hello"
+msgstr "Hola"
+
+#, fuzzy, c-format
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] "Un archivo"
+msgstr[1] "%d archivos"
+
+#, c-format
+msgid "%s saved"
+msgstr "%s guardado"
+`;
+
+    it("should list fuzzy entries as needing review", () => {
+      expect(handler.parse(po)._metadata?.needsReview).toEqual(["One file", "One file[1]"]);
+    });
+
+    it("should flag machine translations fuzzy and leave other entries alone", () => {
+      const serialized = handler.serialize(handler.parse(po), { needsReview: ["Hello", "%s saved"] });
+
+      expect(serialized).toContain('#, fuzzy\nmsgid "Hello"');
+      expect(serialized).toContain('#, fuzzy, c-format\nmsgid "%s saved"');
+      expect(serialized).toContain('#, fuzzy, c-format\nmsgid "One file"');
+      expect(handler.serialize({ Hello: "Hola" }, { locale: "es", needsReview: [] })).not.toContain("fuzzy");
+    });
+  });
+
   describe("validateStructure", () => {
     it("should validate correct PO structure", () => {
       const data = {
@@ -0,0 +1,67 @@
+import { Placeholders } from '../src/placeholders.js';
+import { PseudoTranslate } from '../src/pseudo.js';
+import { Util } from '../src/util.js';
+
+describe('PseudoTranslate', () => {
+  afterEach(() => {
+    Util.startDelimiter = '{';
+    Util.endDelimiter = '}';
+    Placeholders.configure(undefined, { recognizers: [] });
+  });
+
+  it('should accent, pad and bracket texts for en-XA', async () => {
+    const engine = new PseudoTranslate();
+
+    await expect(engine.translateText('Hello {name}', 'en', 'en-XA')).resolves.toBe('[Ĥéļļö {name} one]');
+    await expect(engine.translateBatch(['Save', 'Open the file'], 'en', 'en_XA')).resolves.toEqual([
+      '[Šáṽé one]',
+      '[Öþéñ ţĥé ƒîļé one]',
+    ]);
+  });
+
+  it('should force words right to left for ar-XB', async () => {
+    const engine = new PseudoTranslate({ mode: 'german' });
+
+    await expect(engine.translateText('Hi {name}', 'en', 'ar-XB')).resolves.toBe(
+      '[‏‮Hi‬‏ {name} one]',
+    );
+  });
+
+  it('should lengthen words in german mode', async () => {
+    const engine = new PseudoTranslate({ mode: 'german' });
+
+    expect(engine.getMode('de')).toBe('german');
+    await expect(engine.translateText('Settings', 'en', 'de')).resolves.toBe('[Šéééţţîîîñĝš]');
+  });
+
+  it('should apply the expansion ratio and bracket option', async () => {
+    const engine = new PseudoTranslate({ expansion: 0, brackets: false });
+
+    await expect(engine.translateText('Save', 'en', 'fr')).resolves.toBe('Šáṽé');
+    expect(new PseudoTranslate({ expansion: 1 }).pseudoLocalize('Close', 'accents')).toBe('[Çļöšé one two]');
+  });
+
+  it('should keep placeholders of the file format and custom delimiters', async () => {
+    Util.startDelimiter = '{{';
+    Util.endDelimiter = '}}';
+    Placeholders.configure('android-xml');
+    const engine = new PseudoTranslate({ expansion: 0 });
+
+    await expect(engine.translateText('%1$d items for {{user}}', 'en', 'en-XA')).resolves.toBe(
+      '[%1$d îţéɱš ƒöŕ {{user}}]',
+    );
+  });
+
+  it('should keep printf placeholders of json files', async () => {
+    Placeholders.configure('json');
+    const engine = new PseudoTranslate({ expansion: 0 });
+
+    await expect(engine.translateText('Save %1$s', 'en', 'en-XA')).resolves.toBe('[Šáṽé %1$s]');
+  });
+
+  it('should reject unknown modes', () => {
+    expect(() => new PseudoTranslate({ mode: 'klingon' as 'rtl' })).toThrow(
+      "Unknown pseudo-localization mode 'klingon', use one of: accents, rtl, german",
+    );
+  });
+});
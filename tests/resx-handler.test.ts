@@ -0,0 +1,122 @@
+import { ResxHandler } from "../src/format/resx-handler.js";
+import { FormatDetector } from "../src/format-detector.js";
+import type { EnhancedTranslationFile } from "../src/format.interface.js";
+
+describe("ResxHandler", () => {
+  let handler: ResxHandler;
+
+  const header = `<?xml version="1.0" encoding="utf-8"?>
+<root>
+  <xsd:schema id="root" xmlns="" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+    <xsd:import namespace="http://www.w3.org/XML/1998/namespace" />
+  </xsd:schema>
+  <resheader name="resmimetype">
+    <value>text/microsoft-resx</value>
+  </resheader>`;
+  const content = `${header}
+  <assembly alias="System.Drawing" name="System.Drawing, Version=4.0.0.0" />
+  <!-- Main window -->
+  <data name="Title" xml:space="preserve">
+    <value>Welcome, {0}!</value>
+    <comment>Window title</comment>
+  </data>
+  <data name="Logo" type="System.Resources.ResXFileRef, System.Windows.Forms">
+    <value>Resources\\logo.png;System.Drawing.Bitmap</value>
+  </data>
+  <data name="&gt;&gt;button1.Name" xml:space="preserve">
+    <value>button1</value>
+  </data>
+  <data name="Save" xml:space="preserve">
+    <value>Save &amp; close</value>
+  </data>
+  <data name="Quit" xml:space="preserve">
+    <value>Quit</value>
+  </data>
+</root>`;
+
+  beforeEach(() => {
+    handler = new ResxHandler();
+  });
+
+  describe("canHandle", () => {
+    it("should handle .resx and .resw files", () => {
+      expect(handler.canHandle("Strings.resx", content)).toBe(true);
+      expect(handler.canHandle("Strings/en-US/Resources.resw")).toBe(true);
+      expect(handler.canHandle("Strings.xml")).toBe(false);
+      expect(handler.canHandle("Strings.resx", "<resources />")).toBe(false);
+    });
+
+    it("should be detected by extension", () => {
+      expect(FormatDetector.detectFormat("Strings.fr.resx", content)).toBe("resx");
+      expect(FormatDetector.detectFormat("Resources.resw", content)).toBe("resw");
+    });
+  });
+
+  describe("parse", () => {
+    it("should read the string resources only", () => {
+      const { _metadata, ...result } = handler.parse(content);
+
+      expect(result).toEqual({ Title: "Welcome, {0}!", Save: "Save & close", Quit: "Quit" });
+      expect(_metadata?.format).toBe("resx");
+    });
+
+    it("should pass comments as context", () => {
+      expect(handler.parse(content)._metadata?.keyContexts).toEqual({
+        Title: { description: "Window title" },
+      });
+    });
+  });
+
+  describe("serialize", () => {
+    it("should keep headers, other resources and order, and append new strings", () => {
+      const { Quit: _removed, ...parsed } = handler.parse(content);
+      const result = handler.serialize({
+        ...parsed,
+        Title: "Bienvenue, {0} !",
+        Save: "Enregistrer & fermer",
+        Open: "Ouvrir <fichier>",
+      } as EnhancedTranslationFile);
+
+      expect(result).toBe(`${header}
+  <assembly alias="System.Drawing" name="System.Drawing, Version=4.0.0.0" />
+  <!-- Main window -->
+  <data name="Title" xml:space="preserve">
+    <value>Bienvenue, {0} !</value>
+    <comment>Window title</comment>
+  </data>
+  <data name="Logo" type="System.Resources.ResXFileRef, System.Windows.Forms">
+    <value>Resources\\logo.png;System.Drawing.Bitmap</value>
+  </data>
+  <data name="&gt;&gt;button1.Name" xml:space="preserve">
+    <value>button1</value>
+  </data>
+  <data name="Save" xml:space="preserve">
+    <value>Enregistrer &amp; fermer</value>
+  </data>
+  <data name="Open" xml:space="preserve">
+    <value>Ouvrir &lt;fichier&gt;</value>
+  </data>
+</root>
+`);
+    });
+
+    it("should write new files with Visual Studio's header", () => {
+      const result = handler.serialize({ Hello: "Hallo" });
+
+      expect(result).toContain('<resheader name="resmimetype">\n    <value>text/microsoft-resx</value>');
+      expect(result).toContain(
+        '  <data name="Hello" xml:space="preserve">\n    <value>Hallo</value>\n  </data>\n</root>\n',
+      );
+      expect(handler.parse(result)).toEqual(expect.objectContaining({ Hello: "Hallo" }));
+    });
+  });
+
+  describe("validateStructure", () => {
+    it("should only accept string values", () => {
+      expect(handler.validateStructure({ a: "b" }).isValid).toBe(true);
+      expect(handler.validateStructure({ a: { b: "c" } } as any).errors[0].code).toBe(
+        "INVALID_TRANSLATION_VALUE",
+      );
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { jest } from '@jest/globals';
+import { TooManyRequestsError } from 'deepl-node';
+import {
+  isRateLimitError,
+  mapWithConcurrency,
+  ScheduledTranslate,
+  TranslationScheduler,
+} from '../src/scheduler.js';
+import type { ITranslate } from '../src/translate.interface.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('TranslationScheduler', () => {
+  it('should bound the number of requests in flight', async () => {
+    const scheduler = new TranslationScheduler({ maxConcurrency: 2 });
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        scheduler.schedule(1, async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await delay(10);
+          active--;
+        }),
+      ),
+    );
+
+    expect(maxActive).toBe(2);
+  });
+
+  it('should retry rate limited requests', async () => {
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const scheduler = new TranslationScheduler({ retryDelayMs: 1 }, undefined, logger);
+    let calls = 0;
+
+    const result = await scheduler.schedule(1, async () => {
+      calls++;
+      if (calls < 3) {
+        throw { response: { status: 429 } };
+      }
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(calls).toBe(3);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Rate limit exceeded'));
+  });
+
+  it('should give up after maxRetries', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const scheduler = new TranslationScheduler({ retryDelayMs: 1, maxRetries: 1 });
+    const task = jest.fn(async () => {
+      throw { status: 429 };
+    });
+
+    await expect(scheduler.schedule(1, task)).rejects.toEqual({ status: 429 });
+    expect(task).toHaveBeenCalledTimes(2);
+    logSpy.mockRestore();
+  });
+
+  it('should not retry other errors', async () => {
+    const scheduler = new TranslationScheduler({ retryDelayMs: 1 });
+    const task = jest.fn(async () => {
+      throw new Error('bad request');
+    });
+
+    await expect(scheduler.schedule(1, task)).rejects.toThrow('bad request');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throttle requests per second', async () => {
+    const scheduler = new TranslationScheduler({
+      maxConcurrency: 10,
+      providers: { azure: { requestsPerSecond: 2 } },
+    }, 'azure');
+    const start = Date.now();
+
+    await Promise.all(
+      Array.from({ length: 3 }, () => scheduler.schedule(1, async () => undefined)),
+    );
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(900);
+  });
+
+  it('should recognise provider rate limit errors', () => {
+    expect(isRateLimitError({ response: { status: 429 } })).toBe(true);
+    expect(isRateLimitError({ name: 'ThrottlingException' })).toBe(true);
+    expect(isRateLimitError(new TooManyRequestsError('Too many requests'))).toBe(true);
+    expect(isRateLimitError(new Error('boom'))).toBe(false);
+  });
+
+  it('should retry DeepL rate limit errors', async () => {
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const scheduler = new TranslationScheduler({ retryDelayMs: 1 }, 'deepLPro', logger);
+    const task = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new TooManyRequestsError('Too many requests, DeepL servers are currently experiencing high load'))
+      .mockResolvedValue('done');
+
+    await expect(scheduler.schedule(1, task)).resolves.toBe('done');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('ScheduledTranslate', () => {
+  it('should only expose translateBatch when the engine has one', () => {
+    const scheduler = new TranslationScheduler();
+    const single: ITranslate = {
+      isValidLocale: () => true,
+      translateText: async (text) => text,
+    };
+    const batched: ITranslate = {
+      ...single,
+      translateBatch: async (texts) => texts,
+      batchLimits: { maxItems: 5 },
+    };
+
+    expect(new ScheduledTranslate(single, scheduler).translateBatch).toBeUndefined();
+    const scheduled = new ScheduledTranslate(batched, scheduler);
+    expect(scheduled.translateBatch).toBeDefined();
+    expect(scheduled.batchLimits).toEqual({ maxItems: 5 });
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep result order and respect the limit', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(ms);
+      active--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(maxActive).toBe(2);
+  });
+});
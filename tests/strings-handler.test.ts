@@ -0,0 +1,123 @@
+import { StringsHandler } from "../src/format/strings-handler.js";
+import { FormatDetector } from "../src/format-detector.js";
+import type { EnhancedTranslationFile } from "../src/format.interface.js";
+
+describe("StringsHandler", () => {
+  let handler: StringsHandler;
+
+  const content = `/* Localizable.strings
+   MyApp */
+
+/* Title of the main screen */
+"welcome" = "Welcome, %@!";
+
+// Toolbar button
+"save" = "Save";
+
+/* No comment provided by engineer. */
+"quote" = "Say \\"hi\\"\\nthen leave \\U00e9";
+unquoted = "Unquoted key";
+`;
+
+  beforeEach(() => {
+    handler = new StringsHandler();
+  });
+
+  describe("canHandle", () => {
+    it("should handle .strings files", () => {
+      expect(handler.canHandle("Localizable.strings")).toBe(true);
+      expect(handler.canHandle("en.lproj/InfoPlist.strings", content)).toBe(true);
+    });
+
+    it("should not handle other files or invalid content", () => {
+      expect(handler.canHandle("test.stringsdict")).toBe(false);
+      expect(handler.canHandle("test.properties")).toBe(false);
+      expect(handler.canHandle("test.strings", '"key" = "value"')).toBe(false);
+    });
+
+    it("should be detected by extension before its content", () => {
+      expect(FormatDetector.detectFormat("Localizable.strings", content)).toBe("strings");
+      expect(FormatDetector.detectFormat("Localizable.strings", "key = value;")).toBe("strings");
+    });
+  });
+
+  describe("parse", () => {
+    it("should parse keys, values and escape sequences", () => {
+      const result = handler.parse(content);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          welcome: "Welcome, %@!",
+          save: "Save",
+          quote: 'Say "hi"\nthen leave é',
+          unquoted: "Unquoted key",
+        }),
+      );
+      expect(result._metadata?.format).toBe("strings");
+    });
+
+    it("should pass developer comments as context, but not Xcode's placeholder", () => {
+      const result = handler.parse(content);
+
+      expect(result._metadata?.keyContexts).toEqual({
+        welcome: { description: "Title of the main screen" },
+        save: { description: "Toolbar button" },
+      });
+    });
+
+    it("should strip a byte order mark", () => {
+      expect(handler.parse('\uFEFF"a" = "b";')).toEqual(expect.objectContaining({ a: "b" }));
+    });
+
+    it("should report the line of syntax errors", () => {
+      expect(() => handler.parse('"a" = "b";\n"c" = "d"\n')).toThrow(
+        "Failed to parse strings: Expected ';' at line 3",
+      );
+    });
+  });
+
+  describe("serialize", () => {
+    it("should keep comments and order, and append new keys", () => {
+      const parsed = handler.parse(content);
+      const result = handler.serialize({
+        ...parsed,
+        save: "Sichern",
+        welcome: "Willkommen, %@!",
+        quote: 'Sag "hallo"',
+        unquoted: "Ohne",
+        extra: "Neu",
+      } as EnhancedTranslationFile);
+
+      expect(result).toBe(`/* Localizable.strings
+   MyApp */
+
+/* Title of the main screen */
+"welcome" = "Willkommen, %@!";
+
+// Toolbar button
+"save" = "Sichern";
+
+/* No comment provided by engineer. */
+"quote" = "Sag \\"hallo\\"";
+
+"unquoted" = "Ohne";
+
+"extra" = "Neu";
+`);
+    });
+
+    it("should write new files without comments", () => {
+      expect(handler.serialize({ a: 'Line\none "quoted"' })).toBe('"a" = "Line\\none \\"quoted\\"";\n');
+      expect(handler.serialize({})).toBe("");
+    });
+  });
+
+  describe("validateStructure", () => {
+    it("should only accept string values", () => {
+      expect(handler.validateStructure({ a: "b" }).isValid).toBe(true);
+      expect(handler.validateStructure({ a: { b: "c" } } as any).errors[0].code).toBe(
+        "INVALID_TRANSLATION_VALUE",
+      );
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { StringsdictHandler } from "../src/format/stringsdict-handler.js";
+import { FormatDetector } from "../src/format-detector.js";
+import type { EnhancedTranslationFile } from "../src/format.interface.js";
+
+describe("StringsdictHandler", () => {
+  let handler: StringsdictHandler;
+
+  const content = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+	<key>files</key>
+	<dict>
+		<key>NSStringLocalizedFormatKey</key>
+		<string>%#@count@ in &lt;%@&gt;</string>
+		<key>count</key>
+		<dict>
+			<key>NSStringFormatSpecTypeKey</key>
+			<string>NSStringPluralRuleType</string>
+			<key>NSStringFormatValueTypeKey</key>
+			<string>lu</string>
+			<key>zero</key>
+			<string>No files</string>
+			<key>one</key>
+			<string>%lu file</string>
+			<key>other</key>
+			<string>%lu files</string>
+		</dict>
+	</dict>
+</dict>
+</plist>
+`;
+
+  beforeEach(() => {
+    handler = new StringsdictHandler();
+  });
+
+  it("should handle .stringsdict files, detected by extension", () => {
+    expect(handler.canHandle("Localizable.stringsdict", content)).toBe(true);
+    expect(handler.canHandle("Localizable.strings")).toBe(false);
+    expect(FormatDetector.detectFormat("Localizable.stringsdict", content)).toBe("stringsdict");
+  });
+
+  it("should parse format strings and plural forms, without the variable types", () => {
+    const { _metadata, ...result } = handler.parse(content);
+
+    expect(result).toEqual({
+      files: {
+        NSStringLocalizedFormatKey: "%#@count@ in <%@>",
+        count: { zero: "No files", one: "%lu file", other: "%lu files" },
+      },
+    });
+    expect(_metadata?.format).toBe("stringsdict");
+  });
+
+  it("should keep the variable types and adapt the forms to the locale", () => {
+    const parsed = handler.parse(content);
+    const result = handler.serialize(
+      {
+        ...parsed,
+        files: {
+          NSStringLocalizedFormatKey: "%#@count@ w <%@>",
+          count: { zero: "Brak plików", one: "%lu plik", other: "%lu plików" },
+        },
+      } as EnhancedTranslationFile,
+      { locale: "pl" },
+    );
+
+    expect(result).toBe(content
+      .replace("%#@count@ in", "%#@count@ w")
+      .replace(
+        /<key>zero<\/key>[\s\S]*<string>%lu files<\/string>/,
+        [
+          "<key>zero</key>\n\t\t\t<string>Brak plików</string>",
+          "<key>one</key>\n\t\t\t<string>%lu plik</string>",
+          "<key>few</key>\n\t\t\t<string>%lu plików</string>",
+          "<key>many</key>\n\t\t\t<string>%lu plików</string>",
+          "<key>other</key>\n\t\t\t<string>%lu plików</string>",
+        ].join("\n\t\t\t"),
+      ));
+  });
+
+  it("should rebuild the variable types of new files", () => {
+    const result = handler.serialize(
+      {
+        songs: {
+          NSStringLocalizedFormatKey: "%#@n@",
+          n: { one: "%d song", other: "%d songs" },
+        },
+      },
+      { locale: "ja", indentation: 2 },
+    );
+
+    expect(result).toContain(`<dict>
+  <key>songs</key>
+  <dict>
+    <key>NSStringLocalizedFormatKey</key>
+    <string>%#@n@</string>
+    <key>n</key>
+    <dict>
+      <key>NSStringFormatSpecTypeKey</key>
+      <string>NSStringPluralRuleType</string>
+      <key>NSStringFormatValueTypeKey</key>
+      <string>d</string>
+      <key>other</key>
+      <string>%d songs</string>
+    </dict>
+  </dict>
+</dict>`);
+  });
+
+  it("should warn about entries without a format key", () => {
+    const validation = handler.validateStructure({ songs: { n: { other: "%d" } } });
+
+    expect(validation.isValid).toBe(true);
+    expect(validation.warnings[0].code).toBe("MISSING_FORMAT_KEY");
+  });
+});
@@ -0,0 +1,11 @@
+// Engine module loaded by the engine factory tests
+export function register(factory) {
+  factory.registerEngine('echo', {
+    description: 'Echoes texts behind a prefix',
+    schema: { prefix: { type: 'string', required: true, env: 'ATJ_ECHO_PREFIX' } },
+    create: ({ prefix }) => ({
+      isValidLocale: () => true,
+      translateText: async (text, _source, target) => `${prefix}${target}:${text}`,
+    }),
+  });
+}
@@ -0,0 +1,74 @@
+import type { EngineKeyInfo, TranslationKeyInfo } from '../src/config.js';
+import { createTranslateEngine, getEngineId, TranslateEngineFactory } from '../src/provider-factory.js';
+
+describe('TranslateEngineFactory', () => {
+  const createConfig = (translationKeyInfo: EngineKeyInfo, fallbackEngines?: EngineKeyInfo[]) => ({
+    translationKeyInfo,
+    fallbackEngines,
+    startDelimiter: '{',
+    endDelimiter: '}',
+    mode: 'file' as const,
+    sourceLocale: 'en',
+    keepTranslations: 'keep' as const,
+    keepExtraTranslations: 'remove' as const,
+    ignorePrefix: '',
+  });
+
+  it('should register the built-in engines', () => {
+    expect(TranslateEngineFactory.getSupportedEngines()).toEqual([
+      'aws',
+      'azure',
+      'google',
+      'deepLPro',
+      'deepLFree',
+      'openai',
+      'huggingface',
+      'huggingface-local',
+      'pseudo',
+    ]);
+    expect(TranslateEngineFactory.getEngine('openai')?.schema.apiKey).toEqual({ type: 'string', required: true });
+  });
+
+  it('should validate a configuration against the schema of its engine', async () => {
+    expect(TranslateEngineFactory.validate({ kind: 'azure', secretKey: 'key' } as EngineKeyInfo)).toEqual([
+      'region is required',
+    ]);
+    expect(TranslateEngineFactory.validate({ kind: 'openai', apiKey: 'key', model: 7 } as EngineKeyInfo)).toEqual([
+      'model must be a string',
+    ]);
+    await expect(createTranslateEngine(createConfig({ kind: 'deepLPro' } as EngineKeyInfo))).rejects.toThrow(
+      'Invalid deepLPro configuration: secretKey is required',
+    );
+    await expect(createTranslateEngine(createConfig({ kind: 'nope' }))).rejects.toThrow(
+      "Unknown translation engine 'nope'",
+    );
+  });
+
+  it('should keep the built-in configurations apart from the registered ones', () => {
+    const info: TranslationKeyInfo = { kind: 'google', apiKey: 'key' };
+    // @ts-expect-error registered engines are EngineKeyInfo, not TranslationKeyInfo
+    const registered: TranslationKeyInfo = { kind: 'echo' };
+
+    expect(info.kind === 'google' && info.apiKey).toBe('key');
+    expect(getEngineId(registered)).toBe('echo');
+  });
+
+  it('should create engines registered by an engine module', async () => {
+    await TranslateEngineFactory.loadModules(['./tests/test-data/echo-engine.mjs']);
+
+    expect(TranslateEngineFactory.hasEngine('echo')).toBe(true);
+    const engine = await createTranslateEngine(createConfig({ kind: 'echo', prefix: '>' }));
+    await expect(engine.translateText('Hello', 'en', 'fr')).resolves.toBe('>fr:Hello');
+    expect(getEngineId({ kind: 'echo', prefix: '>' })).toBe('echo');
+  });
+
+  it('should register engines from code', async () => {
+    TranslateEngineFactory.registerEngine('upper', {
+      schema: {},
+      create: () => ({ isValidLocale: () => true, translateText: async (text: string) => text.toUpperCase() }),
+    });
+
+    const engine = await createTranslateEngine(createConfig({ kind: 'upper' }));
+    await expect(engine.translateText('hi', 'en', 'fr')).resolves.toBe('HI');
+  });
+});
@@ -0,0 +1,787 @@
+import { jest } from '@jest/globals';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Configuration, EngineKeyInfo } from '../src/config.js';
+import type { EngineDecorator } from '../src/provider-factory.js';
+import type { ITranslate } from '../src/translate.interface.js';
+
+// Fake engine: prefixes every text with the target locale and refuses 'Broken'
+const translateBatch = jest.fn(async (texts: string[], _source: string, target: string) => {
+  if (texts.includes('Broken')) {
+    throw new Error('Batch refused');
+  }
+  return texts.map((text) => `${target}:${text}`);
+});
+const fakeEngine: ITranslate = {
+  isValidLocale: (locale: string) => locale !== 'xx',
+  translateText: async (text: string, _source: string, target: string) => {
+    if (text === 'Broken') {
+      throw new Error('Engine refused');
+    }
+    return `${target}:${text}`;
+  },
+  translateBatch,
+  batchLimits: { maxItems: 10 },
+};
+// Backup engine for fallbacks and routes: supports every locale and translates everything
+const backupEngine: ITranslate = {
+  isValidLocale: () => true,
+  translateText: async (text: string, _source: string, target: string) => `backup-${target}:${text}`,
+};
+const getEngineId = (info: EngineKeyInfo) => (info.kind === 'google' ? 'fake' : 'backup');
+const { FallbackTranslate } = await import('../src/fallback.js');
+jest.unstable_mockModule('../src/provider-factory.js', () => ({
+  createTranslateEngine: async (config: Configuration, decorate: EngineDecorator) => {
+    const create = (info: EngineKeyInfo) => decorate(info.kind === 'google' ? fakeEngine : backupEngine, info);
+    const engine = create(config.translationKeyInfo);
+    return config.fallbackEngines
+      ? new FallbackTranslate([
+          { id: getEngineId(config.translationKeyInfo), engine },
+          ...config.fallbackEngines.map((info) => ({ id: getEngineId(info), engine: create(info) })),
+        ])
+      : engine;
+  },
+  getEngineId,
+}));
+
+const { planTranslation, translate } = await import('../src/lib.js');
+
+describe('translate', () => {
+  const testDir = path.join(__dirname, 'test-translate');
+
+  const createConfig = (overrides: Partial<Configuration> = {}): Configuration => ({
+    translationKeyInfo: { kind: 'google', apiKey: 'test' },
+    startDelimiter: '{',
+    endDelimiter: '}',
+    mode: 'file',
+    sourceLocale: 'en',
+    keepTranslations: 'keep',
+    keepExtraTranslations: 'keep',
+    ignorePrefix: '',
+    ...overrides,
+  });
+
+  const writeJson = (file: string, data: unknown) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data, null, 2));
+  };
+  const readJson = (file: string) => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    translateBatch.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should translate nested keys in batches and keep existing translations', async () => {
+    writeJson(path.join(testDir, 'en.json'), {
+      title: 'Hello',
+      nested: { greeting: 'Hi {name}', list: ['one', 'two'] },
+      count: 3,
+    });
+    writeJson(path.join(testDir, 'fr.json'), { title: 'Bonjour' });
+
+    await translate(path.join(testDir, 'en.json'), createConfig());
+
+    expect(readJson(path.join(testDir, 'fr.json'))).toEqual({
+      title: 'Bonjour',
+      nested: { greeting: 'fr:Hi {name}', list: ['fr:one', 'fr:two'] },
+      count: 3,
+    });
+    expect(translateBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return a result with per-locale counts and key failures', async () => {
+    writeJson(path.join(testDir, 'en.json'), { a: 'Apple', b: 'Broken', c: 'Cherry' });
+    writeJson(path.join(testDir, 'fr.json'), { a: 'Pomme', old: 'Vieux' });
+    writeJson(path.join(testDir, 'xx.json'), {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await translate(
+      path.join(testDir, 'en.json'),
+      createConfig({ keepExtraTranslations: 'remove' }),
+    );
+
+    expect(result).toMatchObject({
+      status: 'partial',
+      engine: 'fake',
+      sourceLocale: 'en',
+      locales: [
+        {
+          locale: 'fr',
+          status: 'translated',
+          translated: 1,
+          fromMemory: 0,
+          kept: 1,
+          removed: 1,
+          failed: 1,
+          failures: [{ key: 'b', error: 'Engine refused' }],
+        },
+        { locale: 'xx', status: 'skipped-unsupported', translated: 0 },
+      ],
+    });
+    expect(result.durationMs).toBe(result.endTime - result.startTime);
+    // failed keys keep the source text
+    expect(readJson(path.join(testDir, 'fr.json'))).toEqual({ a: 'Pomme', b: 'Broken', c: 'fr:Cherry' });
+  });
+
+  it('should report setup errors in the result', async () => {
+    writeJson(path.join(testDir, 'en.json'), { a: 'Apple' });
+    writeJson(path.join(testDir, 'fr.json'), {});
+
+    const result = await translate(path.join(testDir, 'en.json'), createConfig({ sourceLocale: 'de' }));
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('You must use the de file');
+    expect(result.locales).toEqual([]);
+  });
+
+  it('should send progress messages to the configured logger', async () => {
+    writeJson(path.join(testDir, 'en.json'), { a: 'Apple' });
+    writeJson(path.join(testDir, 'fr.json'), {});
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    const result = await translate(path.join(testDir, 'en.json'), createConfig({ logger }));
+
+    expect(result.status).toBe('success');
+    expect(logger.log).toHaveBeenCalledWith(expect.stringContaining('Translation completed'));
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it('should send engine warnings to the configured logger', async () => {
+    writeJson(path.join(testDir, 'en.json'), { a: 'Apple', b: 'Broken' });
+    writeJson(path.join(testDir, 'fr.json'), {});
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await translate(path.join(testDir, 'en.json'), createConfig({ logger }));
+
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Batch request failed'));
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("Could not translate 'b'"));
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('should call the lifecycle hooks and apply their rewrites', async () => {
+    writeJson(path.join(testDir, 'en.json'), {
+      keep: 'Keep me',
+      skip: 'Skip me',
+      brand: 'Acme',
+      rewrite: 'Hello',
+      broken: 'Broken',
+    });
+    writeJson(path.join(testDir, 'fr.json'), { skip: 'Ancien' });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const events: string[] = [];
+    const hooks = {
+      onLocaleStart: jest.fn((event: { locale: string; keys: number }) => {
+        events.push(`start:${event.locale}:${event.keys}`);
+      }),
+      beforeTranslate: jest.fn(async (event: { key: string; text: string }) => {
+        if (event.key === 'skip') {
+          return false as const;
+        }
+        if (event.key === 'brand') {
+          return { translation: 'Acme' };
+        }
+        if (event.key === 'rewrite') {
+          return 'Hello there';
+        }
+        return undefined;
+      }),
+      afterTranslate: jest.fn(async (event: { translation: string }) => event.translation.toUpperCase()),
+      onKeyTranslated: jest.fn((event: { key: string; origin: string }) => {
+        events.push(`key:${event.key}:${event.origin}`);
+      }),
+      onLocaleSaved: jest.fn((event: { locale: string }) => {
+        events.push(`saved:${event.locale}`);
+      }),
+      onError: jest.fn((event: { key?: string; error: Error }) => {
+        events.push(`error:${event.key}:${event.error.message}`);
+      }),
+    };
+
+    const result = await translate(
+      path.join(testDir, 'en.json'),
+      createConfig({ keepTranslations: 'retranslate', hooks }),
+    );
+
+    expect(readJson(path.join(testDir, 'fr.json'))).toEqual({
+      keep: 'FR:KEEP ME',
+      skip: 'Ancien',
+      brand: 'Acme',
+      rewrite: 'FR:HELLO THERE',
+      broken: 'Broken',
+    });
+    expect(events).toEqual([
+      'start:fr:5',
+      'key:brand:hook',
+      'key:keep:engine',
+      'key:rewrite:engine',
+      'error:broken:Engine refused',
+      'saved:fr',
+    ]);
+    expect(result.locales[0]).toMatchObject({ translated: 3, skipped: 1, failed: 1 });
+  });
+
+  it('should apply the glossary and report violations', async () => {
+    writeJson(path.join(testDir, 'en.json'), { open: 'Open Workspace', seats: 'Seat count', buy: 'Buy a Seat' });
+    writeJson(path.join(testDir, 'fr.json'), {});
+
+    const result = await translate(
+      path.join(testDir, 'en.json'),
+      createConfig({
+        glossary: { Workspace: { doNotTranslate: true }, Seat: { translations: { fr: 'Siège' } } },
+        hooks: {
+          afterTranslate: ({ key, translation }) => (key === 'buy' ? 'fr:Acheter une place' : translation),
+        },
+      }),
+    );
+
+    expect(readJson(path.join(testDir, 'fr.json'))).toEqual({
+      open: 'fr:Open Workspace',
+      seats: 'fr:Siège count',
+      buy: 'fr:Acheter une place',
+    });
+    expect(translateBatch).toHaveBeenCalledWith(
+      ['Open {atj_term_0}', '{atj_term_0} count', 'Buy a {atj_term_0}'],
+      'en',
+      'fr',
+      [undefined, undefined, undefined],
+      ['open', 'seats', 'buy'],
+    );
+    expect(result.locales[0].glossaryViolations).toEqual([{ key: 'buy', term: 'Seat', expected: 'Siège' }]);
+  });
+
+  it.each([
+    ['flag', 'fr:Bonjour', 'flagged'],
+    ['source', 'Hello {name}', 'source'],
+    ['keep', 'Salut {name}', 'kept'],
+    ['retry', 'fr:Hello {name}', 'retried'],
+  ] as const)('should apply the %s placeholder policy', async (policy, written, action) => {
+    writeJson(path.join(testDir, 'en.json'), { greeting: 'Hello {name}' });
+    writeJson(path.join(testDir, 'fr.json'), { greeting: 'Salut {name}' });
+    translateBatch.mockImplementationOnce(async () => ['fr:Bonjour']);
+
+    const result = await translate(
+      path.join(testDir, 'en.json'),
+      createConfig({ keepTranslations: 'retranslate', placeholders: { policy } }),
+    );
+
+    expect(readJson(path.join(testDir, 'fr.json'))).toEqual({ greeting: written });
+    expect(result.locales[0].placeholderViolations).toEqual([
+      { locale: 'fr', key: 'greeting', missing: ['{name}'], unexpected: [], action },
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("Placeholders of 'greeting' in 'fr'"));
+  });
+
+  it('should fall back to the next engine for failed strings and unsupported locales', async () => {
+    writeJson(path.join(testDir, 'en.json'), { a: 'Apple', b: 'Broken' });
+    writeJson(path.join(testDir, 'fr.json'), {});
+    writeJson(path.join(testDir, 'xx.json'), {});
+    const onKeyTranslated = jest.fn((_event: { key: string; engine?: string }) => {});
+
+    const result = await translate(
+      path.join(testDir, 'en.json'),
+      createConfig({
+        fallbackEngines: [{ kind: 'huggingface-local', model: 'backup' }],
+        hooks: { onKeyTranslated },
+      }),
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.locales.map(({ locale, producedBy }) => ({ locale, producedBy }))).toEqual([
+      { locale: 'fr', producedBy: { a: 'fake', b: 'backup' } },
+      { locale: 'xx', producedBy: { a: 'backup', b: 'backup' } },
+    ]);
+    expect(readJson(path.join(testDir, 'fr.json'))).toEqual({ a: 'fr:Apple', b: 'backup-fr:Broken' });
+    expect(readJson(path.join(testDir, 'xx.json'))).toEqual({ a: 'backup-xx:Apple', b: 'backup-xx:Broken' });
+    expect(onKeyTranslated).toHaveBeenCalledWith(expect.objectContaining({ key: 'b', engine: 'backup' }));
+  });
+
+  it('should route locales to the engine of the most specific pattern', async () => {
+    writeJson(path.join(testDir, 'en.json'), { a: 'Apple' });
+    writeJson(path.join(testDir, 'fr.json'), {});
+    writeJson(path.join(testDir, 'de.json'), {});
+    writeJson(path.join(testDir, 'xx.json'), {});
+
+    const result = await translate(
+      path.join(testDir, 'en.json'),
+      createConfig({
+        engineRoutes: {
+          '*': { kind: 'huggingface-local', model: 'backup' },
+          fr: { kind: 'google', apiKey: 'test' },
+        },
+      }),
+    );
+
+    expect(result.locales.map(({ locale, engine }) => ({ locale, engine }))).toEqual([
+      { locale: 'de', engine: 'backup' },
+      { locale: 'fr', engine: 'fake' },
+      { locale: 'xx', engine: 'backup' },
+    ]);
+    expect(readJson(path.join(testDir, 'de.json'))).toEqual({ a: 'backup-de:Apple' });
+    expect(readJson(path.join(testDir, 'fr.json'))).toEqual({ a: 'fr:Apple' });
+    expect(readJson(path.join(testDir, 'xx.json'))).toEqual({ a: 'backup-xx:Apple' });
+  });
+
+  it('should translate each branch of ICU messages', async () => {
+    writeJson(path.join(testDir, 'en.json'), {
+      files: '{count, plural, one {# file} other {# files}} in {folder}',
+    });
+    writeJson(path.join(testDir, 'pl.json'), {});
+
+    await translate(path.join(testDir, 'en.json'), createConfig());
+
+    expect(readJson(path.join(testDir, 'pl.json'))).toEqual({
+      files: '{count, plural, one {pl:# file} few {pl:# files} many {pl:# files} other {pl:# files}} pl:in {folder}',
+    });
+    expect(translateBatch).toHaveBeenCalledWith(
+      ['{#} file', '{#} files', 'in {folder}'],
+      'en',
+      'pl',
+      [undefined, undefined, undefined],
+      ['files#one', 'files#other', 'files#text'],
+    );
+  });
+
+  it('should report the branches of ICU messages by sub-path', async () => {
+    writeJson(path.join(testDir, 'en.json'), {
+      files: '{count, plural, one {# file} other {Broken}}',
+      who: '{gender, select, female {{count, plural, one {her file} other {her files}}} other {their file}}',
+    });
+    writeJson(path.join(testDir, 'de.json'), {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const onKeyTranslated = jest.fn((_event: { key: string }) => {});
+
+    const result = await translate(path.join(testDir, 'en.json'), createConfig({ hooks: { onKeyTranslated } }));
+
+    expect(onKeyTranslated.mock.calls.map(([event]) => event.key)).toEqual([
+      'files#one',
+      'who#female.one',
+      'who#female.other',
+      'who#other',
+    ]);
+    expect(result.locales[0].failures).toEqual([{ key: 'files#other', error: 'Engine refused' }]);
+    expect(Object.keys(result.locales[0].producedBy)).toEqual([
+      'files#one',
+      'who#female.one',
+      'who#female.other',
+      'who#other',
+    ]);
+    expect(readJson(path.join(testDir, 'de.json'))).toEqual({
+      files: '{count, plural, one {de:# file} other {Broken}}',
+      who: '{gender, select, female {{count, plural, one {de:her file} other {de:her files}}} other {de:their file}}',
+    });
+  });
+
+  it('should send normalized locale codes to the engine and keep the file names', async () => {
+    writeJson(path.join(testDir, 'en_US.json'), { title: 'Hello' });
+    writeJson(path.join(testDir, 'pt_BR.json'), {});
+    writeJson(path.join(testDir, 'cn.json'), {});
+
+    await translate(
+      path.join(testDir, 'en_US.json'),
+      createConfig({ sourceLocale: 'en-US', locales: { aliases: { cn: 'zh-Hans' } } }),
+    );
+
+    expect(readJson(path.join(testDir, 'pt_BR.json'))).toEqual({ title: 'pt-BR:Hello' });
+    expect(readJson(path.join(testDir, 'cn.json'))).toEqual({ title: 'zh-Hans:Hello' });
+    expect(translateBatch).toHaveBeenCalledWith(['Hello'], 'en-US', 'pt-BR', [undefined], ['title']);
+  });
+
+  it('should only translate the listed target locales and create missing files', async () => {
+    writeJson(path.join(testDir, 'en.json'), { title: 'Hello' });
+    writeJson(path.join(testDir, 'fr.json'), {});
+    writeJson(path.join(testDir, 'de.json'), {});
+    const config = createConfig({ targetLocales: ['fr', 'ja'] });
+
+    const plan = await planTranslation(path.join(testDir, 'en.json'), config);
+
+    expect(plan?.locales.map((locale) => locale.locale)).toEqual(['fr', 'ja']);
+    expect(fs.existsSync(path.join(testDir, 'ja.json'))).toBe(false);
+
+    const result = await translate(path.join(testDir, 'en.json'), config);
+
+    expect(result.locales.map((locale) => locale.locale)).toEqual(['fr', 'ja']);
+    expect(readJson(path.join(testDir, 'ja.json'))).toEqual({ title: 'ja:Hello' });
+    expect(readJson(path.join(testDir, 'de.json'))).toEqual({});
+  });
+
+  describe('retranslate-changed', () => {
+    it('should leave the retranslation of an unset mode as it was', async () => {
+      const sourceFile = path.join(testDir, 'en.json');
+      writeJson(sourceFile, { a: 'Apple' });
+      writeJson(path.join(testDir, 'fr.json'), { a: 'Pomme' });
+      const config = createConfig({ keepTranslations: undefined as unknown as Configuration['keepTranslations'] });
+
+      await translate(sourceFile, config);
+
+      expect(readJson(path.join(testDir, 'fr.json'))).toEqual({ a: 'fr:Apple' });
+      expect(fs.existsSync(path.join(testDir, 'atj.lock'))).toBe(false);
+    });
+
+    it('should only retranslate keys whose source changed', async () => {
+      const sourceFile = path.join(testDir, 'en.json');
+      writeJson(sourceFile, { a: 'Apple', b: 'Banana' });
+      writeJson(path.join(testDir, 'fr.json'), { a: 'Pomme', b: 'Banane' });
+      const config = createConfig({ keepTranslations: 'retranslate-changed' });
+
+      // first run records the baseline without retranslating
+      await translate(sourceFile, config);
+      expect(readJson(path.join(testDir, 'fr.json'))).toEqual({ a: 'Pomme', b: 'Banane' });
+      expect(fs.existsSync(path.join(testDir, 'atj.lock'))).toBe(true);
+
+      writeJson(sourceFile, { a: 'Apple', b: 'Blueberry' });
+      await translate(sourceFile, config);
+
+      expect(readJson(path.join(testDir, 'fr.json'))).toEqual({ a: 'Pomme', b: 'fr:Blueberry' });
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining("1 stale key(s) in 'fr'"));
+    });
+
+    it('should keep stale keys that fail stale for the next run', async () => {
+      const sourceFile = path.join(testDir, 'en.json');
+      writeJson(sourceFile, { a: 'Apple', b: 'Banana' });
+      writeJson(path.join(testDir, 'fr.json'), { a: 'Pomme', b: 'Banane' });
+      const config = createConfig({ keepTranslations: 'retranslate-changed' });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await translate(sourceFile, config);
+
+      writeJson(sourceFile, { a: 'Apple', b: 'Broken' });
+      const failed = await translate(sourceFile, config);
+
+      expect(failed.locales[0]).toMatchObject({ stale: ['b'], failed: 1 });
+      expect(readJson(path.join(testDir, 'fr.json'))).toEqual({ a: 'Pomme', b: 'Banane' });
+
+      const again = await translate(sourceFile, config);
+      expect(again.locales[0]).toMatchObject({ stale: ['b'], failed: 1 });
+    });
+
+    it('should work in folder mode', async () => {
+      const sourceFile = path.join(testDir, 'en', 'common.json');
+      writeJson(sourceFile, { save: 'Save' });
+      writeJson(path.join(testDir, 'de', 'common.json'), { save: 'Speichern' });
+      const config = createConfig({ mode: 'folder', keepTranslations: 'retranslate-changed' });
+
+      await translate(sourceFile, config);
+      writeJson(sourceFile, { save: 'Save all' });
+      await translate(sourceFile, config);
+
+      expect(readJson(path.join(testDir, 'de', 'common.json'))).toEqual({ save: 'de:Save all' });
+      expect(readJson(path.join(testDir, 'atj.lock')).files['common.json'].de).toHaveProperty('save');
+    });
+  });
+
+  it('should translate Android plurals and string arrays item by item', async () => {
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'en.xml'),
+      `<resources>
+  <string name="app_name" translatable="false">MyApp</string>
+  <plurals name="songs"><item quantity="one">%d song</item><item quantity="other">%d songs</item></plurals>
+  <string-array name="planets"><item>Mercury</item><item>Venus</item></string-array>
+</resources>`,
+    );
+    fs.writeFileSync(path.join(testDir, 'pl.xml'), '<resources></resources>');
+
+    await translate(path.join(testDir, 'en.xml'), createConfig());
+
+    const xml = fs.readFileSync(path.join(testDir, 'pl.xml'), 'utf8');
+    expect(xml).toMatch(
+      /<item quantity="one">pl:%d song<\/item>\s*<item quantity="few">pl:%d songs<\/item>\s*<item quantity="many">pl:%d songs<\/item>\s*<item quantity="other">pl:%d songs<\/item>/,
+    );
+    expect(xml).toMatch(/<item>pl:Mercury<\/item>\s*<item>pl:Venus<\/item>/);
+    expect(xml).not.toContain('MyApp');
+    expect(translateBatch).toHaveBeenCalledWith(
+      ['%d song', '%d songs', 'Mercury', 'Venus'],
+      'en',
+      'pl',
+      [undefined, undefined, undefined, undefined],
+      ['songs.one', 'songs.other', 'planets.0', 'planets.1'],
+    );
+  });
+
+  it('should translate Android strings with xliff:g tags again on the next run', async () => {
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'en.xml'),
+      `<?xml version="1.0" encoding="utf-8"?>
+<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">
+  <string name="welcome">Hello <xliff:g id="name">%1$s</xliff:g>!</string>
+</resources>`,
+    );
+    fs.writeFileSync(path.join(testDir, 'pl.xml'), '<?xml version="1.0" encoding="utf-8"?>\n<resources></resources>');
+
+    const first = await translate(path.join(testDir, 'en.xml'), createConfig());
+    const second = await translate(path.join(testDir, 'en.xml'), createConfig());
+
+    expect(first.status).toBe('success');
+    expect(second.status).toBe('success');
+    expect(second.locales[0]).toMatchObject({ locale: 'pl', status: 'translated', kept: 1 });
+  });
+
+  it('should translate UTF-16 .strings files in .lproj folders', async () => {
+    const sourceFile = path.join(testDir, 'en.lproj', 'Localizable.strings');
+    fs.mkdirSync(path.join(testDir, 'Base.lproj'), { recursive: true });
+    fs.mkdirSync(path.join(testDir, 'de.lproj'), { recursive: true });
+    fs.mkdirSync(path.join(testDir, 'en.lproj'), { recursive: true });
+    fs.writeFileSync(
+      sourceFile,
+      Buffer.from('\uFEFF/* Toolbar button */\n"save" = "Save";\n"open" = "Open";\n', 'utf16le'),
+    );
+
+    await translate(sourceFile, createConfig({ mode: 'folder', targetLocales: ['de', 'pt-BR'] }));
+
+    for (const locale of ['de', 'pt-BR']) {
+      const data = fs.readFileSync(path.join(testDir, `${locale}.lproj`, 'Localizable.strings'));
+      expect(data.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xfe]));
+      expect(data.toString('utf16le', 2)).toBe(`"save" = "${locale}:Save";\n\n"open" = "${locale}:Open";\n`);
+    }
+    expect(fs.existsSync(path.join(testDir, 'Base.lproj', 'Localizable.strings'))).toBe(false);
+    expect(translateBatch).toHaveBeenCalledWith(
+      ['Save', 'Open'],
+      'en',
+      'de',
+      ['Toolbar button', undefined],
+      ['save', 'open'],
+    );
+  });
+
+  it('should fill in the locales of an Xcode string catalog in the same file', async () => {
+    const catalogFile = path.join(testDir, 'Localizable.xcstrings');
+    writeJson(catalogFile, {
+      sourceLanguage: 'en',
+      strings: {
+        Hello: {
+          comment: 'Greeting',
+          extractionState: 'manual',
+          localizations: { de: { stringUnit: { state: 'translated', value: 'Hallo' } } },
+        },
+        Save: {},
+        Logo: { shouldTranslate: false },
+      },
+      version: '1.0',
+    });
+
+    const result = await translate(catalogFile, createConfig({ targetLocales: ['de', 'fr'] }));
+
+    expect(result.status).toBe('success');
+    const catalog = readJson(catalogFile);
+    expect(catalog.strings.Hello).toEqual({
+      comment: 'Greeting',
+      extractionState: 'manual',
+      localizations: {
+        de: { stringUnit: { state: 'translated', value: 'Hallo' } },
+        fr: { stringUnit: { state: 'needs_review', value: 'fr:Hello' } },
+      },
+    });
+    expect(catalog.strings.Save.localizations).toEqual({
+      de: { stringUnit: { state: 'needs_review', value: 'de:Save' } },
+      fr: { stringUnit: { state: 'needs_review', value: 'fr:Save' } },
+    });
+    expect(catalog.strings.Logo).toEqual({ shouldTranslate: false });
+    expect(translateBatch).toHaveBeenCalledWith(['Hello', 'Save'], 'en', 'fr', ['Greeting', undefined], ['Hello', 'Save']);
+    expect(fs.readdirSync(testDir)).toEqual(['Localizable.xcstrings']);
+  });
+
+  it('should translate .resx files into Name.<locale>.resx siblings', async () => {
+    const resource = (entries: string) =>
+      `<?xml version="1.0" encoding="utf-8"?>\n<root>\n${entries}</root>\n`;
+    const entry = (name: string, value: string, comment = '') =>
+      `  <data name="${name}" xml:space="preserve">\n    <value>${value}</value>\n${comment}  </data>\n`;
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'Strings.resx'),
+      resource(entry('Save', 'Save', '    <comment>Toolbar button</comment>\n') + entry('Open', 'Open')),
+    );
+    fs.writeFileSync(path.join(testDir, 'Strings.fr.resx'), resource(entry('Save', 'Enregistrer')));
+    fs.writeFileSync(path.join(testDir, 'Errors.resx'), resource(entry('NotFound', 'Not found')));
+
+    await translate(path.join(testDir, 'Strings.resx'), createConfig({ targetLocales: ['fr', 'de'] }));
+
+    expect(fs.readFileSync(path.join(testDir, 'Strings.fr.resx'), 'utf8')).toContain(
+      `${entry('Save', 'Enregistrer') + entry('Open', 'fr:Open')}</root>`,
+    );
+    expect(fs.readFileSync(path.join(testDir, 'Strings.de.resx'), 'utf8')).toContain(
+      `${entry('Save', 'de:Save') + entry('Open', 'de:Open')}</root>`,
+    );
+    expect(translateBatch).toHaveBeenCalledWith(['Save', 'Open'], 'en', 'de', ['Toolbar button', undefined], ['Save', 'Open']);
+    expect(fs.readdirSync(testDir).sort()).toEqual(['Errors.resx', 'Strings.de.resx', 'Strings.fr.resx', 'Strings.resx']);
+  });
+
+  it('should keep the other resources and comments of existing .resx targets', async () => {
+    const resource = (entries: string) =>
+      `<?xml version="1.0" encoding="utf-8"?>\n<root>\n${entries}</root>\n`;
+    const entry = (name: string, value: string, comment = '') =>
+      `  <data name="${name}" xml:space="preserve">\n    <value>${value}</value>\n${comment}  </data>\n`;
+    const logo =
+      '  <data name="Logo" type="System.Resources.ResXFileRef, System.Windows.Forms">\n    <value>Resources\\logo.de.png;System.Drawing.Bitmap</value>\n  </data>\n';
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(path.join(testDir, 'Name.resx'), resource(entry('Hello', 'Hello') + entry('Bye', 'Bye')));
+    fs.writeFileSync(
+      path.join(testDir, 'Name.de.resx'),
+      resource(`  <!-- Farewells -->\n${entry('Bye', 'Tschüss', '    <comment>Reviewed</comment>\n')}${logo}`),
+    );
+
+    await translate(path.join(testDir, 'Name.resx'), createConfig({ targetLocales: ['de'] }));
+
+    expect(fs.readFileSync(path.join(testDir, 'Name.de.resx'), 'utf8')).toBe(
+      resource(
+        `  <!-- Farewells -->\n${entry('Bye', 'Tschüss', '    <comment>Reviewed</comment>\n')}${logo}${entry('Hello', 'de:Hello')}`,
+      ),
+    );
+  });
+
+  it('should keep the comments of existing .strings targets', async () => {
+    for (const locale of ['en', 'de']) {
+      fs.mkdirSync(path.join(testDir, `${locale}.lproj`), { recursive: true });
+    }
+    const sourceFile = path.join(testDir, 'en.lproj', 'Localizable.strings');
+    fs.writeFileSync(sourceFile, '"save" = "Save";\n"open" = "Open";\n');
+    fs.writeFileSync(
+      path.join(testDir, 'de.lproj', 'Localizable.strings'),
+      '/* Toolbar button */\n"save" = "Sichern";\n',
+    );
+
+    await translate(sourceFile, createConfig({ mode: 'folder', targetLocales: ['de'] }));
+
+    expect(fs.readFileSync(path.join(testDir, 'de.lproj', 'Localizable.strings'), 'utf8')).toBe(
+      '/* Toolbar button */\n"save" = "Sichern";\n\n"open" = "de:Open";\n',
+    );
+  });
+
+  it('should send the comments of PO entries to the engine as context', async () => {
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'en.po'),
+      'msgid ""\nmsgstr ""\n\n#. Toolbar button\n#, max-length:8\nmsgctxt "verb"\nmsgid "Save"\nmsgstr "Save"\n\nmsgid "Open"\nmsgstr "Open"\n',
+    );
+    fs.writeFileSync(path.join(testDir, 'fr.po'), 'msgid ""\nmsgstr ""\n"Language: fr\\n"\n');
+
+    await translate(path.join(testDir, 'en.po'), createConfig());
+
+    expect(translateBatch).toHaveBeenCalledWith(
+      ['Open', 'Save'],
+      'en',
+      'fr',
+      [undefined, 'Toolbar button; context: verb; at most 8 characters long'],
+      ['Open', 'verb|Save'],
+    );
+  });
+
+  describe('review flags', () => {
+    const writePo = (file: string, entries: string) => {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, `msgid ""\nmsgstr ""\n"Language: fr\\n"\n\n${entries}`);
+    };
+
+    it('should mark machine translations fuzzy and keep reviewed entries', async () => {
+      writePo(path.join(testDir, 'en.po'), 'msgid "Apple"\nmsgstr "Apple"\n\nmsgid "Banana"\nmsgstr "Banana"\n');
+      writePo(path.join(testDir, 'fr.po'), 'msgid "Apple"\nmsgstr "Pomme"\n');
+
+      await translate(path.join(testDir, 'en.po'), createConfig({ markForReview: true }));
+
+      const po = fs.readFileSync(path.join(testDir, 'fr.po'), 'utf8');
+      expect(po).toMatch(/#, fuzzy\nmsgid "Banana"\nmsgstr "fr:Banana"/);
+      expect(po).toMatch(/\n\nmsgid "Apple"\nmsgstr "Pomme"/);
+    });
+
+    it('should retranslate fuzzy entries on request', async () => {
+      writePo(path.join(testDir, 'en.po'), 'msgid "Apple"\nmsgstr "Apple"\n\nmsgid "Banana"\nmsgstr "Banana"\n');
+      writePo(path.join(testDir, 'fr.po'), 'msgid "Apple"\nmsgstr "Pomme"\n\n#, fuzzy\nmsgid "Banana"\nmsgstr "Banane?"\n');
+
+      await translate(path.join(testDir, 'en.po'), createConfig({ fuzzyTranslations: 'retranslate' }));
+
+      const po = fs.readFileSync(path.join(testDir, 'fr.po'), 'utf8');
+      expect(po).toMatch(/#, fuzzy\nmsgid "Banana"\nmsgstr "fr:Banana"/);
+      expect(po).toContain('msgstr "Pomme"');
+      expect(translateBatch).toHaveBeenCalledWith(['Banana'], 'en', 'fr', [undefined], ['Banana']);
+    });
+
+    it('should retranslate flagged entries nested in variations', async () => {
+      const unit = (value: string, state = 'translated') => ({ stringUnit: { state, value } });
+      const catalogFile = path.join(testDir, 'Localizable.xcstrings');
+      writeJson(catalogFile, {
+        sourceLanguage: 'en',
+        strings: {
+          items: {
+            localizations: {
+              en: { variations: { plural: { one: unit('%lld item'), other: unit('%lld items') } } },
+              de: {
+                variations: { plural: { one: unit('%lld Artikel'), other: unit('%lld Artikel?', 'needs_review') } },
+              },
+            },
+          },
+        },
+        version: '1.0',
+      });
+
+      await translate(catalogFile, createConfig({ fuzzyTranslations: 'retranslate' }));
+
+      expect(readJson(catalogFile).strings.items.localizations.de.variations.plural).toEqual({
+        one: unit('%lld Artikel'),
+        other: unit('de:%lld items', 'needs_review'),
+      });
+      expect(translateBatch).toHaveBeenCalledWith(['%lld items'], 'en', 'de', [undefined], ['items.plural.other']);
+    });
+  });
+
+  describe('dry run', () => {
+    it('should plan the run without calling the engine or writing files', async () => {
+      const sourceFile = path.join(testDir, 'en.json');
+      writeJson(sourceFile, { title: 'Hello', body: 'World', nested: { ok: 'OK' } });
+      writeJson(path.join(testDir, 'fr.json'), { title: 'Bonjour', obsolete: 'Vieux' });
+      const before = fs.readFileSync(path.join(testDir, 'fr.json'), 'utf8');
+
+      const plan = await planTranslation(
+        sourceFile,
+        createConfig({ keepExtraTranslations: 'remove' }),
+      );
+
+      expect(plan).toEqual({
+        sourceLocale: 'en',
+        engine: 'fake',
+        totalCharacters: 7,
+        locales: [
+          {
+            locale: 'fr',
+            engine: 'fake',
+            translate: ['body', 'nested.ok'],
+            fromMemory: [],
+            keep: ['title'],
+            remove: ['obsolete'],
+            stale: [],
+            characters: 7,
+          },
+        ],
+      });
+      expect(translateBatch).not.toHaveBeenCalled();
+      expect(fs.readFileSync(path.join(testDir, 'fr.json'), 'utf8')).toBe(before);
+    });
+
+    it('should print the plan when translate runs with dryRun', async () => {
+      const sourceFile = path.join(testDir, 'en.json');
+      writeJson(sourceFile, { title: 'Hello' });
+      writeJson(path.join(testDir, 'de.json'), {});
+
+      await translate(sourceFile, createConfig({ dryRun: true }));
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Translation plan'));
+      expect(readJson(path.join(testDir, 'de.json'))).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { TranslationMemory } from '../src/translation-memory.js';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+describe('TranslationMemory', () => {
+  const testDir = path.join(__dirname, 'test-translation-memory');
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should persist translations per engine and locale pair', () => {
+    const memory = new TranslationMemory(testDir);
+    memory.store('deepLPro', 'en', 'fr', 'Hello world', 'Bonjour le monde');
+    memory.save();
+
+    expect(fs.existsSync(path.join(testDir, 'deepLPro', 'en__fr.json'))).toBe(true);
+
+    const reloaded = new TranslationMemory(testDir);
+    expect(reloaded.lookup('deepLPro', 'en', 'fr', 'Hello world')).toBe('Bonjour le monde');
+    expect(reloaded.lookup('deepLPro', 'en', 'de', 'Hello world')).toBeUndefined();
+  });
+
+  it('should match on normalized source text', () => {
+    const memory = new TranslationMemory(testDir);
+    memory.store('google', 'en', 'fr', 'Hello   world', 'Bonjour le monde');
+
+    expect(memory.lookup('google', 'en', 'fr', ' Hello world\n')).toBe('Bonjour le monde');
+  });
+
+  it('should keep entries with different contexts apart', () => {
+    const memory = new TranslationMemory(testDir);
+    memory.store('google', 'en', 'fr', 'Open', 'Ouvrir', 'button');
+    memory.store('google', 'en', 'fr', 'Open', 'Ouvert', 'status');
+
+    expect(memory.lookup('google', 'en', 'fr', 'Open', 'button')).toBe('Ouvrir');
+    expect(memory.lookup('google', 'en', 'fr', 'Open', 'status')).toBe('Ouvert');
+    expect(memory.lookup('google', 'en', 'fr', 'Open')).toBeUndefined();
+  });
+
+  it('should only reuse other engines when asked', () => {
+    const memory = new TranslationMemory(testDir);
+    memory.store('deepLPro', 'en', 'fr', 'Save', 'Enregistrer');
+    memory.save();
+
+    expect(memory.lookup('openai:gpt-4.1-mini', 'en', 'fr', 'Save')).toBeUndefined();
+    expect(memory.lookup('openai:gpt-4.1-mini', 'en', 'fr', 'Save', undefined, true)).toBe('Enregistrer');
+  });
+
+  it('should list, prune and export records', () => {
+    const memory = new TranslationMemory(testDir);
+    memory.store('google', 'en', 'fr', 'Yes', 'Oui');
+    memory.store('google', 'en', 'de', 'Yes', 'Ja');
+    memory.store('openai:qwen2.5:14b', 'en', 'fr', 'No', 'Non');
+    memory.save();
+
+    expect(memory.records()).toHaveLength(3);
+    expect(memory.records({ engine: 'openai:qwen2.5:14b' })).toEqual([
+      expect.objectContaining({ engine: 'openai:qwen2.5:14b', source: 'No', translation: 'Non' }),
+    ]);
+    expect(memory.records({ olderThanDays: 1 })).toHaveLength(0);
+
+    const tmxFile = path.join(testDir, 'export.tmx');
+    expect(memory.export(tmxFile, { targetLocale: 'fr' })).toBe(2);
+    const tmx = fs.readFileSync(tmxFile, 'utf8');
+    expect(tmx).toContain('<tmx version="1.4">');
+    expect(tmx).toContain('<tuv xml:lang="fr"><seg>Oui</seg></tuv>');
+
+    expect(memory.prune({ targetLocale: 'de' })).toBe(1);
+    expect(new TranslationMemory(testDir).records()).toHaveLength(2);
+  });
+});
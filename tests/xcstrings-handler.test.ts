@@ -0,0 +1,169 @@
+import { XcstringsHandler } from "../src/format/xcstrings-handler.js";
+import { FormatDetector } from "../src/format-detector.js";
+import { isMultiLocaleHandler } from "../src/format.interface.js";
+
+describe("XcstringsHandler", () => {
+  let handler: XcstringsHandler;
+
+  const unit = (value: string, state = "translated") => ({ stringUnit: { state, value } });
+  const catalog = {
+    sourceLanguage: "en",
+    strings: {
+      "%lld items": {
+        comment: "Cart badge",
+        extractionState: "extracted_with_value",
+        localizations: {
+          en: { variations: { plural: { one: unit("%lld item", "new"), other: unit("%lld items", "new") } } },
+        },
+      },
+      Hello: {
+        extractionState: "manual",
+        localizations: { de: unit("Hallo"), fr: unit("Bonjour", "needs_review") },
+      },
+      MyApp: { shouldTranslate: false },
+      Old: { extractionState: "stale" },
+      "Tap %@": {
+        localizations: {
+          en: { variations: { device: { mac: unit("Click %@"), other: unit("Tap %@") } } },
+        },
+      },
+    },
+    version: "1.0",
+  };
+  const content = JSON.stringify(catalog, null, 2).replace(/": /g, '" : ');
+
+  beforeEach(() => {
+    handler = new XcstringsHandler();
+  });
+
+  it("should handle .xcstrings files, detected by extension", () => {
+    expect(handler.canHandle("Localizable.xcstrings", content)).toBe(true);
+    expect(handler.canHandle("Localizable.xcstrings", "{}")).toBe(false);
+    expect(handler.canHandle("Localizable.json")).toBe(false);
+    expect(FormatDetector.detectFormat("Localizable.xcstrings", content)).toBe("xcstrings");
+    expect(isMultiLocaleHandler(handler)).toBe(true);
+  });
+
+  it("should read the strings of the source language as variation trees", () => {
+    const { _metadata, ...result } = handler.parse(content);
+
+    expect(result).toEqual({
+      "%lld items": { plural: { one: "%lld item", other: "%lld items" } },
+      Hello: "Hello",
+      "Tap %@": { device: { mac: "Click %@", other: "Tap %@" } },
+    });
+    expect(_metadata?.keyContexts).toEqual({
+      "%lld items.plural.one": { description: "Cart badge" },
+      "%lld items.plural.other": { description: "Cart badge" },
+    });
+  });
+
+  it("should list the locales and read their review states", () => {
+    expect(handler.getSourceLocale(content)).toBe("en");
+    expect(handler.getLocales(content)).toEqual(["en", "de", "fr"]);
+
+    const { _metadata, ...result } = handler.parseLocale(content, "fr");
+    expect(result).toEqual({ Hello: "Bonjour" });
+    expect(_metadata?.needsReview).toEqual(["Hello"]);
+  });
+
+  it("should fill in a locale, marking new units for review and keeping the rest", () => {
+    const result = handler.updateLocale(content, "pl", {
+      "%lld items": { plural: { one: "%lld element", other: "%lld elementów" } },
+      Hello: "Cześć",
+    });
+    const updated = JSON.parse(result);
+
+    expect(updated.strings["%lld items"]).toEqual({
+      ...catalog.strings["%lld items"],
+      localizations: {
+        ...catalog.strings["%lld items"].localizations,
+        pl: {
+          variations: {
+            plural: {
+              one: unit("%lld element", "needs_review"),
+              few: unit("%lld elementów", "needs_review"),
+              many: unit("%lld elementów", "needs_review"),
+              other: unit("%lld elementów", "needs_review"),
+            },
+          },
+        },
+      },
+    });
+    expect(Object.keys(updated.strings.Hello.localizations)).toEqual(["de", "fr", "pl"]);
+    expect(updated.strings.MyApp).toEqual({ shouldTranslate: false });
+    expect(updated.strings.Old).toEqual({ extractionState: "stale" });
+    expect(result).toContain('"sourceLanguage" : "en"');
+  });
+
+  it("should keep the state of unchanged units unless they are flagged", () => {
+    const keep = JSON.parse(handler.updateLocale(content, "fr", { Hello: "Bonjour" }));
+    const changed = JSON.parse(handler.updateLocale(content, "de", { Hello: "Guten Tag" }));
+    const flagged = JSON.parse(
+      handler.updateLocale(content, "de", { Hello: "Hallo" }, { needsReview: ["Hello"] }),
+    );
+
+    expect(keep.strings.Hello.localizations.fr).toEqual(unit("Bonjour", "needs_review"));
+    expect(changed.strings.Hello.localizations.de).toEqual(unit("Guten Tag", "needs_review"));
+    expect(flagged.strings.Hello.localizations.de).toEqual(unit("Hallo", "needs_review"));
+    expect(JSON.parse(handler.updateLocale(content, "de", { Hello: "Hallo" })).strings.Hello.localizations.de).toEqual(
+      unit("Hallo"),
+    );
+  });
+
+  it("should translate format strings and their substitutions", () => {
+    const withSubstitutions = JSON.stringify({
+      sourceLanguage: "en",
+      strings: {
+        files: {
+          localizations: {
+            en: {
+              stringUnit: unit("%#@count@ in %@").stringUnit,
+              substitutions: {
+                count: {
+                  argNum: 1,
+                  formatSpecifier: "lld",
+                  variations: { plural: { one: unit("%arg file"), other: unit("%arg files") } },
+                },
+              },
+            },
+          },
+        },
+      },
+      version: "1.0",
+    });
+
+    const { _metadata, ...source } = handler.parse(withSubstitutions);
+    expect(source).toEqual({
+      files: {
+        format: "%#@count@ in %@",
+        substitutions: { count: { plural: { one: "%arg file", other: "%arg files" } } },
+      },
+    });
+
+    const updated = JSON.parse(
+      handler.updateLocale(withSubstitutions, "ja", {
+        files: {
+          format: "%2$@の%#@count@",
+          substitutions: { count: { plural: { one: "%arg個", other: "%arg個" } } },
+        },
+      }),
+    );
+    expect(updated.strings.files.localizations.ja).toEqual({
+      stringUnit: { state: "needs_review", value: "%2$@の%#@count@" },
+      substitutions: {
+        count: {
+          argNum: 1,
+          formatSpecifier: "lld",
+          variations: { plural: { other: unit("%arg個", "needs_review") } },
+        },
+      },
+    });
+  });
+
+  it("should reject files that are not string catalogs", () => {
+    expect(() => handler.parse('{"strings": {}}')).toThrow(
+      "Failed to parse xcstrings: expected a sourceLanguage and strings",
+    );
+  });
+});
@@ -324,6 +324,127 @@ describe('XliffHandler', () => {
       // Should mark as not approved since it's a new translation
       expect(result).toContain('approved="no"');
     });
+
+    it('should list translations waiting for review', () => {
+      const xliff12 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="test.properties" source-language="en" target-language="es" datatype="plaintext">
+    <body>
+      <trans-unit id="machine">
+        <source>Hello</source>
+        <target state="needs-review-translation">Hola</target>
+      </trans-unit>
+      <trans-unit id="reviewed">
+        <source>Goodbye</source>
+        <target state="translated">Adiós</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`;
+      const xliff20 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="fr">
+  <file id="test">
+    <unit id="machine">
+      <segment state="translated">
+        <source>Hello</source>
+        <target>Bonjour</target>
+      </segment>
+    </unit>
+    <unit id="reviewed">
+      <segment state="reviewed">
+        <source>Goodbye</source>
+        <target>Au revoir</target>
+      </segment>
+    </unit>
+  </file>
+</xliff>`;
+
+      expect(handler.parse(xliff12)._metadata?.needsReview).toEqual(['machine']);
+      expect(handler.parse(xliff20)._metadata?.needsReview).toEqual(['machine']);
+    });
+
+    it('should mark only the listed translations for review', () => {
+      const result = handler.serialize(
+        { machine: 'Hola', reviewed: 'Adiós' },
+        { needsReview: ['machine'] },
+      );
+
+      expect(result).toMatch(/<trans-unit id="machine" approved="no">\s*<source>Hola<\/source>\s*<target state="needs-review-translation">Hola<\/target>/);
+      expect(result).toMatch(/<trans-unit id="reviewed">\s*<source>Adiós<\/source>\s*<target>Adiós<\/target>/);
+    });
+
+    it('should mark XLIFF 2.0 segments as translated but not reviewed', () => {
+      const xliffContent = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="fr">
+  <file id="test">
+    <unit id="greeting">
+      <segment>
+        <source>Hello</source>
+      </segment>
+    </unit>
+    <unit id="farewell">
+      <segment state="reviewed">
+        <source>Goodbye</source>
+        <target>Au revoir</target>
+      </segment>
+    </unit>
+  </file>
+</xliff>`;
+
+      const parsed = handler.parse(xliffContent) as EnhancedTranslationFile;
+      const result = handler.serialize({ ...parsed, greeting: 'Bonjour' }, { needsReview: ['greeting'] });
+
+      expect(result).toMatch(/<unit id="greeting" approved="no">\s*<segment state="translated">/);
+      expect(result).toMatch(/<unit id="farewell">\s*<segment state="reviewed">/);
+    });
+  });
+
+  describe('key contexts', () => {
+    it('should collect XLIFF 1.2 notes and character limits', () => {
+      const xliffContent = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="test.properties" source-language="en" target-language="es" datatype="plaintext">
+    <body>
+      <trans-unit id="save" maxwidth="10" size-unit="char">
+        <source>Save</source>
+        <note>Toolbar button</note>
+        <note from="developer">Verb, not a noun</note>
+      </trans-unit>
+      <trans-unit id="title" maxwidth="200">
+        <source>Title</source>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`;
+
+      expect(handler.parse(xliffContent)._metadata?.keyContexts).toEqual({
+        save: { description: 'Toolbar button Verb, not a noun', maxLength: 10 },
+      });
+    });
+
+    it('should give the notes of XLIFF 2.0 units to their segments', () => {
+      const xliffContent = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="fr">
+  <file id="test">
+    <unit id="intro">
+      <notes>
+        <note category="description">Welcome screen</note>
+      </notes>
+      <segment>
+        <source>Hello.</source>
+      </segment>
+      <segment>
+        <source>Welcome.</source>
+      </segment>
+    </unit>
+  </file>
+</xliff>`;
+
+      expect(handler.parse(xliffContent)._metadata?.keyContexts).toEqual({
+        'intro.0': { description: 'Welcome screen' },
+        'intro.1': { description: 'Welcome screen' },
+      });
+    });
   });
 
   describe('validation', () => {
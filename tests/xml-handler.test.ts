@@ -5,6 +5,7 @@ import { dirname } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 import type { EnhancedTranslationFile } from '../src/format.interface.js';
+import { FormatDetector } from '../src/format-detector.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -440,6 +441,75 @@ describe('XmlHandler', () => {
     });
   });
 
+  describe('Android plurals and string arrays', () => {
+    const resourcesXml = `<?xml version="1.0" encoding="utf-8"?>
+<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">
+  <string name="app_name" translatable="false">MyApp</string>
+  <string name="welcome">Hello <xliff:g id="name" example="Bob">%1$s</xliff:g>!</string>
+  <plurals name="songs">
+    <item quantity="one">%d song</item>
+    <item quantity="other">%d songs</item>
+  </plurals>
+  <string-array name="planets">
+    <item>Mercury</item>
+    <item>Venus</item>
+  </string-array>
+  <string-array name="codes" translatable="false">
+    <item>A1</item>
+  </string-array>
+</resources>`;
+
+    it('should parse plurals, string arrays and xliff:g tags', () => {
+      const { _metadata, ...result } = handler.parse(resourcesXml);
+
+      expect(result).toEqual({
+        welcome: 'Hello <xliff:g id="name" example="Bob">%1$s</xliff:g>!',
+        songs: { one: '%d song', other: '%d songs' },
+        planets: ['Mercury', 'Venus'],
+      });
+    });
+
+    it('should write the plural quantities of the target locale', () => {
+      const parsed = handler.parse(resourcesXml) as EnhancedTranslationFile;
+      const result = handler.serialize(
+        { ...parsed, songs: { one: '%d piosenka', other: '%d piosenek' }, planets: ['Merkury', 'Wenus'] },
+        { locale: 'pl' },
+      );
+
+      expect(result).toContain('<string name="app_name" translatable="false">MyApp</string>');
+      expect(result).toContain('<string name="welcome">Hello <xliff:g id="name" example="Bob">%1$s</xliff:g>!</string>');
+      expect(result).toMatch(
+        /<item quantity="one">%d piosenka<\/item>\s*<item quantity="few">%d piosenek<\/item>\s*<item quantity="many">%d piosenek<\/item>\s*<item quantity="other">%d piosenek<\/item>/,
+      );
+      expect(result).toMatch(/<string-array name="planets">\s*<item>Merkury<\/item>\s*<item>Wenus<\/item>/);
+    });
+
+    it('should detect resources declaring the xliff namespace as Android XML', () => {
+      const { _metadata, ...flat } = handler.parse(resourcesXml);
+      const rebuilt = handler.serialize(flat, { locale: 'pl' });
+
+      expect(FormatDetector.detectFormat('values/strings.xml', resourcesXml)).toBe('android-xml');
+      expect(FormatDetector.detectFormat('pl.xml', rebuilt)).toBe('android-xml');
+      expect(
+        FormatDetector.detectFormat(
+          'messages.xml',
+          '<?xml version="1.0"?>\n<!-- export -->\n<xliff version="1.2"><file></file></xliff>',
+        ),
+      ).toBe('xliff');
+    });
+
+    it('should rebuild plurals and string arrays without the original structure', () => {
+      const { _metadata, ...flat } = handler.parse(resourcesXml);
+      const result = handler.serialize(flat, { locale: 'ja' });
+
+      expect(result).toContain('<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">');
+      expect(result).toMatch(/<plurals name="songs">\s*<item quantity="other">%d songs<\/item>\s*<\/plurals>/);
+      expect(result).toMatch(/<string-array name="planets">\s*<item>Mercury<\/item>\s*<item>Venus<\/item>/);
+      expect(result).not.toContain('app_name');
+      expect(handler.parse(result).songs).toEqual({ other: '%d songs' });
+    });
+  });
+
   describe('enhanced iOS XML support', () => {
     let iosXmlContent: string;
 
@@ -677,10 +747,12 @@ describe('XmlHandler', () => {
       
       const result = handler.parse(xmlWithAttributes) as EnhancedTranslationFile;
       
-      expect(result.app_name).toBe('My App');
+      // untranslatable strings are not offered for translation
+      expect(result.app_name).toBeUndefined();
       expect(result.welcome).toBe('Welcome!');
       expect(result._metadata?.originalStructure).toBeDefined();
       expect(result._metadata?.preserveAttributes).toBe(true);
+      expect(handler.serialize(result)).toContain('<string name="app_name" translatable="false">My App</string>');
     });
   });
 });
\ No newline at end of file